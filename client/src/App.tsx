@@ -1,12 +1,17 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, Redirect } from "wouter";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "./lib/queryClient";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { NetworkProvider } from "./hooks/useNetwork";
 import { WalletProvider } from "./hooks/useWallet";
+import { TransactionsProvider } from "./hooks/useTransactions";
 import Home from "./pages/Home";
-import WentgePage from "./pages/WentgePage";
-import FoomPage from "./pages/FoomPage";
+import CollectionPage from "./pages/CollectionPage";
+import CollectionExplorerPage from "./pages/CollectionExplorerPage";
+import CollectionHoldersPage from "./pages/CollectionHoldersPage";
+import NFTDetailPage from "./pages/NFTDetailPage";
+import ApprovalsPage from "./pages/ApprovalsPage";
 import SVGTestPage from "./pages/SVGTestPage";
 import NotFound from "./pages/not-found";
 
@@ -14,8 +19,14 @@ function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
-      <Route path="/wentge" component={WentgePage} />
-      <Route path="/foom" component={FoomPage} />
+      <Route path="/collection/:slug" component={CollectionPage} />
+      <Route path="/collection/:slug/explorer" component={CollectionExplorerPage} />
+      <Route path="/collection/:slug/holders" component={CollectionHoldersPage} />
+      <Route path="/nft/:contract/:tokenId" component={NFTDetailPage} />
+      <Route path="/approvals" component={ApprovalsPage} />
+      {/* Legacy collection routes */}
+      <Route path="/wentge"><Redirect to="/collection/wentge" replace /></Route>
+      <Route path="/foom"><Redirect to="/collection/foom" replace /></Route>
       <Route path="/svgtest" component={SVGTestPage} />
       <Route component={NotFound} />
     </Switch>
@@ -27,10 +38,14 @@ function App() {
     return (
       <QueryClientProvider client={queryClient}>
         <TooltipProvider>
-          <WalletProvider>
-            <Toaster />
-            <Router />
-          </WalletProvider>
+          <NetworkProvider>
+            <WalletProvider>
+              <TransactionsProvider>
+                <Toaster />
+                <Router />
+              </TransactionsProvider>
+            </WalletProvider>
+          </NetworkProvider>
         </TooltipProvider>
       </QueryClientProvider>
     );
@@ -0,0 +1,149 @@
+/**
+ * Activity Drawer Component
+ *
+ * Side panel listing the connected address's playground transactions (mints,
+ * approvals) with status badges, confirmation counts, gas paid and explorer
+ * links. Combines locally tracked transactions with on-chain Minted events,
+ * refreshed each time the drawer opens.
+ */
+
+import { useState } from "react";
+import { ethers } from "ethers";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger
+} from "@/components/ui/sheet";
+import { ClockIcon, ExternalLinkIcon, Loader2Icon } from "@/components/SVGIcons";
+import { useNetwork } from "@/hooks/useNetwork";
+import { useActivity } from "@/hooks/useActivity";
+import { getTransactionUrl } from "@/lib/web3";
+import type { ActivityItem } from "@/types/contracts";
+
+const STATUS_BADGES: Record<ActivityItem['status'], { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20' },
+  confirmed: { label: 'Confirmed', className: 'bg-green-500/10 text-green-400 border-green-500/20' },
+  failed: { label: 'Failed', className: 'bg-red-500/10 text-red-400 border-red-500/20' },
+  replaced: { label: 'Replaced', className: 'bg-muted text-muted-foreground border-border' },
+  cancelled: { label: 'Cancelled', className: 'bg-muted text-muted-foreground border-border' }
+};
+
+/**
+ * Format wei paid for gas in the native currency
+ */
+function formatGasPaid(gasPaid: string, symbol: string): string {
+  const amount = Number(ethers.utils.formatEther(gasPaid));
+  return `${amount.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${symbol}`;
+}
+
+export default function ActivityDrawer() {
+  const { network } = useNetwork();
+  const { items, pendingCount, currentBlock, loading, refresh } = useActivity();
+  const [open, setOpen] = useState(false);
+
+  /**
+   * Reload chain activity whenever the drawer opens
+   */
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      refresh().catch(error => console.error("Error loading activity:", error));
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="relative px-3 py-2.5 h-auto bg-card border-border hover:bg-card/80">
+          <ClockIcon className="w-4 h-4" size={16} />
+          <span className="sr-only">Recent activity</span>
+          {pendingCount > 0 && (
+            <span className="absolute -top-1 -right-1 w-4 h-4 rounded-full bg-yellow-500 text-[10px] font-bold text-black flex items-center justify-center">
+              {pendingCount}
+            </span>
+          )}
+        </Button>
+      </SheetTrigger>
+
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center space-x-2">
+            <span>Recent Activity</span>
+            {loading && <Loader2Icon className="w-4 h-4 animate-spin text-muted-foreground" size={16} />}
+          </SheetTitle>
+          <SheetDescription>
+            Mints and approvals on {network.name}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-3">
+          {items.length === 0 && !loading && (
+            <p className="text-sm text-muted-foreground text-center py-8">No playground transactions yet</p>
+          )}
+
+          {items.map((item) => {
+            const badge = STATUS_BADGES[item.status];
+            const confirmations = currentBlock !== null && item.blockNumber !== null
+              ? Math.max(currentBlock - item.blockNumber + 1, 1)
+              : null;
+
+            return (
+              <div key={item.hash} className="p-3 rounded-lg border border-border bg-card space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-foreground truncate">{item.purpose}</p>
+                    {item.timestamp !== null && (
+                      <p className="text-xs text-muted-foreground">{new Date(item.timestamp).toLocaleString()}</p>
+                    )}
+                  </div>
+                  <Badge variant="outline" className={badge.className}>
+                    {item.replacement?.reason === 'repriced' && item.status === 'confirmed' ? 'Sped Up' : badge.label}
+                  </Badge>
+                </div>
+
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>
+                    {confirmations !== null
+                      ? `${confirmations.toLocaleString()} confirmation${confirmations === 1 ? '' : 's'}`
+                      : 'Awaiting confirmation'}
+                  </span>
+                  {item.gasPaid && (
+                    <span>Gas {formatGasPaid(item.gasPaid, network.nativeCurrency.symbol)}</span>
+                  )}
+                </div>
+
+                <div className="flex items-center space-x-3 text-xs">
+                  <a
+                    href={getTransactionUrl(item.hash, network)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center text-primary hover:text-primary/80"
+                  >
+                    <ExternalLinkIcon className="w-3 h-3 mr-1" size={12} />
+                    {item.hash.slice(0, 10)}...
+                  </a>
+                  {item.replacement && (
+                    <a
+                      href={getTransactionUrl(item.replacement.hash, network)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center text-muted-foreground hover:text-foreground"
+                    >
+                      <ExternalLinkIcon className="w-3 h-3 mr-1" size={12} />
+                      Replacement
+                    </a>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * Address Lookup Component
+ *
+ * Small inline form for viewing the NFTs held by any address, so collections
+ * can be browsed without connecting a wallet. Validates the input with
+ * isValidAddress before handing it to the page.
+ */
+
+import { useState, type FormEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { SearchIcon } from "@/components/SVGIcons";
+import { isValidAddress } from "@/lib/web3";
+
+interface AddressLookupProps {
+  value: string | null;
+  onLookup: (address: string | null) => void;
+}
+
+export default function AddressLookup({ value, onLookup }: AddressLookupProps) {
+  const [input, setInput] = useState(value ?? '');
+  const [invalid, setInvalid] = useState(false);
+
+  /**
+   * Submit the lookup, or clear it when the input is empty
+   */
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const trimmed = input.trim();
+
+    if (!trimmed) {
+      setInvalid(false);
+      onLookup(null);
+      return;
+    }
+
+    if (!isValidAddress(trimmed)) {
+      setInvalid(true);
+      return;
+    }
+
+    setInvalid(false);
+    onLookup(trimmed);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center space-x-2">
+      <Input
+        value={input}
+        onChange={(event) => {
+          setInput(event.target.value);
+          setInvalid(false);
+        }}
+        placeholder="View any address (0x...)"
+        className={`h-9 w-64 font-mono text-xs ${invalid ? 'border-red-500' : ''}`}
+        aria-invalid={invalid}
+      />
+      <Button type="submit" variant="outline" size="sm" className="h-9">
+        <SearchIcon className="w-4 h-4" size={16} />
+      </Button>
+      {value && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-9"
+          onClick={() => {
+            setInput('');
+            setInvalid(false);
+            onLookup(null);
+          }}
+        >
+          Clear
+        </Button>
+      )}
+    </form>
+  );
+}
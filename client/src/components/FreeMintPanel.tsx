@@ -0,0 +1,282 @@
+/**
+ * Free Mint Panel Component
+ *
+ * Mint card for collections without a token cost. Checks the connected
+ * wallet against the collection's per-wallet limit, honours the contract's
+ * minting switch, simulates the mint and only then submits the transaction
+ * with the chosen fee preset.
+ */
+
+import { useState, useEffect } from "react";
+import { ethers } from "ethers";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2, CheckCircle, AlertCircle } from "lucide-react";
+import { useWallet } from "@/hooks/useWallet";
+import { useNetwork } from "@/hooks/useNetwork";
+import { useToast } from "@/hooks/use-toast";
+import { useTransactions } from "@/hooks/useTransactions";
+import { useMintSimulation } from "@/hooks/useMintSimulation";
+import { useGasSettings } from "@/hooks/useGasSettings";
+import LoadingModal from "@/components/LoadingModal";
+import MintPreflight from "@/components/MintPreflight";
+import GasSettings from "@/components/GasSettings";
+import { decodeError, isRevertReason } from "@/lib/errors";
+import type { CollectionConfig } from "@/types/contracts";
+
+interface FreeMintPanelProps {
+  collection: CollectionConfig;
+  contract: ethers.Contract | null;
+  writeContract: ethers.Contract | null;
+  contractLoading: boolean;
+  mintingEnabled: boolean | null;
+  onMinted: () => Promise<void>;
+}
+
+export default function FreeMintPanel({
+  collection,
+  contract,
+  writeContract,
+  contractLoading,
+  mintingEnabled,
+  onMinted
+}: FreeMintPanelProps) {
+  const { isConnected, address, chainId } = useWallet();
+  const { network } = useNetwork();
+  const { toast } = useToast();
+  const { trackTransaction } = useTransactions();
+  const [isLoading, setIsLoading] = useState(false);
+  const [canMint, setCanMint] = useState(false);
+  const [hasCheckedEligibility, setHasCheckedEligibility] = useState(false);
+  const { simulation, simulating, simulate } = useMintSimulation(
+    contract,
+    collection.mint.method,
+    isConnected && !contractLoading
+  );
+  const gas = useGasSettings();
+
+  const { walletLimit, walletLimitReason } = collection.mint;
+  const limitDescription = `You can only mint ${walletLimit === 1 ? 'one' : walletLimit} ${collection.name}${walletLimit === 1 ? '' : 's'} per wallet`;
+
+  /**
+   * Check whether the wallet is still under the collection's per-wallet limit
+   */
+  const checkMintEligibility = async () => {
+    if (!contract || !address) return;
+
+    try {
+      const balance: ethers.BigNumber = await contract.balanceOf(address);
+      setCanMint(walletLimit === undefined || balance.lt(walletLimit));
+      setHasCheckedEligibility(true);
+    } catch (error) {
+      console.error("Error checking mint eligibility:", error);
+      toast({
+        title: "Error",
+        description: "Failed to check mint eligibility",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Mint an NFT from the collection
+   */
+  const handleMint = async () => {
+    if (!writeContract || !isConnected) {
+      toast({
+        title: "Wallet Required",
+        description: "Please connect your wallet to mint",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (chainId !== network.chainId) {
+      toast({
+        title: "Wrong Network",
+        description: `Please switch to ${network.name} (${network.chainId})`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!canMint) {
+      toast({
+        title: "Already Minted",
+        description: limitDescription,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+
+      // Dry-run first so a revert is explained before the wallet prompt
+      const preflight = await simulate();
+      if (preflight && !preflight.success) {
+        toast({
+          title: "Mint Would Fail",
+          description: preflight.error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Transaction Initiated",
+        description: "Please confirm the transaction in your wallet",
+      });
+
+      const tx = await writeContract[collection.mint.method](
+        gas.getOverrides(preflight?.success ? preflight.gasLimit : null)
+      );
+      await trackTransaction(tx, { kind: 'mint', purpose: `Mint ${collection.name}` });
+
+      // Refresh data
+      await checkMintEligibility();
+      await onMinted();
+      await simulate();
+
+    } catch (error) {
+      console.error("Mint error:", error);
+      const decoded = decodeError(error);
+
+      switch (decoded.type) {
+        case 'user-rejected':
+          toast({
+            title: "Transaction Cancelled",
+            description: "You cancelled the transaction",
+            variant: "destructive",
+          });
+          break;
+        case 'revert':
+          if (walletLimitReason && isRevertReason(decoded, walletLimitReason)) {
+            toast({
+              title: "Already Minted",
+              description: limitDescription,
+              variant: "destructive",
+            });
+            break;
+          }
+        // falls through
+        default:
+          toast({
+            title: "Minting Failed",
+            description: decoded.message,
+            variant: "destructive",
+          });
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Check eligibility when wallet connects
+  useEffect(() => {
+    if (isConnected && contract && !contractLoading) {
+      checkMintEligibility();
+    }
+  }, [isConnected, contract, contractLoading, address]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Mint {collection.name}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        
+        {/* Mint Status */}
+        {isConnected && hasCheckedEligibility && (
+          <div className={`p-4 rounded-lg border ${
+            canMint 
+              ? 'bg-green-500/10 border-green-500/20' 
+              : 'bg-yellow-500/10 border-yellow-500/20'
+          }`}>
+            <div className="flex items-center space-x-3">
+              <div className={`w-6 h-6 rounded-full flex items-center justify-center ${
+                canMint ? 'bg-green-500' : 'bg-yellow-500'
+              }`}>
+                {canMint ? (
+                  <CheckCircle className="w-3 h-3 text-white" />
+                ) : (
+                  <AlertCircle className="w-3 h-3 text-white" />
+                )}
+              </div>
+              <div>
+                <p className={`font-medium ${
+                  canMint ? 'text-green-400' : 'text-yellow-400'
+                }`}>
+                  {canMint ? 'Ready to Mint' : 'Already Minted'}
+                </p>
+                <p className={`text-sm ${
+                  canMint ? 'text-green-300' : 'text-yellow-300'
+                }`}>
+                  {canMint 
+                    ? `You can mint your free ${collection.name}` 
+                    : `You have already minted your ${collection.name}`
+                  }
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Pre-flight Simulation */}
+        {isConnected && (
+          <MintPreflight simulation={simulation} simulating={simulating} />
+        )}
+
+        {/* Gas Settings */}
+        {isConnected && canMint && mintingEnabled !== false && (
+          <GasSettings gas={gas} gasLimit={simulation?.success ? simulation.gasLimit : null} />
+        )}
+
+        {/* Mint Button */}
+        <Button 
+          onClick={handleMint}
+          disabled={!isConnected || isLoading || contractLoading || !canMint || mintingEnabled === false}
+          className="w-full glow-button text-white py-6 text-lg font-semibold"
+        >
+          {isLoading ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Minting...
+            </>
+          ) : !isConnected ? (
+            'Connect Wallet to Mint'
+          ) : contractLoading ? (
+            'Loading Contract...'
+          ) : mintingEnabled === false ? (
+            'Minting Disabled'
+          ) : !canMint && hasCheckedEligibility ? (
+            'Already Minted'
+          ) : (
+            collection.mint.label
+          )}
+        </Button>
+
+        {/* Network Warning */}
+        {isConnected && chainId !== network.chainId && (
+          <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+            <div className="flex items-center space-x-3">
+              <AlertCircle className="w-5 h-5 text-red-400" />
+              <div>
+                <p className="font-medium text-red-400">Wrong Network</p>
+                <p className="text-sm text-red-300">Please switch to {network.name} ({network.chainId}) to continue.</p>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Loading Modal */}
+      {isLoading && (
+        <LoadingModal 
+          title="Processing Transaction"
+          message="Please confirm the transaction in your wallet and wait for blockchain confirmation..."
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+/**
+ * Gas Settings Component
+ *
+ * Fee picker shown before a mint or approval: slow/normal/fast presets with
+ * their max fee, the expected cost in the native currency for the chosen
+ * preset, and an advanced gas limit override.
+ */
+
+import { useState, useEffect } from "react";
+import { ethers } from "ethers";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2 } from "lucide-react";
+import { useNetwork } from "@/hooks/useNetwork";
+import type { UseGasSettingsReturn } from "@/hooks/useGasSettings";
+import { GAS_SPEEDS, getTransactionCost } from "@/lib/gas";
+import type { GasSpeed } from "@/types/contracts";
+
+// Intrinsic gas of any transaction; lower overrides can never succeed
+const MIN_GAS_LIMIT = 21000;
+
+const SPEED_LABELS: Record<GasSpeed, string> = {
+  slow: 'Slow',
+  normal: 'Normal',
+  fast: 'Fast'
+};
+
+interface GasSettingsProps {
+  gas: UseGasSettingsReturn;
+  // Estimated gas limit of the next transaction, if known
+  gasLimit: ethers.BigNumber | null;
+}
+
+/**
+ * Format a per-gas fee in gwei
+ */
+function formatGwei(value: ethers.BigNumber): string {
+  const gwei = Number(ethers.utils.formatUnits(value, 'gwei'));
+  return `${gwei.toLocaleString(undefined, { maximumFractionDigits: gwei < 1 ? 4 : 2 })} gwei`;
+}
+
+export default function GasSettings({ gas, gasLimit }: GasSettingsProps) {
+  const { network } = useNetwork();
+  const { estimate, speed, setSpeed, gasLimitOverride, setGasLimitOverride, loading } = gas;
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [limitInput, setLimitInput] = useState(gasLimitOverride?.toString() ?? '');
+  const [limitInvalid, setLimitInvalid] = useState(false);
+
+  // Keep the input in sync when the override is cleared elsewhere, but leave
+  // invalid input in place so it can be corrected
+  useEffect(() => {
+    if (!gasLimitOverride && !limitInvalid) setLimitInput('');
+  }, [gasLimitOverride, limitInvalid]);
+
+  const effectiveGasLimit = gasLimitOverride ?? gasLimit;
+  const cost = estimate && effectiveGasLimit
+    ? getTransactionCost(effectiveGasLimit, estimate.presets[speed], estimate.baseFeePerGas)
+    : null;
+
+  /**
+   * Apply a gas limit override, or clear it when the input is empty or invalid
+   * so a limit the field no longer shows is never sent
+   */
+  const handleLimitChange = (value: string) => {
+    setLimitInput(value);
+    const trimmed = value.trim();
+
+    if (!trimmed) {
+      setLimitInvalid(false);
+      setGasLimitOverride(null);
+      return;
+    }
+
+    if (!/^\d+$/.test(trimmed) || Number(trimmed) < MIN_GAS_LIMIT) {
+      setLimitInvalid(true);
+      setGasLimitOverride(null);
+      return;
+    }
+
+    setLimitInvalid(false);
+    setGasLimitOverride(ethers.BigNumber.from(trimmed));
+  };
+
+  return (
+    <div className="p-4 bg-card border border-border rounded-lg space-y-3 text-sm">
+      <div className="flex justify-between items-center">
+        <span className="text-muted-foreground">Estimated Network Fee:</span>
+        <span className="font-mono text-foreground flex items-center space-x-2">
+          {loading && !estimate && <Loader2 className="w-3 h-3 animate-spin" />}
+          <span>
+            {cost
+              ? `~${Number(ethers.utils.formatEther(cost)).toLocaleString(undefined, { maximumFractionDigits: 6 })} ${network.nativeCurrency.symbol}`
+              : '—'}
+          </span>
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {GAS_SPEEDS.map(option => (
+          <Button
+            key={option}
+            type="button"
+            variant={speed === option ? 'default' : 'outline'}
+            size="sm"
+            className="h-auto py-2 flex flex-col"
+            onClick={() => setSpeed(option)}
+          >
+            <span>{SPEED_LABELS[option]}</span>
+            <span className="text-xs opacity-70 font-mono">
+              {estimate ? formatGwei(estimate.presets[option].maxFeePerGas) : '—'}
+            </span>
+          </Button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <button
+          type="button"
+          className="text-xs text-muted-foreground hover:text-foreground underline"
+          onClick={() => setShowAdvanced(!showAdvanced)}
+        >
+          {showAdvanced ? 'Hide advanced' : 'Advanced'}
+        </button>
+
+        {showAdvanced && (
+          <div className="flex items-center justify-between space-x-3">
+            <span className="text-muted-foreground">Gas Limit:</span>
+            <Input
+              value={limitInput}
+              onChange={(event) => handleLimitChange(event.target.value)}
+              placeholder={gasLimit?.toString() ?? 'Estimated'}
+              inputMode="numeric"
+              className={`h-8 w-36 font-mono text-xs ${limitInvalid ? 'border-red-500' : ''}`}
+              aria-invalid={limitInvalid}
+            />
+          </div>
+        )}
+        {showAdvanced && limitInvalid && (
+          <p className="text-xs text-red-400">
+            Enter a whole number of at least {MIN_GAS_LIMIT.toLocaleString()}; the estimate is used until then.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
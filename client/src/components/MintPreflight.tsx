@@ -0,0 +1,50 @@
+/**
+ * Mint Pre-flight Component
+ *
+ * Shows the outcome of simulating the mint before anyone signs: either the
+ * decoded reason the transaction would revert, or confirmation that it
+ * would succeed.
+ */
+
+import { Loader2, CheckCircle, AlertCircle } from "lucide-react";
+import type { SimulationResult } from "@/lib/simulation";
+
+interface MintPreflightProps {
+  simulation: SimulationResult | null;
+  simulating: boolean;
+}
+
+export default function MintPreflight({ simulation, simulating }: MintPreflightProps) {
+  if (simulating && !simulation) {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        <span>Simulating mint...</span>
+      </div>
+    );
+  }
+
+  if (!simulation) return null;
+
+  if (!simulation.success) {
+    return (
+      <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+        <div className="flex items-center space-x-3">
+          <AlertCircle className="w-5 h-5 text-red-400 shrink-0" />
+          <div>
+            <p className="font-medium text-red-400">This mint would fail</p>
+            <p className="text-sm text-red-300 break-words">{simulation.error.message}</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center space-x-2 text-sm text-green-400">
+      <CheckCircle className="w-4 h-4" />
+      <span className="font-medium">Simulation succeeded</span>
+      {simulating && <Loader2 className="w-3 h-3 animate-spin text-muted-foreground" />}
+    </div>
+  );
+}
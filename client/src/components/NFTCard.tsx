@@ -4,26 +4,30 @@
  * Renders individual NFT cards with comprehensive metadata display.
  * Features include:
  * - Base64 encoded image rendering from on-chain data
- * - JSON metadata parsing from tokenURI (base64 or HTTP)
- * - Dynamic attribute display with proper formatting
+ * - Metadata resolution from tokenURI (data, IPFS, Arweave or HTTP), with
+ *   resolution errors shown on the card; cached metadata skips resolution
+ * - Attributes rendered by display type (bars, boosts, dates, units)
  * - Collapsible attribute sections for better UX
- * - Direct links to Hemi blockchain explorer
+ * - Rarity rank within the collection, when known
+ * - Links to the token's detail page and the selected network's block explorer
+ * - Transfer and burn actions when the connected wallet owns the token
  * - Error handling for missing images or metadata
  */
 
 import { useState, useEffect } from "react";
+import { Link } from "wouter";
+import { ethers } from "ethers";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { EyeIcon, EyeOffIcon } from "@/components/SVGIcons";
 import { ExternalLinkIcon } from "./ExternalLinkIcon";
-
-interface NFTAttribute {
-  trait_type: string;
-  value: string | number;
-  display_type?: string;
-  max_value?: number;
-}
+import TraitList from "./TraitList";
+import TokenActions from "./TokenActions";
+import { useNetwork } from "@/hooks/useNetwork";
+import { getTokenUrl } from "@/lib/web3";
+import { resolveMetadata } from "@/lib/metadata";
+import type { NFTAttribute, NFTMetadata, TokenRarity, TraitDecimals } from "@/types/contracts";
 
 interface NFTCardProps {
   tokenId: string;
@@ -31,6 +35,18 @@ interface NFTCardProps {
   imageURI: string;
   tokenURI: string;
   contractAddress: string;
+  rarity?: TokenRarity;
+  // Tokens ranked alongside this one
+  raritySupply?: number;
+  traitDecimals?: TraitDecimals;
+  // Previously resolved metadata, used instead of resolving tokenURI
+  cachedMetadata?: NFTMetadata;
+  // Called with freshly resolved metadata, e.g. to cache it
+  onMetadata?: (metadata: NFTMetadata) => void;
+  // Signer-bound contract and connected owner, to offer transfer and burn
+  writeContract?: ethers.Contract | null;
+  owner?: string;
+  onTransactionConfirmed?: () => Promise<void> | void;
 }
 
 export default function NFTCard({
@@ -38,58 +54,56 @@ export default function NFTCard({
   name,
   imageURI,
   tokenURI,
-  contractAddress
+  contractAddress,
+  rarity,
+  raritySupply,
+  traitDecimals,
+  cachedMetadata,
+  onMetadata,
+  writeContract,
+  owner,
+  onTransactionConfirmed
 }: NFTCardProps) {
-  const [metadata, setMetadata] = useState<any>(null);
+  const { network } = useNetwork();
+  const [metadata, setMetadata] = useState<NFTMetadata | null>(null);
+  const [metadataError, setMetadataError] = useState<string | null>(null);
   const [attributes, setAttributes] = useState<NFTAttribute[]>([]);
   const [showAttributes, setShowAttributes] = useState(false);
   const [imageError, setImageError] = useState(false);
 
   /**
-   * Parse NFT metadata from tokenURI
+   * Resolve NFT metadata from tokenURI (data, ipfs, ar or http)
    */
   useEffect(() => {
-    const parseMetadata = async () => {
-      try {
-        if (tokenURI.startsWith('data:application/json;base64,')) {
-          // Decode base64 JSON metadata
-          const base64Data = tokenURI.replace('data:application/json;base64,', '');
-          const jsonData = atob(base64Data);
-          const parsed = JSON.parse(jsonData);
-          
-          setMetadata(parsed);
-          if (parsed.attributes && Array.isArray(parsed.attributes)) {
-            setAttributes(parsed.attributes);
-          }
-        } else if (tokenURI.startsWith('http')) {
-          // Fetch from HTTP URL
-          const response = await fetch(tokenURI);
-          const parsed = await response.json();
-          
-          setMetadata(parsed);
-          if (parsed.attributes && Array.isArray(parsed.attributes)) {
-            setAttributes(parsed.attributes);
-          }
-        }
-      } catch (error) {
-        console.error('Error parsing metadata:', error);
-      }
-    };
-
-    if (tokenURI) {
-      parseMetadata();
+    if (cachedMetadata) {
+      setMetadata(cachedMetadata);
+      setAttributes(cachedMetadata.attributes ?? []);
+      setMetadataError(null);
+      return;
     }
-  }, [tokenURI]);
 
-  /**
-   * Format attribute value for display
-   */
-  const formatAttributeValue = (attr: NFTAttribute) => {
-    if (attr.display_type === 'number' && typeof attr.value === 'number') {
-      return `${attr.value}${attr.max_value ? `/${attr.max_value}` : ''}`;
-    }
-    return attr.value.toString();
-  };
+    if (!tokenURI) return;
+
+    let cancelled = false;
+    setMetadataError(null);
+
+    resolveMetadata(tokenURI, { tokenId })
+      .then((resolved) => {
+        if (cancelled) return;
+        setMetadata(resolved);
+        setAttributes(resolved.attributes ?? []);
+        onMetadata?.(resolved);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error('Error resolving metadata:', error);
+        setMetadataError(error.message || 'Could not load metadata');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tokenURI, tokenId, cachedMetadata]);
 
   return (
     <Card className="overflow-hidden bg-card/50 backdrop-blur-sm border-border hover:border-primary/50 transition-all duration-300">
@@ -98,7 +112,7 @@ export default function NFTCard({
         <div className="aspect-square relative bg-gradient-to-br from-primary/10 to-secondary/10">
           {!imageError ? (
             <img
-              src={imageURI}
+              src={imageURI || metadata?.image}
               alt={name}
               className="w-full h-full object-cover"
               onError={() => setImageError(true)}
@@ -123,8 +137,23 @@ export default function NFTCard({
               <span className="text-muted-foreground">Token ID:</span>
               <Badge variant="secondary" className="font-mono">#{tokenId}</Badge>
             </div>
+            {rarity && (
+              <div className="flex items-center space-x-2 text-sm">
+                <span className="text-muted-foreground">Rarity:</span>
+                <Badge variant="outline" className="font-mono">
+                  Rank {rarity.rank}{raritySupply ? ` / ${raritySupply}` : ''}
+                </Badge>
+              </div>
+            )}
           </div>
 
+          {/* Metadata resolution failure */}
+          {metadataError && (
+            <p className="text-sm text-red-400 break-words">
+              Metadata unavailable: {metadataError}
+            </p>
+          )}
+
           {/* Description */}
           {metadata?.description && (
             <p className="text-sm text-muted-foreground">
@@ -156,20 +185,21 @@ export default function NFTCard({
 
           {/* Attributes */}
           {showAttributes && attributes.length > 0 && (
-            <div className="space-y-2 p-3 bg-muted/30 rounded-lg">
-              {attributes.map((attr, index) => (
-                <div key={index} className="flex justify-between items-center text-sm">
-                  <span className="text-muted-foreground">{attr.trait_type}:</span>
-                  <span className="font-medium text-foreground">
-                    {formatAttributeValue(attr)}
-                  </span>
-                </div>
-              ))}
-            </div>
+            <TraitList attributes={attributes} decimals={traitDecimals} className="p-3 bg-muted/30 rounded-lg" />
           )}
 
-          {/* External Links */}
+          {/* Links */}
           <div className="flex space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              asChild
+              className="flex-1"
+            >
+              <Link href={`/nft/${contractAddress}/${tokenId}`}>
+                Details
+              </Link>
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -177,7 +207,7 @@ export default function NFTCard({
               className="flex-1"
             >
               <a
-                href={`https://explorer.hemi.xyz/token/${contractAddress}/instance/${tokenId}`}
+                href={getTokenUrl(contractAddress, tokenId, network)}
                 target="_blank"
                 rel="noopener noreferrer"
               >
@@ -186,6 +216,17 @@ export default function NFTCard({
               </a>
             </Button>
           </div>
+
+          {/* Owner Actions */}
+          {writeContract && owner && (
+            <TokenActions
+              contract={writeContract}
+              tokenId={tokenId}
+              name={name}
+              owner={owner}
+              onConfirmed={onTransactionConfirmed}
+            />
+          )}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,50 @@
+/**
+ * Network Selector Component
+ *
+ * Compact dropdown for choosing the target network from the network registry.
+ * Switching networks repoints contract addresses, explorer links and the
+ * wallet's expected chain without reloading the page.
+ */
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useNetwork } from "@/hooks/useNetwork";
+import { isNetworkKey } from "@/lib/networks";
+
+interface NetworkSelectorProps {
+  className?: string;
+}
+
+export default function NetworkSelector({ className = "" }: NetworkSelectorProps) {
+  const { network, networks, selectNetwork } = useNetwork();
+
+  return (
+    <Select
+      value={network.key}
+      onValueChange={(value) => {
+        if (isNetworkKey(value)) selectNetwork(value);
+      }}
+    >
+      <SelectTrigger className={`h-9 w-[150px] bg-card border-border text-sm ${className}`}>
+        <SelectValue placeholder="Network" />
+      </SelectTrigger>
+      <SelectContent>
+        {networks.map((option) => (
+          <SelectItem key={option.key} value={option.key}>
+            <span className="flex items-center space-x-2">
+              <span className={`w-2 h-2 rounded-full ${
+                option.testnet ? 'bg-yellow-400' : 'bg-green-400'
+              }`} />
+              <span>{option.shortName}</span>
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,62 @@
+/**
+ * Next Token Preview Component
+ *
+ * Shows the traits the next token ID will have, computed from the token ID
+ * the same way the contract does, with how common each trait value is in the
+ * minted supply so far. Another mint landing first takes this ID.
+ */
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { traitValue } from "@/lib/rarity";
+import type { NFTAttribute, TraitDecimals, TraitFrequencies } from "@/types/contracts";
+
+interface NextTokenPreviewProps {
+  tokenName: string;
+  tokenId: string;
+  attributes: NFTAttribute[];
+  frequencies: TraitFrequencies;
+  supply: number;
+  traitDecimals?: TraitDecimals;
+}
+
+export default function NextTokenPreview({
+  tokenName,
+  tokenId,
+  attributes,
+  frequencies,
+  supply,
+  traitDecimals
+}: NextTokenPreviewProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <span>Next Mint Preview</span>
+          <Badge variant="secondary" className="font-mono">{tokenName} #{tokenId}</Badge>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          The traits of the next token, unless another mint lands first.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {attributes.map((attribute) => {
+          const value = traitValue(attribute, traitDecimals);
+          const sharing = frequencies[attribute.trait_type]?.[value] ?? 0;
+
+          return (
+            <div key={attribute.trait_type} className="flex justify-between items-center text-sm gap-4">
+              <span className="text-muted-foreground">{attribute.trait_type}</span>
+              <span className="text-right">
+                <span className="font-medium text-foreground">{value}</span>
+                <span className="ml-2 text-xs text-muted-foreground">
+                  {supply > 0 ? `${((sharing / supply) * 100).toFixed(1)}% of supply` : 'first of its kind'}
+                </span>
+              </span>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
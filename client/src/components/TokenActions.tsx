@@ -0,0 +1,322 @@
+/**
+ * Token Actions Component
+ *
+ * Transfer and burn buttons for a token the connected wallet owns. Transfers
+ * use safeTransferFrom to a validated 0x address, with a confirmation step
+ * that warns about contract recipients and dry-runs the transfer so a
+ * recipient without onERC721Received is caught before signing. Burning asks
+ * for confirmation first. Both go through the central transaction tracker,
+ * like minting, and report back once confirmed.
+ */
+
+import { useState } from "react";
+import { ethers } from "ethers";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { AlertTriangleIcon, FlameIcon, Loader2Icon } from "@/components/SVGIcons";
+import LoadingModal from "@/components/LoadingModal";
+import { useWallet } from "@/hooks/useWallet";
+import { useNetwork } from "@/hooks/useNetwork";
+import { useToast } from "@/hooks/use-toast";
+import { useTransactions } from "@/hooks/useTransactions";
+import { decodeError } from "@/lib/errors";
+import { hasFunction } from "@/lib/ownedTokens";
+import { getRecipientKind, validateRecipient, type RecipientKind } from "@/lib/tokenActions";
+
+interface TokenActionsProps {
+  // Signer-bound collection contract
+  contract: ethers.Contract;
+  tokenId: string;
+  name: string;
+  // Connected wallet, which owns the token
+  owner: string;
+  onConfirmed?: () => Promise<void> | void;
+}
+
+interface CheckedRecipient {
+  address: string;
+  kind: RecipientKind;
+  // Why the dry run failed, if it did
+  preflightError: string | null;
+}
+
+export default function TokenActions({
+  contract,
+  tokenId,
+  name,
+  owner,
+  onConfirmed
+}: TokenActionsProps) {
+  const { chainId } = useWallet();
+  const { network } = useNetwork();
+  const { toast } = useToast();
+  const { trackTransaction } = useTransactions();
+  const [transferOpen, setTransferOpen] = useState(false);
+  const [burnOpen, setBurnOpen] = useState(false);
+  const [recipient, setRecipient] = useState('');
+  const [recipientError, setRecipientError] = useState<string | null>(null);
+  const [checked, setChecked] = useState<CheckedRecipient | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [pending, setPending] = useState<'transfer' | 'burn' | null>(null);
+
+  const burnable = hasFunction(contract, 'burn');
+
+  /**
+   * Make sure the wallet is on the selected network before sending
+   */
+  const ensureNetwork = (): boolean => {
+    if (chainId === network.chainId) return true;
+
+    toast({
+      title: "Wrong Network",
+      description: `Please switch to ${network.name} (${network.chainId})`,
+      variant: "destructive",
+    });
+    return false;
+  };
+
+  /**
+   * Show a failed or cancelled action
+   */
+  const reportError = (title: string, error: unknown) => {
+    console.error(`${title}:`, error);
+    const decoded = decodeError(error);
+
+    toast({
+      title: decoded.type === 'user-rejected' ? "Transaction Cancelled" : title,
+      description: decoded.type === 'user-rejected' ? "You cancelled the transaction" : decoded.message,
+      variant: "destructive",
+    });
+  };
+
+  /**
+   * Open or close the transfer dialog, starting over each time
+   */
+  const handleTransferOpenChange = (open: boolean) => {
+    setTransferOpen(open);
+    if (!open) {
+      setRecipient('');
+      setRecipientError(null);
+      setChecked(null);
+    }
+  };
+
+  /**
+   * Validate the recipient, then classify it and dry-run the transfer
+   */
+  const handleCheckRecipient = async () => {
+    const error = validateRecipient(recipient, owner);
+    setRecipientError(error);
+    if (error) return;
+
+    try {
+      setChecking(true);
+      const address = ethers.utils.getAddress(recipient.trim());
+      const kind = await getRecipientKind(contract.provider, address);
+
+      let preflightError: string | null = null;
+      try {
+        await contract.estimateGas.safeTransferFrom(owner, address, tokenId);
+      } catch (err) {
+        preflightError = decodeError(err).message;
+      }
+
+      setChecked({ address, kind, preflightError });
+    } catch (err) {
+      console.error("Error checking recipient:", err);
+      setRecipientError('Could not check the recipient, please try again');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  /**
+   * Send the token with safeTransferFrom
+   */
+  const handleTransfer = async () => {
+    if (!checked || !ensureNetwork()) return;
+
+    const { address } = checked;
+    handleTransferOpenChange(false);
+
+    try {
+      setPending('transfer');
+      toast({
+        title: "Transaction Initiated",
+        description: "Please confirm the transaction in your wallet",
+      });
+
+      const tx = await contract.safeTransferFrom(owner, address, tokenId);
+      await trackTransaction(tx, { kind: 'transfer', purpose: `Transfer ${name}` });
+      await onConfirmed?.();
+    } catch (error) {
+      reportError("Transfer Failed", error);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  /**
+   * Destroy the token
+   */
+  const handleBurn = async () => {
+    if (!ensureNetwork()) return;
+
+    try {
+      setPending('burn');
+      toast({
+        title: "Transaction Initiated",
+        description: "Please confirm the transaction in your wallet",
+      });
+
+      const tx = await contract.burn(tokenId);
+      await trackTransaction(tx, { kind: 'burn', purpose: `Burn ${name}` });
+      await onConfirmed?.();
+    } catch (error) {
+      reportError("Burn Failed", error);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex space-x-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1"
+          onClick={() => handleTransferOpenChange(true)}
+          disabled={pending !== null}
+        >
+          Transfer
+        </Button>
+        {burnable && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1 text-red-400 hover:text-red-300"
+            onClick={() => setBurnOpen(true)}
+            disabled={pending !== null}
+          >
+            <FlameIcon className="w-4 h-4 mr-2" size={16} />
+            Burn
+          </Button>
+        )}
+      </div>
+
+      {/* Transfer: recipient, then confirmation */}
+      <Dialog open={transferOpen} onOpenChange={handleTransferOpenChange}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Transfer {name}</DialogTitle>
+            <DialogDescription>
+              {checked ? 'Check the details before confirming in your wallet.' : 'Send this token to another address.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {!checked ? (
+            <div className="space-y-2">
+              <Label htmlFor={`recipient-${tokenId}`}>Recipient address</Label>
+              <Input
+                id={`recipient-${tokenId}`}
+                placeholder="0x..."
+                value={recipient}
+                onChange={(event) => {
+                  setRecipient(event.target.value);
+                  setRecipientError(null);
+                }}
+                className="font-mono"
+                autoComplete="off"
+              />
+              {recipientError && <p className="text-sm text-red-400">{recipientError}</p>}
+            </div>
+          ) : (
+            <div className="space-y-4 text-sm">
+              <div className="space-y-1">
+                <span className="text-muted-foreground">Recipient</span>
+                <p className="font-mono break-all text-foreground">{checked.address}</p>
+              </div>
+
+              {checked.kind === 'contract' && (
+                <div className="flex items-start space-x-3 p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-lg">
+                  <AlertTriangleIcon className="w-5 h-5 text-yellow-400 shrink-0" size={20} />
+                  <p className="text-yellow-300">
+                    This address is a contract. The transfer only succeeds if it implements
+                    onERC721Received, and the token can then only leave it the ways the contract allows.
+                  </p>
+                </div>
+              )}
+
+              {checked.preflightError && (
+                <p className="text-red-400 break-words">Transfer would fail: {checked.preflightError}</p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            {!checked ? (
+              <Button onClick={handleCheckRecipient} disabled={checking || !recipient.trim()}>
+                {checking && <Loader2Icon className="w-4 h-4 mr-2 animate-spin" size={16} />}
+                Continue
+              </Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => setChecked(null)}>
+                  Back
+                </Button>
+                <Button onClick={handleTransfer} disabled={pending !== null || checked.preflightError !== null}>
+                  Confirm Transfer
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Burn confirmation */}
+      <AlertDialog open={burnOpen} onOpenChange={setBurnOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Burn {name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Burning permanently destroys this token. It cannot be recovered, and any mint cost paid for it is not refunded.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleBurn} className="bg-red-600 hover:bg-red-700">
+              Burn
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {pending && (
+        <LoadingModal
+          title="Processing Transaction"
+          message="Please confirm the transaction in your wallet and wait for blockchain confirmation..."
+        />
+      )}
+    </>
+  );
+}
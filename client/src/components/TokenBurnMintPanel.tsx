@@ -0,0 +1,619 @@
+/**
+ * Token Burn Mint Panel Component
+ *
+ * Multi-step mint flow for collections that burn ERC20 tokens per mint.
+ * The steps are built from the collection's cost requirements: a balance
+ * check, signed EIP-2612 permits for tokens that support them (submitted
+ * together), one approval per other token whose allowance is short, then the mint,
+ * which is simulated before the wallet is prompted. Each transaction step
+ * shows its estimated network fee with editable presets. Also shows the
+ * wallet's balance of every cost token.
+ */
+
+import { useState, useEffect } from "react";
+import { ethers } from "ethers";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Loader2, CheckCircle, AlertCircle } from "lucide-react";
+import { useWallet } from "@/hooks/useWallet";
+import { useNetwork } from "@/hooks/useNetwork";
+import { useToast } from "@/hooks/use-toast";
+import { useTransactions } from "@/hooks/useTransactions";
+import { useMintSimulation } from "@/hooks/useMintSimulation";
+import { useGasSettings } from "@/hooks/useGasSettings";
+import type { UseTokenRequirementsReturn } from "@/hooks/useTokenRequirements";
+import LoadingModal from "@/components/LoadingModal";
+import MintPreflight from "@/components/MintPreflight";
+import GasSettings from "@/components/GasSettings";
+import { ERC20_ABI } from "@/lib/contracts";
+import { decodeError } from "@/lib/errors";
+import { estimateGasLimit } from "@/lib/gas";
+import {
+  getPermitDeadline,
+  loadPermitSupport,
+  signPermit,
+  submitPermits
+} from "@/lib/permit";
+import { getReadProvider } from "@/lib/rpc";
+import { formatRequirementAmount } from "@/lib/requirements";
+import { formatTokenAmountWithCommas } from "@/lib/web3";
+import type {
+  CollectionConfig,
+  PermitSupport,
+  SignedPermit,
+  TokenRequirementStatus
+} from "@/types/contracts";
+
+interface MintStep {
+  id: number;
+  kind: 'check' | 'permit' | 'approve' | 'mint';
+  title: string;
+  description: string;
+  status: 'pending' | 'active' | 'complete' | 'error';
+  // Token to approve, for approve steps
+  approval?: TokenRequirementStatus;
+  // Tokens to permit, for the permit step
+  permits?: TokenRequirementStatus[];
+  actionLabel?: string;
+}
+
+interface TokenBurnMintPanelProps {
+  collection: CollectionConfig;
+  contract: ethers.Contract | null;
+  writeContract: ethers.Contract | null;
+  requirements: UseTokenRequirementsReturn;
+  onMinted: () => Promise<void>;
+}
+
+export default function TokenBurnMintPanel({
+  collection,
+  contract,
+  writeContract,
+  requirements,
+  onMinted
+}: TokenBurnMintPanelProps) {
+  const { isConnected, address, chainId, signer } = useWallet();
+  const { network } = useNetwork();
+  const { toast } = useToast();
+  const { trackTransaction } = useTransactions();
+  const { statuses, insufficientBalances, checkRequirements } = requirements;
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [mintSteps, setMintSteps] = useState<MintStep[]>([]);
+  const [approvalGasLimit, setApprovalGasLimit] = useState<ethers.BigNumber | null>(null);
+  const gas = useGasSettings();
+
+  const symbols = collection.mint.cost.map(token => token.symbol);
+
+  // First step still to do; the last step once everything is complete
+  const firstOpenStep = mintSteps.findIndex(step => step.status !== 'complete');
+  const currentStep = firstOpenStep === -1 ? mintSteps.length - 1 : firstOpenStep;
+
+  // Simulate once only the mint is left; before that it would revert on allowance
+  const atMintStep = mintSteps.length > 1 && firstOpenStep === mintSteps.length - 1;
+  const { simulation, simulating, simulate } = useMintSimulation(
+    contract,
+    collection.mint.method,
+    atMintStep
+  );
+  const activeStep: MintStep | undefined = mintSteps[currentStep];
+  const pendingApproval = activeStep?.approval;
+  const nextGasLimit = atMintStep
+    ? (simulation?.success ? simulation.gasLimit : null)
+    : approvalGasLimit;
+
+  /**
+   * Build the step list: balance check, permits, one approval per remaining cost token, mint
+   * permitSupport is indexed like tokenStatuses; tokens without support are approved.
+   */
+  const initializeMintSteps = (
+    tokenStatuses: TokenRequirementStatus[] = [],
+    permitSupport: PermitSupport[] = []
+  ) => {
+    const permitted = tokenStatuses.filter((status, index) => !status.hasAllowance && permitSupport[index]?.supported);
+    const permitSymbols = permitted.map(status => status.symbol).join(' and ');
+
+    const steps: Omit<MintStep, 'id'>[] = [
+      {
+        kind: 'check',
+        title: "Check Token Balances",
+        description: `Verify you have sufficient ${symbols.join(' and ')} tokens`,
+        status: 'pending'
+      },
+      ...(permitted.length > 0
+        ? [{
+            kind: 'permit' as const,
+            title: `Sign ${permitSymbols} Permit${permitted.length > 1 ? 's' : ''}`,
+            description: permitted.length > 1
+              ? `Sign gasless permits instead of ${permitted.length} approvals, then submit them in one transaction`
+              : `Sign a gasless permit instead of an approval, then submit it`,
+            status: 'pending' as const,
+            permits: permitted,
+            actionLabel: "Sign Permits"
+          }]
+        : []),
+      ...tokenStatuses.flatMap((status, index): Omit<MintStep, 'id'>[] => {
+        if (permitted.includes(status)) return [];
+
+        // Say why an approval transaction is still needed
+        const support = permitSupport[index];
+        const noPermit = !status.hasAllowance && support && !support.supported ? ` (no permit: ${support.reason})` : '';
+
+        return [{
+          kind: 'approve',
+          title: `Approve ${status.symbol} Token`,
+          description: `Allow the contract to spend your ${status.symbol} tokens${noPermit}`,
+          status: status.hasAllowance ? 'complete' : 'pending',
+          approval: status,
+          actionLabel: `Approve ${status.symbol}`
+        }];
+      }),
+      {
+        kind: 'mint',
+        title: "Mint NFT",
+        description: `Burn tokens and mint your ${collection.name}`,
+        status: 'pending',
+        actionLabel: "Mint NFT"
+      }
+    ];
+
+    const numbered = steps.map((step, index): MintStep => ({ ...step, id: index + 1 }));
+    setMintSteps(numbered);
+    return numbered;
+  };
+
+  /**
+   * Update step status
+   */
+  const updateStepStatus = (stepId: number, status: MintStep['status']) => {
+    setMintSteps(prev => prev.map(step => 
+      step.id === stepId ? { ...step, status } : step
+    ));
+  };
+
+  /**
+   * Detect permit support when an approval is missing; approvals are used if detection fails
+   */
+  const loadPermitSupportFor = async (tokenStatuses: TokenRequirementStatus[]): Promise<PermitSupport[]> => {
+    if (!address || tokenStatuses.every(status => status.hasAllowance)) return [];
+
+    try {
+      return await loadPermitSupport(getReadProvider(network), tokenStatuses.map(status => status.token), address);
+    } catch (error) {
+      console.warn("Error detecting permit support:", error);
+      return [];
+    }
+  };
+
+  /**
+   * Check token balances and allowances, then lay out the remaining steps
+   */
+  const checkRequirementsForMinting = async () => {
+    try {
+      setIsLoading(true);
+      updateStepStatus(1, 'active');
+
+      const tokenStatuses = await checkRequirements();
+      const permitSupport = await loadPermitSupportFor(tokenStatuses);
+
+      initializeMintSteps(tokenStatuses, permitSupport);
+      updateStepStatus(1, 'complete');
+
+    } catch (error) {
+      console.error("Error checking balances:", error);
+      updateStepStatus(1, 'error');
+      toast({
+        title: "Error",
+        description: "Failed to check token balances",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Sign a permit for each token and submit them, falling back to approvals if that fails
+   */
+  const signPermits = async (stepId: number, tokenStatuses: TokenRequirementStatus[]) => {
+    if (!signer || !address) return;
+
+    const permitSymbols = tokenStatuses.map(status => status.symbol).join(' and ');
+
+    try {
+      setIsLoading(true);
+      updateStepStatus(stepId, 'active');
+
+      toast({
+        title: "Signature Required",
+        description: `Please sign the ${permitSymbols} permit${tokenStatuses.length > 1 ? 's' : ''} in your wallet`,
+      });
+
+      // Re-read nonces, they may have moved since the balance check
+      const supports = await loadPermitSupport(getReadProvider(network), tokenStatuses.map(status => status.token), address);
+      const deadline = getPermitDeadline();
+      const permits: SignedPermit[] = [];
+
+      for (let index = 0; index < tokenStatuses.length; index++) {
+        const status = tokenStatuses[index];
+        const support = supports[index];
+        if (!support.supported) throw new Error(`${status.symbol}: ${support.reason}`);
+        permits.push(await signPermit(signer, support, status.spender, status.amount, deadline));
+      }
+
+      const transactions = await submitPermits(signer, permits, gas.getOverrides());
+      for (const tx of transactions) {
+        await trackTransaction(tx, { kind: 'approve', purpose: `Permit ${permitSymbols}` });
+      }
+
+      updateStepStatus(stepId, 'complete');
+
+    } catch (error) {
+      console.error("Permit error:", error);
+      const decoded = decodeError(error);
+
+      if (decoded.type === 'user-rejected') {
+        updateStepStatus(stepId, 'error');
+        toast({
+          title: "Signature Cancelled",
+          description: "You cancelled the permit signature",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Approvals always work, so replace the permit step with them
+      initializeMintSteps(statuses);
+      updateStepStatus(1, 'complete');
+      toast({
+        title: "Permit Failed",
+        description: `${decoded.message}. Please approve ${permitSymbols} with approval transactions instead.`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Approve the collection to spend one cost token
+   */
+  const approveToken = async (stepId: number, status: TokenRequirementStatus) => {
+    if (!signer) return;
+
+    try {
+      setIsLoading(true);
+      updateStepStatus(stepId, 'active');
+
+      toast({
+        title: "Approval Required",
+        description: `Please approve ${status.symbol} token spending in your wallet`,
+      });
+
+      const token = new ethers.Contract(status.token, ERC20_ABI, signer);
+      const tx = await token.approve(status.spender, status.amount, gas.getOverrides(approvalGasLimit));
+      await trackTransaction(tx, { kind: 'approve', purpose: `Approve ${status.symbol}` });
+
+      updateStepStatus(stepId, 'complete');
+
+    } catch (error) {
+      console.error(`${status.symbol} approval error:`, error);
+      updateStepStatus(stepId, 'error');
+      const decoded = decodeError(error);
+
+      toast({
+        title: decoded.type === 'user-rejected' ? "Transaction Cancelled" : "Approval Failed",
+        description: decoded.type === 'user-rejected' ? "You cancelled the approval" : decoded.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Execute the final mint transaction
+   */
+  const executeMint = async (stepId: number) => {
+    if (!writeContract) return;
+
+    try {
+      setIsLoading(true);
+      updateStepStatus(stepId, 'active');
+
+      // Dry-run first so a revert is explained before the wallet prompt
+      const preflight = await simulate();
+      if (preflight && !preflight.success) {
+        updateStepStatus(stepId, 'error');
+        toast({
+          title: "Mint Would Fail",
+          description: preflight.error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Minting NFT",
+        description: "Please confirm the mint transaction in your wallet",
+      });
+
+      const tx = await writeContract[collection.mint.method](
+        gas.getOverrides(preflight?.success ? preflight.gasLimit : null)
+      );
+      await trackTransaction(tx, { kind: 'mint', purpose: `Mint ${collection.name}` });
+
+      updateStepStatus(stepId, 'complete');
+
+      // Refresh data
+      await onMinted();
+      await checkRequirements();
+
+    } catch (error) {
+      console.error("Mint error:", error);
+      updateStepStatus(stepId, 'error');
+      const decoded = decodeError(error);
+
+      switch (decoded.type) {
+        case 'user-rejected':
+          toast({
+            title: "Transaction Cancelled",
+            description: "You cancelled the mint transaction",
+            variant: "destructive",
+          });
+          break;
+        case 'insufficient-funds':
+          toast({
+            title: "Insufficient Funds",
+            description: `Not enough ${network.nativeCurrency.symbol} to pay for gas`,
+            variant: "destructive",
+          });
+          break;
+        default:
+          toast({
+            title: "Minting Failed",
+            description: decoded.message,
+            variant: "destructive",
+          });
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Run a step's transaction with the current gas settings
+   */
+  const runStep = async (step: MintStep) => {
+    if (step.kind === 'permit' && step.permits) {
+      await signPermits(step.id, step.permits);
+    } else if (step.kind === 'approve' && step.approval) {
+      await approveToken(step.id, step.approval);
+    } else if (step.kind === 'mint') {
+      await executeMint(step.id);
+    }
+  };
+
+  /**
+   * Start the minting process
+   */
+  const startMintProcess = async () => {
+    if (!isConnected) {
+      toast({
+        title: "Wallet Required",
+        description: "Please connect your wallet to start minting",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (chainId !== network.chainId) {
+      toast({
+        title: "Wrong Network",
+        description: `Please switch to ${network.name} (${network.chainId})`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    initializeMintSteps();
+    await checkRequirementsForMinting();
+  };
+
+  // Initialize steps on mount
+  useEffect(() => {
+    initializeMintSteps();
+  }, []);
+
+  // Estimate the gas of the approval waiting to be sent
+  useEffect(() => {
+    setApprovalGasLimit(null);
+    if (!pendingApproval || !address) return;
+
+    let cancelled = false;
+    const token = new ethers.Contract(pendingApproval.token, ERC20_ABI, getReadProvider(network));
+    estimateGasLimit(token, 'approve', [pendingApproval.spender, pendingApproval.amount], address)
+      .then(gasLimit => {
+        if (!cancelled) setApprovalGasLimit(gasLimit);
+      })
+      .catch(error => console.warn("Error estimating approval gas:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pendingApproval, address, network]);
+
+  const canStartMinting = isConnected && chainId === network.chainId && !isLoading;
+  const hasStartedMinting = mintSteps.some(step => step.status !== 'pending');
+
+  return (
+    <>
+      {/* Token Balances */}
+      <div className="grid md:grid-cols-2 gap-6">
+        {collection.mint.cost.map((token, index) => {
+          const status: TokenRequirementStatus | undefined = statuses[index];
+
+          return (
+            <Card key={token.symbol}>
+              <CardContent className="p-6 space-y-4">
+                <div className="flex items-center space-x-3">
+                  <div className={`w-10 h-10 bg-gradient-to-br ${token.gradient} rounded-lg flex items-center justify-center`}>
+                    <span className="text-white font-bold">{token.symbol[0]}</span>
+                  </div>
+                  <div>
+                    <h3 className="text-lg font-semibold text-foreground">{token.symbol} Token</h3>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <span className="text-muted-foreground">Your Balance:</span>
+                    <span className={`font-semibold ${
+                      status?.hasBalance ? 'text-green-400' : 'text-red-400'
+                    }`}>
+                      {status ? formatTokenAmountWithCommas(formatRequirementAmount(status, status.balance), 2) : '—'}
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-muted-foreground">Fee Required:</span>
+                    <span className="font-semibold text-foreground">
+                      {status ? formatTokenAmountWithCommas(formatRequirementAmount(status), 2) : '—'}
+                    </span>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {/* Mint Section */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Mint {collection.name}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          
+          {/* Minting Steps */}
+          {hasStartedMinting && (
+            <div className="space-y-4">
+              {mintSteps.map((step, index) => (
+                <div 
+                  key={step.id}
+                  className={`flex items-center space-x-4 p-4 border rounded-lg transition-all ${
+                    step.status === 'active' ? 'border-primary bg-primary/5' :
+                    step.status === 'complete' ? 'border-green-500 bg-green-500/5' :
+                    step.status === 'error' ? 'border-red-500 bg-red-500/5' :
+                    'border-border bg-card'
+                  }`}
+                >
+                  <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
+                    step.status === 'complete' ? 'bg-green-500' :
+                    step.status === 'active' ? 'bg-primary' :
+                    step.status === 'error' ? 'bg-red-500' :
+                    'bg-muted'
+                  }`}>
+                    {step.status === 'complete' ? (
+                      <CheckCircle className="w-4 h-4 text-white" />
+                    ) : step.status === 'active' ? (
+                      <Loader2 className="w-4 h-4 text-white animate-spin" />
+                    ) : step.status === 'error' ? (
+                      <AlertCircle className="w-4 h-4 text-white" />
+                    ) : (
+                      <span className="text-sm font-semibold text-muted-foreground">{step.id}</span>
+                    )}
+                  </div>
+                  <div className="flex-1">
+                    <h4 className="font-medium text-foreground">{step.title}</h4>
+                    <p className="text-sm text-muted-foreground">{step.description}</p>
+                  </div>
+                  <div className="step-status">
+                    {(step.status === 'pending' || step.status === 'error') && currentStep === index && step.kind !== 'check' && (
+                      <Button 
+                        onClick={() => runStep(step)}
+                        disabled={isLoading}
+                        className="px-4 py-2 text-sm font-medium"
+                      >
+                        {step.status === 'error' ? 'Retry' : step.actionLabel}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Pre-flight Simulation */}
+          {hasStartedMinting && (
+            <MintPreflight simulation={simulation} simulating={simulating} />
+          )}
+
+          {/* Gas Settings */}
+          {hasStartedMinting && activeStep && activeStep.kind !== 'check' && (
+            <GasSettings gas={gas} gasLimit={nextGasLimit} />
+          )}
+
+          {/* Start/Continue Button */}
+          {!hasStartedMinting ? (
+            <Button 
+              onClick={startMintProcess}
+              disabled={!canStartMinting}
+              className="w-full glow-button text-white py-6 text-lg font-semibold"
+            >
+              {!isConnected ? 'Connect Wallet to Start' :
+               chainId !== network.chainId ? `Switch to ${network.name}` :
+               isLoading ? 'Loading...' :
+               'Start Minting Process'}
+            </Button>
+          ) : (
+            <div className="text-center py-4">
+              <Progress 
+                value={(mintSteps.filter(s => s.status === 'complete').length / mintSteps.length) * 100} 
+                className="w-full mb-4" 
+              />
+              <p className="text-sm text-muted-foreground">
+                Step {currentStep + 1} of {mintSteps.length}
+              </p>
+            </div>
+          )}
+
+          {/* Network Warning */}
+          {isConnected && chainId !== network.chainId && (
+            <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+              <div className="flex items-center space-x-3">
+                <AlertCircle className="w-5 h-5 text-red-400" />
+                <div>
+                  <p className="font-medium text-red-400">Wrong Network</p>
+                  <p className="text-sm text-red-300">Please switch to {network.name} ({network.chainId}) to continue.</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Insufficient Balance Warning */}
+          {isConnected && statuses.length > 0 && insufficientBalances.length > 0 && (
+            <div className="p-4 bg-yellow-500/10 border border-yellow-500/20 rounded-lg">
+              <div className="flex items-center space-x-3">
+                <AlertCircle className="w-5 h-5 text-yellow-400" />
+                <div>
+                  <p className="font-medium text-yellow-400">Insufficient Token Balance</p>
+                  <p className="text-sm text-yellow-300">
+                    You need {statuses.map(status => `${formatRequirementAmount(status)} ${status.symbol}`).join(' and ')} tokens to mint.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Loading Modal */}
+      {isLoading && (
+        <LoadingModal 
+          title="Processing Transaction"
+          message="Please confirm the transaction in your wallet and wait for blockchain confirmation..."
+        />
+      )}
+    </>
+  );
+}
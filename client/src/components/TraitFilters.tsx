@@ -0,0 +1,75 @@
+/**
+ * Trait Filters Component
+ *
+ * One dropdown per trait type, listing every value found in the collection
+ * with how many tokens carry it (most common first). Selecting values narrows
+ * the NFT grid to tokens that have all of them.
+ */
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import type { TraitFilters as TraitFilterSelection } from "@/lib/rarity";
+import type { TraitFrequencies } from "@/types/contracts";
+
+// Radix Select values cannot be empty
+const ANY_VALUE = "__any";
+
+interface TraitFiltersProps {
+  frequencies: TraitFrequencies;
+  filters: TraitFilterSelection;
+  onChange: (filters: TraitFilterSelection) => void;
+}
+
+export default function TraitFilters({ frequencies, filters, onChange }: TraitFiltersProps) {
+  const traitTypes = Object.keys(frequencies);
+  if (traitTypes.length === 0) return null;
+
+  /**
+   * Select a value for one trait, or clear it
+   */
+  const selectValue = (traitType: string, value: string) => {
+    const { [traitType]: _, ...rest } = filters;
+    onChange(value === ANY_VALUE ? rest : { ...rest, [traitType]: value });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {traitTypes.map((traitType) => {
+        const values = Object.entries(frequencies[traitType])
+          .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b, undefined, { numeric: true }));
+
+        return (
+          <Select
+            key={traitType}
+            value={filters[traitType] ?? ANY_VALUE}
+            onValueChange={(value) => selectValue(traitType, value)}
+          >
+            <SelectTrigger className="h-9 w-[190px] bg-card border-border text-sm">
+              <SelectValue placeholder={traitType} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_VALUE}>Any {traitType}</SelectItem>
+              {values.map(([value, count]) => (
+                <SelectItem key={value} value={value}>
+                  {value} <span className="text-muted-foreground">({count})</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      })}
+
+      {Object.keys(filters).length > 0 && (
+        <Button variant="ghost" size="sm" onClick={() => onChange({})}>
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+}
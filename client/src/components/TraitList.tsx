@@ -0,0 +1,69 @@
+/**
+ * Trait List Component
+ *
+ * Renders NFT attributes by their OpenSea display type: text values,
+ * rankings and stats with a progress bar against their maximum, boosts with
+ * a ring, and dates, with units and decimals applied (see lib/traits.ts).
+ */
+
+import { Progress } from "@/components/ui/progress";
+import { describeTrait, type TraitView } from "@/lib/traits";
+import type { NFTAttribute, TraitDecimals } from "@/types/contracts";
+
+interface TraitListProps {
+  attributes: NFTAttribute[];
+  // How the collection's decimals fields are read
+  decimals?: TraitDecimals;
+  className?: string;
+}
+
+const RING_RADIUS = 14;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+/**
+ * Circular gauge for boost traits
+ */
+function BoostRing({ trait }: { trait: TraitView }) {
+  return (
+    <svg width="36" height="36" viewBox="0 0 36 36" className="shrink-0 -rotate-90">
+      <circle cx="18" cy="18" r={RING_RADIUS} fill="none" strokeWidth="4" className="stroke-muted" />
+      <circle
+        cx="18"
+        cy="18"
+        r={RING_RADIUS}
+        fill="none"
+        strokeWidth="4"
+        strokeLinecap="round"
+        className="stroke-primary"
+        strokeDasharray={RING_CIRCUMFERENCE}
+        strokeDashoffset={RING_CIRCUMFERENCE * (1 - (trait.progress ?? 0) / 100)}
+      />
+    </svg>
+  );
+}
+
+export default function TraitList({ attributes, decimals, className = "" }: TraitListProps) {
+  return (
+    <div className={`space-y-3 ${className}`}>
+      {attributes.map((attribute, index) => {
+        const trait = describeTrait(attribute, decimals);
+        const boost = trait.display === 'boost_number' || trait.display === 'boost_percentage';
+
+        return (
+          <div key={`${trait.label}:${index}`} className="space-y-1 text-sm">
+            <div className="flex justify-between items-center gap-4">
+              <span className="text-muted-foreground">{trait.label}</span>
+              <span className="flex items-center gap-2 font-medium text-foreground text-right">
+                {boost && trait.progress !== null && <BoostRing trait={trait} />}
+                {trait.text}
+              </span>
+            </div>
+            {!boost && trait.progress !== null && (
+              <Progress value={trait.progress} className="h-1.5" aria-label={`${trait.label}: ${trait.text}`} />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
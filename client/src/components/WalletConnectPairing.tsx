@@ -0,0 +1,90 @@
+/**
+ * WalletConnect Pairing Component
+ *
+ * Displays the WalletConnect v2 pairing URI as a QR code for mobile wallets,
+ * with copy and deep-link fallbacks for wallets on the same device.
+ */
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { CopyIcon, ExternalLinkIcon } from "@/components/SVGIcons";
+import { useToast } from "@/hooks/use-toast";
+import { toQrDataUrl } from "@/lib/walletConnect";
+
+interface WalletConnectPairingProps {
+  uri: string;
+  onCancel: () => void;
+}
+
+export default function WalletConnectPairing({ uri, onCancel }: WalletConnectPairingProps) {
+  const { toast } = useToast();
+  const [qrCode, setQrCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    toQrDataUrl(uri)
+      .then(dataUrl => {
+        if (!cancelled) setQrCode(dataUrl);
+      })
+      .catch(error => console.error('Error rendering pairing QR code:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uri]);
+
+  /**
+   * Copy pairing URI to clipboard
+   */
+  const copyUri = async () => {
+    try {
+      await navigator.clipboard.writeText(uri);
+      toast({
+        title: "Link Copied",
+        description: "Paste the WalletConnect link into your wallet",
+      });
+    } catch (error) {
+      toast({
+        title: "Copy Failed",
+        description: "Failed to copy link to clipboard",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-center">
+        <div className="w-64 h-64 bg-white rounded-xl p-2 flex items-center justify-center">
+          {qrCode ? (
+            <img src={qrCode} alt="WalletConnect pairing QR code" className="w-full h-full" />
+          ) : (
+            <span className="text-sm text-slate-500">Generating QR code...</span>
+          )}
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground text-center">
+        Scan with a WalletConnect-compatible wallet and approve the connection.
+      </p>
+
+      <div className="flex space-x-2">
+        <Button variant="outline" size="sm" onClick={copyUri} className="flex-1">
+          <CopyIcon className="w-4 h-4 mr-2" size={16} />
+          Copy Link
+        </Button>
+        <Button variant="outline" size="sm" asChild className="flex-1">
+          <a href={uri}>
+            <ExternalLinkIcon className="w-4 h-4 mr-2" size={16} />
+            Open Wallet
+          </a>
+        </Button>
+      </div>
+
+      <Button variant="ghost" size="sm" onClick={onCancel} className="w-full">
+        Cancel
+      </Button>
+    </div>
+  );
+}
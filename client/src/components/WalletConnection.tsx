@@ -3,15 +3,20 @@
  * 
  * Provides comprehensive wallet connection interface for Jeff's Hacker Haven.
  * Features include:
- * - MetaMask connection with automatic Hemi mainnet switching
+ * - Injected wallet picker (EIP-6963 discovery, last-used wallet first) and
+ *   WalletConnect v2 (QR pairing) with automatic switching to the selected network
+ * - Network selection from the network registry
  * - Connection status display with network validation
  * - Wallet address formatting and clipboard copy functionality
- * - Direct links to Hemi blockchain explorer
+ * - Direct links to the selected network's block explorer
  * - Dropdown menu with account management options
+ * - Recent activity drawer with the address's playground transactions
+ * - Link to the allowance manager for reviewing and revoking approvals
  * - Error handling and user-friendly notifications
  */
 
 import { useState } from "react";
+import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -29,19 +34,30 @@ import {
   DialogDescription 
 } from "@/components/ui/dialog";
 import { WalletIcon, ExternalLinkIcon, CopyIcon, CheckCircleIcon } from "@/components/SVGIcons";
-import { ChevronDownIcon, AlertTriangleIcon } from "@/components/SVGIcons";
+import { ChevronDownIcon, AlertTriangleIcon, ShieldIcon } from "@/components/SVGIcons";
 import { useWallet } from "@/hooks/useWallet";
+import { useNetwork } from "@/hooks/useNetwork";
 import { useToast } from "@/hooks/use-toast";
+import { getAddressUrl } from "@/lib/web3";
+import NetworkSelector from "@/components/NetworkSelector";
+import WalletConnectPairing from "@/components/WalletConnectPairing";
+import ActivityDrawer from "@/components/ActivityDrawer";
+import { toInjectedWalletType } from "@/lib/eip6963";
+import type { WalletType } from "@/types/contracts";
 
 export default function WalletConnection() {
   const { 
     isConnected, 
     address, 
     chainId, 
+    walletConnectUri,
+    injectedProviders,
+    lastInjectedRdns,
     connect, 
     disconnect, 
-    switchToHemi 
+    switchNetwork 
   } = useWallet();
+  const { network } = useNetwork();
   const { toast } = useToast();
   const [showConnectModal, setShowConnectModal] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
@@ -49,7 +65,7 @@ export default function WalletConnection() {
   /**
    * Handle wallet connection
    */
-  const handleConnect = async (walletType: 'metamask' | 'walletconnect') => {
+  const handleConnect = async (walletType: WalletType) => {
     try {
       setIsConnecting(true);
       await connect(walletType);
@@ -71,6 +87,16 @@ export default function WalletConnection() {
     }
   };
 
+  /**
+   * Close the connect dialog, abandoning any pending WalletConnect pairing
+   */
+  const handleConnectModalChange = async (open: boolean) => {
+    setShowConnectModal(open);
+    if (!open && isConnecting) {
+      await disconnect();
+    }
+  };
+
   /**
    * Handle wallet disconnection
    */
@@ -113,20 +139,20 @@ export default function WalletConnection() {
   };
 
   /**
-   * Switch to Hemi network
+   * Switch wallet to the selected network
    */
   const handleSwitchNetwork = async () => {
     try {
-      await switchToHemi();
+      await switchNetwork();
       toast({
         title: "Network Switched",
-        description: "Successfully switched to Hemi Network",
+        description: `Successfully switched to ${network.name}`,
       });
     } catch (error: any) {
       console.error("Network switch error:", error);
       toast({
         title: "Network Switch Failed",
-        description: error.message || "Failed to switch to Hemi Network",
+        description: error.message || `Failed to switch to ${network.name}`,
         variant: "destructive",
       });
     }
@@ -136,11 +162,18 @@ export default function WalletConnection() {
     return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
   };
 
-  const isCorrectNetwork = chainId === 43111;
+  const isCorrectNetwork = chainId === network.chainId;
+
+  // Discovered wallets, with the last one used listed first
+  const sortedInjectedProviders = [...injectedProviders].sort((a, b) =>
+    Number(b.info.rdns === lastInjectedRdns) - Number(a.info.rdns === lastInjectedRdns)
+  );
 
   if (!isConnected) {
     return (
-      <>
+      <div className="flex items-center space-x-3">
+        <NetworkSelector className="hidden sm:flex" />
+
         <Button 
           onClick={() => setShowConnectModal(true)}
           className="glow-button text-white px-6 py-2.5 rounded-xl font-medium flex items-center space-x-2"
@@ -150,59 +183,95 @@ export default function WalletConnection() {
         </Button>
 
         {/* Connection Modal */}
-        <Dialog open={showConnectModal} onOpenChange={setShowConnectModal}>
+        <Dialog open={showConnectModal} onOpenChange={handleConnectModalChange}>
           <DialogContent className="sm:max-w-md">
             <DialogHeader>
-              <DialogTitle>Connect Wallet</DialogTitle>
+              <DialogTitle>{walletConnectUri ? 'Scan with your Wallet' : 'Connect Wallet'}</DialogTitle>
               <DialogDescription>
-                Choose a wallet to connect to Jeff's Hacker Haven
+                {walletConnectUri
+                  ? 'Pair a mobile wallet with Jeff\'s Hacker Haven using WalletConnect'
+                  : 'Choose a wallet to connect to Jeff\'s Hacker Haven'}
               </DialogDescription>
             </DialogHeader>
             
-            <div className="space-y-4">
-              {/* MetaMask */}
-              <Button
-                onClick={() => handleConnect('metamask')}
-                disabled={isConnecting}
-                className="w-full flex items-center space-x-4 p-4 bg-card hover:bg-card/80 text-foreground border border-border rounded-xl transition-all"
-                variant="outline"
-              >
-                <div className="w-10 h-10 bg-orange-500 rounded-xl flex items-center justify-center">
-                  <span className="text-white font-bold text-sm">🦊</span>
-                </div>
-                <div className="flex-1 text-left">
-                  <div className="font-semibold">MetaMask</div>
-                  <div className="text-sm text-muted-foreground">Connect using browser extension</div>
-                </div>
-                <ChevronDownIcon className="w-4 h-4 text-muted-foreground" size={16} />
-              </Button>
+            {walletConnectUri ? (
+              <WalletConnectPairing
+                uri={walletConnectUri}
+                onCancel={() => handleConnectModalChange(false)}
+              />
+            ) : (
+              <div className="space-y-4">
+                {/* Discovered browser wallets (EIP-6963) */}
+                {sortedInjectedProviders.map(({ info }) => (
+                  <Button
+                    key={info.uuid}
+                    onClick={() => handleConnect(toInjectedWalletType(info.rdns))}
+                    disabled={isConnecting}
+                    className="w-full flex items-center space-x-4 p-4 bg-card hover:bg-card/80 text-foreground border border-border rounded-xl transition-all"
+                    variant="outline"
+                  >
+                    <div className="w-10 h-10 bg-muted rounded-xl flex items-center justify-center overflow-hidden">
+                      <img src={info.icon} alt={info.name} className="w-7 h-7" />
+                    </div>
+                    <div className="flex-1 text-left">
+                      <div className="font-semibold flex items-center space-x-2">
+                        <span>{info.name}</span>
+                        {info.rdns === lastInjectedRdns && (
+                          <Badge variant="secondary" className="text-xs">Last used</Badge>
+                        )}
+                      </div>
+                      <div className="text-sm text-muted-foreground">Connect using browser extension</div>
+                    </div>
+                    <ChevronDownIcon className="w-4 h-4 text-muted-foreground" size={16} />
+                  </Button>
+                ))}
 
-              {/* WalletConnect */}
-              <Button
-                onClick={() => handleConnect('walletconnect')}
-                disabled={isConnecting}
-                className="w-full flex items-center space-x-4 p-4 bg-card hover:bg-card/80 text-foreground border border-border rounded-xl transition-all"
-                variant="outline"
-              >
-                <div className="w-10 h-10 bg-blue-500 rounded-xl flex items-center justify-center">
-                  <span className="text-white text-lg">📱</span>
-                </div>
-                <div className="flex-1 text-left">
-                  <div className="font-semibold">WalletConnect</div>
-                  <div className="text-sm text-muted-foreground">Scan with mobile wallet</div>
-                </div>
-                <ChevronDownIcon className="w-4 h-4 text-muted-foreground" size={16} />
-              </Button>
-            </div>
+                {/* MetaMask (legacy injection, when no wallet announced itself) */}
+                {sortedInjectedProviders.length === 0 && (
+                  <Button
+                    onClick={() => handleConnect('metamask')}
+                    disabled={isConnecting}
+                    className="w-full flex items-center space-x-4 p-4 bg-card hover:bg-card/80 text-foreground border border-border rounded-xl transition-all"
+                    variant="outline"
+                  >
+                    <div className="w-10 h-10 bg-orange-500 rounded-xl flex items-center justify-center">
+                      <span className="text-white font-bold text-sm">🦊</span>
+                    </div>
+                    <div className="flex-1 text-left">
+                      <div className="font-semibold">MetaMask</div>
+                      <div className="text-sm text-muted-foreground">Connect using browser extension</div>
+                    </div>
+                    <ChevronDownIcon className="w-4 h-4 text-muted-foreground" size={16} />
+                  </Button>
+                )}
+
+                {/* WalletConnect */}
+                <Button
+                  onClick={() => handleConnect('walletconnect')}
+                  disabled={isConnecting}
+                  className="w-full flex items-center space-x-4 p-4 bg-card hover:bg-card/80 text-foreground border border-border rounded-xl transition-all"
+                  variant="outline"
+                >
+                  <div className="w-10 h-10 bg-blue-500 rounded-xl flex items-center justify-center">
+                    <span className="text-white text-lg">📱</span>
+                  </div>
+                  <div className="flex-1 text-left">
+                    <div className="font-semibold">WalletConnect</div>
+                    <div className="text-sm text-muted-foreground">Scan with mobile wallet</div>
+                  </div>
+                  <ChevronDownIcon className="w-4 h-4 text-muted-foreground" size={16} />
+                </Button>
+              </div>
+            )}
 
             {/* Network Notice */}
             <div className="p-4 bg-yellow-500/10 border border-yellow-500/20 rounded-xl mt-4">
               <div className="flex items-start space-x-3">
                 <AlertTriangleIcon className="w-5 h-5 text-yellow-400 mt-0.5" size={20} />
                 <div className="text-sm">
-                  <div className="font-medium text-yellow-400">Hemi Network Only</div>
+                  <div className="font-medium text-yellow-400">{network.name} Only</div>
                   <div className="text-yellow-300 mt-1">
-                    This application works exclusively with Hemi chain (43111). 
+                    This application is currently targeting {network.name} ({network.chainId}). 
                     Make sure to switch networks after connecting.
                   </div>
                 </div>
@@ -210,12 +279,14 @@ export default function WalletConnection() {
             </div>
           </DialogContent>
         </Dialog>
-      </>
+      </div>
     );
   }
 
   return (
     <div className="flex items-center space-x-3">
+      <NetworkSelector className="hidden sm:flex" />
+
       {/* Network Status */}
       {!isCorrectNetwork && (
         <Button
@@ -229,6 +300,9 @@ export default function WalletConnection() {
         </Button>
       )}
 
+      {/* Recent Activity */}
+      <ActivityDrawer />
+
       {/* Connected Wallet */}
       <DropdownMenu>
         <DropdownMenuTrigger asChild>
@@ -260,7 +334,7 @@ export default function WalletConnection() {
             <div className="text-sm text-muted-foreground">Network</div>
             <div className="flex items-center space-x-2">
               <Badge variant={isCorrectNetwork ? "default" : "destructive"}>
-                {isCorrectNetwork ? "Hemi Network" : `Chain ${chainId}`}
+                {isCorrectNetwork ? network.name : `Chain ${chainId}`}
               </Badge>
               {!isCorrectNetwork && (
                 <Button
@@ -283,9 +357,16 @@ export default function WalletConnection() {
             Copy Address
           </DropdownMenuItem>
           
+          <DropdownMenuItem asChild>
+            <Link href="/approvals" className="cursor-pointer">
+              <ShieldIcon className="w-4 h-4 mr-2" size={16} />
+              Manage Approvals
+            </Link>
+          </DropdownMenuItem>
+
           <DropdownMenuItem asChild>
             <a
-              href={`https://explorer.hemi.xyz/address/${address}`}
+              href={getAddressUrl(address!, network)}
               target="_blank"
               rel="noopener noreferrer"
               className="cursor-pointer"
@@ -0,0 +1,103 @@
+/**
+ * Activity Hook
+ *
+ * Playground activity for the connected address on the selected network:
+ * transactions tracked by the transaction manager merged with Minted events
+ * from every registered collection, plus the current block for confirmation
+ * counts. Chain events are loaded on demand via refresh().
+ */
+
+import { useState, useMemo, useCallback, useEffect, useRef } from "react";
+import { ethers } from "ethers";
+import { useWallet } from "./useWallet";
+import { useNetwork } from "./useNetwork";
+import { useTransactions } from "./useTransactions";
+import { COLLECTIONS } from "@/lib/collections";
+import { getReadProvider } from "@/lib/rpc";
+import { loadMintedEvents, mergeActivity } from "@/lib/activity";
+import type { ActivityItem, MintedEventActivity } from "@/types/contracts";
+
+interface UseActivityReturn {
+  items: ActivityItem[];
+  pendingCount: number;
+  currentBlock: number | null;
+  loading: boolean;
+  refresh: () => Promise<void>;
+}
+
+export function useActivity(): UseActivityReturn {
+  const { address } = useWallet();
+  const { network, contracts } = useNetwork();
+  const { transactions } = useTransactions();
+  const [mintedEvents, setMintedEvents] = useState<MintedEventActivity[]>([]);
+  const [currentBlock, setCurrentBlock] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  // Bumped per refresh and per account, so a slow load for an old address is dropped
+  const requestRef = useRef(0);
+
+  // Mints belong to the account they were loaded for
+  useEffect(() => {
+    requestRef.current++;
+    setMintedEvents([]);
+  }, [address]);
+
+  /**
+   * Reload Minted events for every deployed collection and the latest block
+   */
+  const refresh = useCallback(async () => {
+    if (!address) return;
+    const request = ++requestRef.current;
+
+    try {
+      setLoading(true);
+      const provider = getReadProvider(network);
+
+      const [blockNumber, ...results] = await Promise.allSettled([
+        provider.getBlockNumber(),
+        ...COLLECTIONS
+          .filter(collection => contracts[collection.contract])
+          .map(collection => loadMintedEvents(
+            new ethers.Contract(contracts[collection.contract], collection.abi, provider),
+            collection,
+            address
+          ))
+      ]);
+      if (request !== requestRef.current) return;
+
+      if (blockNumber.status === 'fulfilled') {
+        setCurrentBlock(blockNumber.value as number);
+      }
+
+      // A collection whose logs cannot be read still leaves the others listed
+      const events: MintedEventActivity[] = [];
+      for (const result of results) {
+        if (result.status === 'fulfilled') {
+          events.push(...(result.value as MintedEventActivity[]));
+        } else {
+          console.error("Error loading mint events:", result.reason);
+        }
+      }
+      setMintedEvents(events);
+    } finally {
+      setLoading(false);
+    }
+  }, [address, network, contracts]);
+
+  const items = useMemo(() => {
+    if (!address) return [];
+
+    const own = transactions.filter(transaction =>
+      transaction.chainId === network.chainId &&
+      transaction.from.toLowerCase() === address.toLowerCase()
+    );
+    return mergeActivity(own, mintedEvents.filter(event => event.chainId === network.chainId));
+  }, [address, network, transactions, mintedEvents]);
+
+  return {
+    items,
+    pendingCount: items.filter(item => item.status === 'pending').length,
+    currentBlock,
+    loading,
+    refresh
+  };
+}
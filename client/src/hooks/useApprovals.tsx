@@ -0,0 +1,83 @@
+/**
+ * Approvals Hook
+ *
+ * Loads the connected address's outstanding ERC20 allowances on the selected
+ * network, with scan progress for the Approval event search, and keeps the
+ * list in step with revocations.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { useWallet } from "./useWallet";
+import { useNetwork } from "./useNetwork";
+import { getReadProvider } from "@/lib/rpc";
+import { loadApprovals } from "@/lib/approvals";
+import type { TokenApproval } from "@/types/contracts";
+
+interface UseApprovalsReturn {
+  approvals: TokenApproval[];
+  loading: boolean;
+  // Percentage of the block range scanned, null when idle
+  progress: number | null;
+  error: string | null;
+  scan: () => Promise<void>;
+  removeApproval: (approval: TokenApproval) => void;
+}
+
+export function useApprovals(): UseApprovalsReturn {
+  const { address } = useWallet();
+  const { network } = useNetwork();
+  const [approvals, setApprovals] = useState<TokenApproval[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Scan the chain for the address's approvals and read current allowances
+   */
+  const scan = useCallback(async () => {
+    if (!address) {
+      setApprovals([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setProgress(0);
+
+      const found = await loadApprovals(getReadProvider(network), address, {
+        onProgress: (scannedTo, toBlock) => setProgress(toBlock > 0 ? Math.round((scannedTo / toBlock) * 100) : 100)
+      });
+      setApprovals(found);
+    } catch (err: any) {
+      console.error("Error loading approvals:", err);
+      setError(err.message || 'Failed to load approvals');
+    } finally {
+      setLoading(false);
+      setProgress(null);
+    }
+  }, [address, network]);
+
+  // Rescan whenever the wallet or network changes
+  useEffect(() => {
+    scan();
+  }, [scan]);
+
+  /**
+   * Drop an approval from the list once it has been revoked
+   */
+  const removeApproval = useCallback((approval: TokenApproval) => {
+    setApprovals(prev => prev.filter(entry =>
+      entry.token !== approval.token || entry.spender !== approval.spender
+    ));
+  }, []);
+
+  return {
+    approvals,
+    loading,
+    progress,
+    error,
+    scan,
+    removeApproval
+  };
+}
@@ -1,26 +1,33 @@
 /**
  * Contract Hook
- * 
+ *
  * Provides contract instance creation and management for smart contract interactions.
+ * View calls go through the network's read-only JSON-RPC provider so they work
+ * before a wallet connects; a signer-bound instance is only provided for writes.
  * Handles contract loading, error states, and signer management.
  */
 
 import { useState, useEffect } from "react";
 import { ethers } from "ethers";
 import { useWallet } from "./useWallet";
+import { useNetwork } from "./useNetwork";
+import { getReadProvider } from "@/lib/rpc";
 
 interface UseContractReturn {
   contract: ethers.Contract | null;
+  writeContract: ethers.Contract | null;
   loading: boolean;
   error: string | null;
 }
 
 export function useContract(
-  address: string, 
+  address: string,
   abi: any[]
 ): UseContractReturn {
-  const { signer, provider, isConnected } = useWallet();
+  const { signer } = useWallet();
+  const { network } = useNetwork();
   const [contract, setContract] = useState<ethers.Contract | null>(null);
+  const [writeContract, setWriteContract] = useState<ethers.Contract | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -35,16 +42,11 @@ export function useContract(
           return;
         }
 
-        if (!provider) {
-          setContract(null);
-          return;
-        }
-
-        // Only create contract if we have a provider
+        // Reads never depend on the wallet
         const contractInstance = new ethers.Contract(
           address,
           abi,
-          signer || provider
+          getReadProvider(network)
         );
 
         setContract(contractInstance);
@@ -58,10 +60,18 @@ export function useContract(
     };
 
     createContract();
-  }, [address, abi, signer, provider, isConnected]);
+  }, [address, abi, network]);
+
+  /**
+   * Bind the contract to the wallet signer for write transactions
+   */
+  useEffect(() => {
+    setWriteContract(contract && signer ? contract.connect(signer) : null);
+  }, [contract, signer]);
 
   return {
     contract,
+    writeContract,
     loading,
     error
   };
@@ -0,0 +1,76 @@
+/**
+ * Gas Settings Hook
+ *
+ * Keeps the fee presets for the selected network fresh, along with the
+ * user's chosen speed and optional gas limit override, and turns them into
+ * the overrides passed to each contract write.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { ethers } from "ethers";
+import { useNetwork } from "./useNetwork";
+import { getReadProvider } from "@/lib/rpc";
+import { getFeeEstimate, toGasOverrides } from "@/lib/gas";
+import type { FeeEstimate, GasOverrides, GasSpeed } from "@/types/contracts";
+
+// Fee presets are refreshed roughly every few blocks
+const FEE_REFRESH_INTERVAL_MS = 15000;
+
+export interface UseGasSettingsReturn {
+  estimate: FeeEstimate | null;
+  speed: GasSpeed;
+  setSpeed: (speed: GasSpeed) => void;
+  gasLimitOverride: ethers.BigNumber | null;
+  setGasLimitOverride: (gasLimit: ethers.BigNumber | null) => void;
+  getOverrides: (estimatedGasLimit?: ethers.BigNumber | null) => GasOverrides;
+  loading: boolean;
+}
+
+export function useGasSettings(): UseGasSettingsReturn {
+  const { network } = useNetwork();
+  const [estimate, setEstimate] = useState<FeeEstimate | null>(null);
+  const [speed, setSpeed] = useState<GasSpeed>('normal');
+  const [gasLimitOverride, setGasLimitOverride] = useState<ethers.BigNumber | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  /**
+   * Reload the fee presets for the selected network
+   */
+  const refresh = useCallback(async () => {
+    try {
+      setLoading(true);
+      setEstimate(await getFeeEstimate(getReadProvider(network)));
+    } catch (error) {
+      console.error("Error loading fee presets:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [network]);
+
+  // Load on network change and keep refreshing while mounted
+  useEffect(() => {
+    setEstimate(null);
+    refresh();
+    const interval = setInterval(refresh, FEE_REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  /**
+   * Overrides for a write; the wallet picks fees itself until presets load
+   */
+  const getOverrides = useCallback((estimatedGasLimit?: ethers.BigNumber | null): GasOverrides => {
+    const gasLimit = gasLimitOverride ?? estimatedGasLimit;
+    if (!estimate) return gasLimit ? { gasLimit } : {};
+    return toGasOverrides(estimate, speed, gasLimit);
+  }, [estimate, speed, gasLimitOverride]);
+
+  return {
+    estimate,
+    speed,
+    setSpeed,
+    gasLimitOverride,
+    setGasLimitOverride,
+    getOverrides,
+    loading
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Holders Hook
+ *
+ * Serves a collection's cached Transfer history immediately, then brings it
+ * up to date from the chain with scan progress. Holder statistics are derived
+ * from whatever history is loaded so far.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { ethers } from "ethers";
+import { useNetwork } from "./useNetwork";
+import { getHolderStats, loadTransfers, updateTransfers } from "@/lib/holders";
+import type { HolderStats, IndexedTransfer } from "@/types/contracts";
+
+interface UseHoldersReturn {
+  transfers: IndexedTransfer[];
+  stats: HolderStats;
+  indexing: boolean;
+  // Percentage of the remaining block range scanned, null when idle
+  progress: number | null;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+export function useHolders(contract: ethers.Contract | null): UseHoldersReturn {
+  const { network } = useNetwork();
+  const [transfers, setTransfers] = useState<IndexedTransfer[]>([]);
+  const [indexing, setIndexing] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Scan Transfer events since the cached block
+   */
+  const refresh = useCallback(async () => {
+    if (!contract) return;
+
+    try {
+      setIndexing(true);
+      setError(null);
+      setTransfers(await loadTransfers(network.chainId, contract.address));
+
+      const updated = await updateTransfers(contract, network.chainId, {
+        onProgress: (partial, scanned) => {
+          setTransfers(partial);
+          setProgress(scanned);
+        }
+      });
+      setTransfers(updated);
+    } catch (err: any) {
+      console.error("Error indexing transfers:", err);
+      setError(err.message || 'Failed to index transfers');
+    } finally {
+      setIndexing(false);
+      setProgress(null);
+    }
+  }, [contract, network]);
+
+  // Load the cache and catch up whenever the collection or network changes
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const stats = useMemo(() => getHolderStats(transfers), [transfers]);
+
+  return {
+    transfers,
+    stats,
+    indexing,
+    progress,
+    error,
+    refresh
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Mint Index Hook
+ *
+ * Serves a collection's cached Minted index immediately, then brings it up
+ * to date from the chain with scan progress. Block times for displayed mints
+ * are filled in on request and cached alongside the index.
+ */
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { ethers } from "ethers";
+import { useNetwork } from "./useNetwork";
+import { fillMintTimestamps, getRescanStart, loadMintIndex, updateMintIndex } from "@/lib/mintIndex";
+import type { IndexedMint, MintIndex } from "@/types/contracts";
+
+interface UseMintIndexReturn {
+  index: MintIndex | null;
+  indexing: boolean;
+  // Percentage of the remaining block range scanned, null when idle
+  progress: number | null;
+  error: string | null;
+  refresh: () => Promise<void>;
+  loadTimestamps: (mints: IndexedMint[]) => Promise<void>;
+}
+
+export function useMintIndex(contract: ethers.Contract | null): UseMintIndexReturn {
+  const { network } = useNetwork();
+  const [index, setIndex] = useState<MintIndex | null>(null);
+  const [indexing, setIndexing] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Latest index, for callbacks that update it outside a render
+  const indexRef = useRef<MintIndex | null>(null);
+  indexRef.current = index;
+
+  /**
+   * Scan new Minted events since the cached block
+   */
+  const refresh = useCallback(async () => {
+    if (!contract) return;
+
+    const cached = loadMintIndex(network.chainId, contract.address);
+    // Progress counts from where the update really starts, reorg margin included
+    const startBlock = getRescanStart(cached);
+
+    try {
+      setIndexing(true);
+      setError(null);
+      setIndex(cached);
+
+      const updated = await updateMintIndex(contract, network.chainId, {
+        onProgress: (partial, toBlock) => {
+          setIndex(partial);
+          const total = toBlock - startBlock + 1;
+          setProgress(total > 0 ? Math.round(((partial.scannedTo - startBlock + 1) / total) * 100) : 100);
+        }
+      });
+      setIndex(updated);
+    } catch (err: any) {
+      console.error("Error indexing mints:", err);
+      setError(err.message || 'Failed to index mints');
+    } finally {
+      setIndexing(false);
+      setProgress(null);
+    }
+  }, [contract, network]);
+
+  // Load the cache and catch up whenever the collection or network changes
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  /**
+   * Fetch block times for mints about to be displayed
+   */
+  const loadTimestamps = useCallback(async (mints: IndexedMint[]) => {
+    if (!contract || !indexRef.current) return;
+
+    try {
+      setIndex(await fillMintTimestamps(contract.provider, indexRef.current, mints));
+    } catch (err) {
+      console.error("Error loading mint times:", err);
+    }
+  }, [contract]);
+
+  return {
+    index,
+    indexing,
+    progress,
+    error,
+    refresh,
+    loadTimestamps
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Mint Simulation Hook
+ *
+ * Keeps a pre-flight simulation of a collection's mint call for the
+ * connected wallet. The simulation runs through the read-only provider
+ * whenever the mint becomes possible, and can be re-run right before the
+ * wallet is prompted.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { ethers } from "ethers";
+import { useWallet } from "./useWallet";
+import { simulateTransaction, type SimulationResult } from "@/lib/simulation";
+
+interface UseMintSimulationReturn {
+  simulation: SimulationResult | null;
+  simulating: boolean;
+  simulate: () => Promise<SimulationResult | null>;
+}
+
+export function useMintSimulation(
+  contract: ethers.Contract | null,
+  method: string,
+  enabled: boolean
+): UseMintSimulationReturn {
+  const { address } = useWallet();
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null);
+  const [simulating, setSimulating] = useState(false);
+
+  /**
+   * Simulate the mint from the connected address; resolves with the result
+   */
+  const simulate = useCallback(async () => {
+    if (!contract || !address) return null;
+
+    try {
+      setSimulating(true);
+      const result = await simulateTransaction(contract, method, [], address);
+      setSimulation(result);
+      return result;
+    } finally {
+      setSimulating(false);
+    }
+  }, [contract, method, address]);
+
+  // Re-simulate whenever the mint becomes possible or the wallet changes
+  useEffect(() => {
+    if (enabled) {
+      simulate();
+    } else {
+      setSimulation(null);
+    }
+  }, [enabled, simulate]);
+
+  return {
+    simulation,
+    simulating,
+    simulate
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Network Hook
+ *
+ * Provides React context for the selected target network from the network
+ * registry (Hemi mainnet, Hemi Sepolia, local devnet). The selection is
+ * persisted in localStorage so the UI keeps pointing at the same deployment
+ * across reloads, and exposes the resolved contract addresses for that network.
+ */
+
+import { createContext, useContext, useState, useCallback, ReactNode } from "react";
+import { NETWORKS, NETWORK_KEYS, DEFAULT_NETWORK, isNetworkKey } from "@/lib/networks";
+import type { NetworkContracts, NetworkDeployment, NetworkKey } from "@/types/contracts";
+
+interface NetworkContextType {
+  network: NetworkDeployment;
+  networks: NetworkDeployment[];
+  contracts: NetworkContracts;
+  selectNetwork: (key: NetworkKey) => void;
+}
+
+const NetworkContext = createContext<NetworkContextType | undefined>(undefined);
+
+const STORAGE_KEY = 'web3playground.network';
+
+/**
+ * Read the persisted network selection, falling back to the default network
+ */
+function loadSelectedNetwork(): NetworkKey {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isNetworkKey(stored)) {
+      return stored;
+    }
+  } catch (error) {
+    console.warn('Unable to read saved network:', error);
+  }
+  return DEFAULT_NETWORK.key;
+}
+
+export function NetworkProvider({ children }: { children: ReactNode }) {
+  const [networkKey, setNetworkKey] = useState<NetworkKey>(loadSelectedNetwork);
+
+  /**
+   * Select the target network and remember it
+   */
+  const selectNetwork = useCallback((key: NetworkKey) => {
+    setNetworkKey(key);
+    try {
+      localStorage.setItem(STORAGE_KEY, key);
+    } catch (error) {
+      console.warn('Unable to save network selection:', error);
+    }
+  }, []);
+
+  const network = NETWORKS[networkKey];
+
+  const contextValue: NetworkContextType = {
+    network,
+    networks: NETWORK_KEYS.map(key => NETWORKS[key]),
+    contracts: network.contracts,
+    selectNetwork
+  };
+
+  return (
+    <NetworkContext.Provider value={contextValue}>
+      {children}
+    </NetworkContext.Provider>
+  );
+}
+
+export function useNetwork() {
+  const context = useContext(NetworkContext);
+  if (context === undefined) {
+    throw new Error('useNetwork must be used within a NetworkProvider');
+  }
+  return context;
+}
@@ -0,0 +1,76 @@
+/**
+ * Rarity Hook
+ *
+ * Computes trait frequencies and rarity ranks across a collection's minted
+ * supply, taken from the cached Minted index, for collections whose traits
+ * are derived from the token ID. Also previews the traits of the next token
+ * ID to be minted, once the index has caught up with the chain.
+ */
+
+import { useCallback, useMemo } from "react";
+import { ethers } from "ethers";
+import { useMintIndex } from "./useMintIndex";
+import { getRarity, getTraitFrequencies, type TokenTraits } from "@/lib/rarity";
+import type {
+  CollectionConfig,
+  NFTAttribute,
+  TokenRarity,
+  TraitFrequencies
+} from "@/types/contracts";
+
+interface UseRarityReturn {
+  // Tokens ranked, i.e. the minted supply
+  supply: number;
+  frequencies: TraitFrequencies;
+  rarity: Map<string, TokenRarity>;
+  nextTokenId: string | null;
+  nextAttributes: NFTAttribute[];
+  indexing: boolean;
+  // Traits of any token ID, empty for collections without generated traits
+  getAttributes: (tokenId: string) => NFTAttribute[];
+}
+
+export function useRarity(collection: CollectionConfig, contract: ethers.Contract | null): UseRarityReturn {
+  const { traits, traitDecimals } = collection;
+  // Only index mints for collections that can be ranked
+  const { index, indexing, error } = useMintIndex(traits ? contract : null);
+
+  const tokens = useMemo<TokenTraits[]>(() => {
+    if (!traits || !index) return [];
+    return index.mints.map(mint => ({ tokenId: mint.tokenId, attributes: traits.generate(mint.tokenId) }));
+  }, [traits, index]);
+
+  const frequencies = useMemo(() => getTraitFrequencies(tokens, traitDecimals), [tokens, traitDecimals]);
+  const rarity = useMemo(() => getRarity(tokens, traitDecimals), [tokens, traitDecimals]);
+
+  // Token IDs are sequential, so the next mint follows the highest minted ID;
+  // a partial index (mid-scan or after a failed update) may miss it
+  const nextTokenId = useMemo(() => {
+    if (!traits || !index || indexing || error || index.scannedTo < 0) return null;
+    const highest = index.mints.reduce<ethers.BigNumber | null>((max, mint) => {
+      const tokenId = ethers.BigNumber.from(mint.tokenId);
+      return max === null || tokenId.gt(max) ? tokenId : max;
+    }, null);
+    return highest ? highest.add(1).toString() : String(traits.firstTokenId);
+  }, [traits, index, indexing, error]);
+
+  const nextAttributes = useMemo(
+    () => (traits && nextTokenId ? traits.generate(nextTokenId) : []),
+    [traits, nextTokenId]
+  );
+
+  const getAttributes = useCallback(
+    (tokenId: string) => traits?.generate(tokenId) ?? [],
+    [traits]
+  );
+
+  return {
+    supply: tokens.length,
+    frequencies,
+    rarity,
+    nextTokenId,
+    nextAttributes,
+    indexing,
+    getAttributes
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * Token Details Hook
+ *
+ * Loads a single token for its detail page: on-chain state first, then its
+ * metadata document (kept raw for inspection alongside the validated form)
+ * and its ownership history, which needs a full Transfer log scan and so
+ * arrives last.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { ethers } from "ethers";
+import { loadMetadataJson, toResolvedMetadata } from "@/lib/metadata";
+import { getTransferHistory, loadTokenDetails } from "@/lib/tokenDetails";
+import type { IndexedTransfer, NFTMetadata, TokenDetails } from "@/types/contracts";
+
+interface UseTokenDetailsReturn {
+  details: TokenDetails | null;
+  // Metadata document exactly as the tokenURI returned it
+  metadataJson: unknown;
+  metadata: NFTMetadata | null;
+  metadataError: string | null;
+  history: IndexedTransfer[] | null;
+  historyError: string | null;
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+export function useTokenDetails(contract: ethers.Contract | null, tokenId: string): UseTokenDetailsReturn {
+  const [details, setDetails] = useState<TokenDetails | null>(null);
+  const [metadataJson, setMetadataJson] = useState<unknown>(null);
+  const [metadata, setMetadata] = useState<NFTMetadata | null>(null);
+  const [metadataError, setMetadataError] = useState<string | null>(null);
+  const [history, setHistory] = useState<IndexedTransfer[] | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Resolve the token's metadata, keeping the raw document
+   */
+  const loadMetadata = async (tokenURI: string) => {
+    try {
+      setMetadataError(null);
+      const json = await loadMetadataJson(tokenURI, { tokenId });
+      setMetadataJson(json);
+      setMetadata(toResolvedMetadata(json, { tokenId }));
+    } catch (err: any) {
+      console.error("Error resolving metadata:", err);
+      setMetadataError(err.message || 'Could not load metadata');
+    }
+  };
+
+  /**
+   * Scan the token's Transfer logs
+   */
+  const loadHistory = async () => {
+    if (!contract) return;
+
+    try {
+      setHistoryError(null);
+      setHistory(await getTransferHistory(contract, tokenId));
+    } catch (err: any) {
+      console.error("Error loading transfer history:", err);
+      setHistoryError(err.message || 'Failed to load transfer history');
+    }
+  };
+
+  /**
+   * Load on-chain state, then metadata and history
+   */
+  const refresh = useCallback(async () => {
+    if (!contract) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const loaded = await loadTokenDetails(contract, tokenId);
+      setDetails(loaded);
+      setLoading(false);
+
+      await Promise.all([
+        loaded.tokenURI !== null ? loadMetadata(loaded.tokenURI) : Promise.resolve(),
+        loadHistory()
+      ]);
+    } catch (err: any) {
+      console.error("Error loading token:", err);
+      setError(err.message || 'Failed to load token');
+    } finally {
+      setLoading(false);
+    }
+  }, [contract, tokenId]);
+
+  // Reload whenever the contract (and so the network) or token changes
+  useEffect(() => {
+    setDetails(null);
+    setMetadataJson(null);
+    setMetadata(null);
+    setHistory(null);
+    refresh();
+  }, [refresh]);
+
+  return {
+    details,
+    metadataJson,
+    metadata,
+    metadataError,
+    history,
+    historyError,
+    loading,
+    error,
+    refresh
+  };
+}
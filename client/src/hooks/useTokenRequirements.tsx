@@ -0,0 +1,63 @@
+/**
+ * Token Requirements Hook
+ *
+ * Tracks the ERC20 cost of a token-burn mint for the connected wallet:
+ * decimals, balances and allowances for every requirement, and which
+ * approvals are still missing. Works with any number of cost tokens.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { useWallet } from "./useWallet";
+import { useNetwork } from "./useNetwork";
+import { getReadProvider } from "@/lib/rpc";
+import {
+  getInsufficientBalances,
+  getMissingApprovals,
+  loadRequirementStatus
+} from "@/lib/requirements";
+import type { TokenRequirement, TokenRequirementStatus } from "@/types/contracts";
+
+export interface UseTokenRequirementsReturn {
+  statuses: TokenRequirementStatus[];
+  missingApprovals: TokenRequirementStatus[];
+  insufficientBalances: TokenRequirementStatus[];
+  checkRequirements: () => Promise<TokenRequirementStatus[]>;
+  loading: boolean;
+}
+
+export function useTokenRequirements(requirements: TokenRequirement[]): UseTokenRequirementsReturn {
+  const { address } = useWallet();
+  const { network } = useNetwork();
+  const [statuses, setStatuses] = useState<TokenRequirementStatus[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  /**
+   * Re-read every requirement; resolves with the fresh statuses
+   */
+  const checkRequirements = useCallback(async () => {
+    try {
+      setLoading(true);
+      const next = await loadRequirementStatus(getReadProvider(network), requirements, address);
+      setStatuses(next);
+      return next;
+    } catch (error) {
+      console.error("Error checking token requirements:", error);
+      throw error;
+    } finally {
+      setLoading(false);
+    }
+  }, [requirements, address, network]);
+
+  // Refresh whenever the requirements or the wallet change
+  useEffect(() => {
+    checkRequirements().catch(() => {});
+  }, [checkRequirements]);
+
+  return {
+    statuses,
+    missingApprovals: getMissingApprovals(statuses),
+    insufficientBalances: getInsufficientBalances(statuses),
+    checkRequirements,
+    loading
+  };
+}
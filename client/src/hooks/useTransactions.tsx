@@ -0,0 +1,191 @@
+/**
+ * Transactions Hook
+ *
+ * Provides React context for the central transaction manager. Write paths hand
+ * their submitted transaction to trackTransaction, which records it, shows the
+ * submitted/confirmed toasts and resolves with the receipt. Pending entries
+ * are persisted and resumed after a reload; useTransactions() exposes the
+ * full history, newest first.
+ */
+
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from "react";
+import { ethers } from "ethers";
+import { useToast } from "./use-toast";
+import { getNetworkByChainId } from "@/lib/networks";
+import { getReadProvider } from "@/lib/rpc";
+import {
+  loadTransactions,
+  saveTransactions,
+  toTrackedTransaction,
+  upsertTransaction,
+  watchTransaction,
+  type TransactionDetails,
+  type TransactionOutcome
+} from "@/lib/transactions";
+import type { TrackedTransaction } from "@/types/contracts";
+
+interface TransactionsContextType {
+  transactions: TrackedTransaction[];
+  trackTransaction: (
+    tx: ethers.providers.TransactionResponse,
+    details: TransactionDetails
+  ) => Promise<ethers.providers.TransactionReceipt>;
+  clearTransactions: () => void;
+}
+
+const TransactionsContext = createContext<TransactionsContextType | undefined>(undefined);
+
+/**
+ * Read-only provider for the chain a transaction was sent on
+ */
+function getChainProvider(chainId: number): ethers.providers.Provider | null {
+  const network = getNetworkByChainId(chainId);
+  return network ? getReadProvider(network) : null;
+}
+
+/**
+ * Error surfaced to the write path when its transaction did not go through
+ */
+function outcomeError({ transaction }: TransactionOutcome): Error {
+  switch (transaction.status) {
+    case 'cancelled':
+      return new Error('Transaction was cancelled in your wallet');
+    case 'replaced':
+      return new Error('Transaction was replaced by another transaction');
+    default:
+      return new Error('Transaction reverted on-chain');
+  }
+}
+
+export function TransactionsProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>(loadTransactions);
+
+  // Hashes currently being waited on, so resumed entries are not watched twice
+  const watchingRef = useRef(new Set<string>());
+
+  // Persist every change
+  useEffect(() => {
+    saveTransactions(transactions);
+  }, [transactions]);
+
+  /**
+   * Wait for a tracked transaction and record its outcome
+   */
+  const watch = useCallback(async (transaction: TrackedTransaction): Promise<TransactionOutcome> => {
+    const provider = getChainProvider(transaction.chainId);
+    if (!provider) {
+      throw new Error(`No RPC configured for chain ${transaction.chainId}`);
+    }
+
+    watchingRef.current.add(transaction.hash);
+    try {
+      const outcome = await watchTransaction(provider, transaction);
+      setTransactions(prev => upsertTransaction(prev, outcome.transaction));
+      return outcome;
+    } finally {
+      watchingRef.current.delete(transaction.hash);
+    }
+  }, []);
+
+  /**
+   * Record a submitted transaction and wait for it to confirm
+   * Rejects if it reverts or the wallet replaces or cancels it.
+   */
+  const trackTransaction = useCallback(async (
+    tx: ethers.providers.TransactionResponse,
+    details: TransactionDetails
+  ) => {
+    const provider = getChainProvider(tx.chainId);
+    const startBlock = provider ? await provider.getBlockNumber().catch(() => 0) : 0;
+    const tracked = toTrackedTransaction(tx, details, startBlock);
+
+    setTransactions(prev => upsertTransaction(prev, tracked));
+
+    toast({
+      title: "Transaction Submitted",
+      description: `${details.purpose}: waiting for blockchain confirmation...`,
+    });
+
+    // Chains outside the registry fall back to the wallet's own wait
+    if (!provider) {
+      try {
+        const receipt = await tx.wait();
+        setTransactions(prev => upsertTransaction(prev, {
+          ...tracked,
+          status: 'confirmed',
+          blockNumber: receipt.blockNumber,
+          gasUsed: receipt.gasUsed.toString(),
+          effectiveGasPrice: receipt.effectiveGasPrice?.toString()
+        }));
+        return receipt;
+      } catch (error) {
+        // Settle the record, or it would stay pending with nothing to resume it
+        setTransactions(prev => upsertTransaction(prev, { ...tracked, status: 'failed' }));
+        throw error;
+      }
+    }
+
+    const outcome = await watch(tracked);
+    if (outcome.transaction.status !== 'confirmed') {
+      throw outcomeError(outcome);
+    }
+
+    toast({
+      title: "Transaction Confirmed",
+      description: outcome.transaction.replacement?.reason === 'repriced'
+        ? `${details.purpose} (sped up) confirmed`
+        : `${details.purpose} confirmed`,
+    });
+
+    return outcome.receipt;
+  }, [toast, watch]);
+
+  /**
+   * Forget every tracked transaction
+   */
+  const clearTransactions = useCallback(() => {
+    setTransactions([]);
+  }, []);
+
+  // Resume waiting on transactions that were still pending before a reload,
+  // on chains we have an RPC for
+  useEffect(() => {
+    transactions
+      .filter(transaction => transaction.status === 'pending' && !watchingRef.current.has(transaction.hash))
+      .filter(transaction => getNetworkByChainId(transaction.chainId) !== undefined)
+      .forEach(transaction => {
+        watch(transaction)
+          .then(({ transaction: settled }) => {
+            toast({
+              title: settled.status === 'confirmed' ? "Transaction Confirmed" : "Transaction Not Confirmed",
+              description: `${settled.purpose}: ${settled.status}`,
+              variant: settled.status === 'confirmed' ? undefined : "destructive",
+            });
+          })
+          .catch(error => {
+            console.error("Error resuming transaction:", error);
+          });
+      });
+  }, []);
+
+  const contextValue: TransactionsContextType = {
+    transactions,
+    trackTransaction,
+    clearTransactions
+  };
+
+  return (
+    <TransactionsContext.Provider value={contextValue}>
+      {children}
+    </TransactionsContext.Provider>
+  );
+}
+
+export function useTransactions() {
+  const context = useContext(TransactionsContext);
+  if (context === undefined) {
+    throw new Error('useTransactions must be used within a TransactionsProvider');
+  }
+  return context;
+}
@@ -1,14 +1,34 @@
 /**
  * Wallet Hook
- * 
+ *
  * Manages Web3 wallet connections and blockchain interactions for Jeff's Hacker Haven.
- * Provides React context for wallet state, handles MetaMask integration, and manages
- * automatic network switching to Hemi mainnet (Chain ID 43111). Includes event
- * listeners for account changes, network switches, and disconnection handling.
+ * Provides React context for wallet state, handles injected wallets (EIP-6963
+ * discovery with a legacy window.ethereum fallback) and WalletConnect v2, and
+ * manages automatic network switching to the network selected in the network
+ * registry (Hemi mainnet by default). Includes event listeners for account
+ * changes, network switches, and disconnection handling, and restores the last
+ * session (WalletConnect or injected wallet by RDNS) after a page reload.
  */
 
-import { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import { createContext, useContext, useState, useEffect, useRef, ReactNode } from "react";
 import { ethers } from "ethers";
+import { useNetwork } from "./useNetwork";
+import { toAddChainParams } from "@/lib/networks";
+import {
+  discoverInjectedProviders,
+  upsertProvider,
+  toInjectedWalletType,
+  getWalletRdns
+} from "@/lib/eip6963";
+import {
+  connectWalletConnect,
+  restoreWalletConnect,
+  disconnectWalletConnect,
+  parseChainId,
+  type WalletConnectHandlers,
+  type WalletConnectSession
+} from "@/lib/walletConnect";
+import type { EIP1193Provider, EIP6963ProviderDetail, WalletType } from "@/types/contracts";
 
 interface WalletContextType {
   isConnected: boolean;
@@ -16,53 +36,153 @@ interface WalletContextType {
   chainId: number | null;
   provider: ethers.providers.Web3Provider | null;
   signer: ethers.Signer | null;
-  connect: (walletType: 'metamask' | 'walletconnect') => Promise<void>;
+  walletType: WalletType | null;
+  walletConnectUri: string | null;
+  injectedProviders: EIP6963ProviderDetail[];
+  lastInjectedRdns: string | null;
+  connect: (walletType: WalletType) => Promise<void>;
   disconnect: () => Promise<void>;
-  switchToHemi: () => Promise<void>;
+  switchNetwork: () => Promise<void>;
 }
 
 const WalletContext = createContext<WalletContextType | undefined>(undefined);
 
-const HEMI_CHAIN_ID = 43111;
-const HEMI_CHAIN_CONFIG = {
-  chainId: '0xA867', // 43111 in hex
-  chainName: 'Hemi Network',
-  rpcUrls: ['https://rpc.hemi.network/rpc'],
-  nativeCurrency: {
-    name: 'ETH',
-    symbol: 'ETH',
-    decimals: 18
-  },
-  blockExplorerUrls: ['https://explorer.hemi.xyz/']
-};
+const WALLET_STORAGE_KEY = 'web3playground.wallet';
+const LAST_RDNS_STORAGE_KEY = 'web3playground.lastWalletRdns';
+
+/**
+ * Remember which wallet was used so the session can be restored on reload
+ */
+function rememberWallet(walletType: WalletType | null) {
+  try {
+    if (walletType) {
+      localStorage.setItem(WALLET_STORAGE_KEY, walletType);
+    } else {
+      localStorage.removeItem(WALLET_STORAGE_KEY);
+    }
+
+    // The chosen injected wallet is kept as a preference even after disconnect
+    const rdns = getWalletRdns(walletType);
+    if (rdns) {
+      localStorage.setItem(LAST_RDNS_STORAGE_KEY, rdns);
+    }
+  } catch (error) {
+    console.warn('Unable to persist wallet type:', error);
+  }
+}
+
+function loadRememberedWallet(): WalletType | null {
+  try {
+    const stored = localStorage.getItem(WALLET_STORAGE_KEY);
+    if (stored === 'metamask' || stored === 'walletconnect') return stored;
+    if (getWalletRdns(stored as WalletType)) return stored as WalletType;
+    return null;
+  } catch (error) {
+    return null;
+  }
+}
+
+function loadLastInjectedRdns(): string | null {
+  try {
+    return localStorage.getItem(LAST_RDNS_STORAGE_KEY);
+  } catch (error) {
+    return null;
+  }
+}
 
 export function WalletProvider({ children }: { children: ReactNode }) {
+  const { network } = useNetwork();
   const [isConnected, setIsConnected] = useState(false);
   const [address, setAddress] = useState<string | null>(null);
   const [chainId, setChainId] = useState<number | null>(null);
   const [provider, setProvider] = useState<ethers.providers.Web3Provider | null>(null);
   const [signer, setSigner] = useState<ethers.Signer | null>(null);
+  const [walletType, setWalletType] = useState<WalletType | null>(null);
+  const [walletConnectUri, setWalletConnectUri] = useState<string | null>(null);
+  const [injectedProviders, setInjectedProviders] = useState<EIP6963ProviderDetail[]>([]);
+  const [lastInjectedRdns, setLastInjectedRdns] = useState<string | null>(loadLastInjectedRdns);
+
+  // EIP-1193 provider of the connected wallet and the live WalletConnect session
+  const activeProviderRef = useRef<EIP1193Provider | null>(null);
+  const walletConnectRef = useRef<WalletConnectSession | null>(null);
+  // Removes the event listeners bound to the active injected provider
+  const injectedUnsubscribeRef = useRef<(() => void) | null>(null);
+  // Discovered providers by RDNS, readable from event callbacks
+  const injectedProvidersRef = useRef<Map<string, EIP6963ProviderDetail>>(new Map());
+  // Incremented per connect attempt so a stale pairing can't reset a newer session
+  const connectAttemptRef = useRef(0);
 
   /**
    * Initialize wallet connection on page load
    */
   useEffect(() => {
     checkExistingConnection();
-    setupEventListeners();
+    return () => injectedUnsubscribeRef.current?.();
   }, []);
 
+  /**
+   * Discover EIP-6963 wallets; the remembered one is reconnected when it announces
+   */
+  useEffect(() => {
+    const rememberedRdns = getWalletRdns(loadRememberedWallet());
+
+    return discoverInjectedProviders((detail) => {
+      const isNew = !injectedProvidersRef.current.has(detail.info.rdns);
+      injectedProvidersRef.current.set(detail.info.rdns, detail);
+      setInjectedProviders(prev => upsertProvider(prev, detail));
+
+      if (isNew && detail.info.rdns === rememberedRdns && !activeProviderRef.current) {
+        restoreInjectedWallet(detail);
+      }
+    });
+  }, []);
+
+  /**
+   * Reconnect a discovered wallet that still exposes an authorized account
+   */
+  const restoreInjectedWallet = async (detail: EIP6963ProviderDetail) => {
+    try {
+      const accounts = await detail.provider.request({ method: 'eth_accounts' });
+      if (accounts.length > 0 && !activeProviderRef.current) {
+        await activateInjected(detail.provider, toInjectedWalletType(detail.info.rdns));
+      }
+    } catch (error) {
+      console.error(`Error restoring ${detail.info.name} connection:`, error);
+    }
+  };
+
   /**
    * Check if wallet is already connected
    */
   const checkExistingConnection = async () => {
+    const rememberedWallet = loadRememberedWallet();
+
+    // Discovered wallets are restored once they announce themselves
+    if (getWalletRdns(rememberedWallet)) {
+      return;
+    }
+
+    if (rememberedWallet === 'walletconnect') {
+      try {
+        const session = await restoreWalletConnect(network, walletConnectHandlers);
+        if (session) {
+          await activateWalletConnect(session);
+          return;
+        }
+        rememberWallet(null);
+      } catch (error) {
+        console.error('Error restoring WalletConnect session:', error);
+      }
+    }
+
     if (typeof window.ethereum !== 'undefined') {
       try {
-        const accounts = await window.ethereum.request({ 
-          method: 'eth_accounts' 
+        const accounts = await window.ethereum.request({
+          method: 'eth_accounts'
         });
-        
-        if (accounts.length > 0) {
-          await initializeWallet();
+
+        if (accounts.length > 0 && !activeProviderRef.current) {
+          await activateInjected(window.ethereum, 'metamask');
         }
       } catch (error) {
         console.error('Error checking existing connection:', error);
@@ -71,21 +191,18 @@ export function WalletProvider({ children }: { children: ReactNode }) {
   };
 
   /**
-   * Setup event listeners for wallet events
+   * Setup event listeners for an injected wallet's events
+   * Returns a function that removes them again.
    */
-  const setupEventListeners = () => {
-    if (typeof window.ethereum !== 'undefined') {
-      window.ethereum.on('accountsChanged', handleAccountsChanged);
-      window.ethereum.on('chainChanged', handleChainChanged);
-      window.ethereum.on('disconnect', handleDisconnect);
-    }
+  const bindInjectedEvents = (injected: EIP1193Provider) => {
+    injected.on('accountsChanged', handleAccountsChanged);
+    injected.on('chainChanged', handleChainChanged);
+    injected.on('disconnect', handleDisconnect);
 
     return () => {
-      if (typeof window.ethereum !== 'undefined') {
-        window.ethereum.removeListener('accountsChanged', handleAccountsChanged);
-        window.ethereum.removeListener('chainChanged', handleChainChanged);
-        window.ethereum.removeListener('disconnect', handleDisconnect);
-      }
+      injected.removeListener('accountsChanged', handleAccountsChanged);
+      injected.removeListener('chainChanged', handleChainChanged);
+      injected.removeListener('disconnect', handleDisconnect);
     };
   };
 
@@ -105,11 +222,11 @@ export function WalletProvider({ children }: { children: ReactNode }) {
   /**
    * Handle chain changes
    */
-  const handleChainChanged = async (chainId: string) => {
-    const newChainId = parseInt(chainId, 16);
+  const handleChainChanged = async (chainId: string | number) => {
+    const newChainId = parseChainId(chainId);
     setChainId(newChainId);
-    
-    if (isConnected) {
+
+    if (activeProviderRef.current) {
       await initializeWallet();
     }
   };
@@ -121,15 +238,37 @@ export function WalletProvider({ children }: { children: ReactNode }) {
     resetWalletState();
   };
 
+  /**
+   * Handle the wallet ending the WalletConnect session
+   */
+  const handleWalletConnectDisconnect = () => {
+    walletConnectRef.current?.unsubscribe();
+    walletConnectRef.current = null;
+    rememberWallet(null);
+    resetWalletState();
+  };
+
+  const walletConnectHandlers: WalletConnectHandlers = {
+    onDisplayUri: (uri) => setWalletConnectUri(uri),
+    onAccountsChanged: handleAccountsChanged,
+    onChainChanged: handleChainChanged,
+    onDisconnect: handleWalletConnectDisconnect
+  };
+
   /**
    * Reset wallet state
    */
   const resetWalletState = () => {
+    injectedUnsubscribeRef.current?.();
+    injectedUnsubscribeRef.current = null;
+    activeProviderRef.current = null;
     setIsConnected(false);
     setAddress(null);
     setChainId(null);
     setProvider(null);
     setSigner(null);
+    setWalletType(null);
+    setWalletConnectUri(null);
   };
 
   /**
@@ -137,13 +276,14 @@ export function WalletProvider({ children }: { children: ReactNode }) {
    */
   const initializeWallet = async () => {
     try {
-      if (typeof window.ethereum === 'undefined') {
+      const eip1193Provider = activeProviderRef.current;
+      if (!eip1193Provider) {
         throw new Error('No wallet detected');
       }
 
-      const web3Provider = new ethers.providers.Web3Provider(window.ethereum);
+      const web3Provider = new ethers.providers.Web3Provider(eip1193Provider);
       const accounts = await web3Provider.listAccounts();
-      
+
       if (accounts.length === 0) {
         throw new Error('No accounts found');
       }
@@ -164,12 +304,56 @@ export function WalletProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  /**
+   * Make an injected wallet (legacy or EIP-6963) the active wallet
+   */
+  const activateInjected = async (injected: EIP1193Provider, walletType: WalletType) => {
+    injectedUnsubscribeRef.current?.();
+    injectedUnsubscribeRef.current = bindInjectedEvents(injected);
+    activeProviderRef.current = injected;
+    setWalletType(walletType);
+    await initializeWallet();
+    rememberWallet(walletType);
+
+    const rdns = getWalletRdns(walletType);
+    if (rdns) setLastInjectedRdns(rdns);
+  };
+
+  /**
+   * Make an established WalletConnect session the active wallet
+   */
+  const activateWalletConnect = async (session: WalletConnectSession) => {
+    walletConnectRef.current = session;
+    activeProviderRef.current = session.provider;
+    setWalletType('walletconnect');
+    setWalletConnectUri(null);
+    await initializeWallet();
+    rememberWallet('walletconnect');
+  };
+
   /**
    * Connect wallet
    */
-  const connect = async (walletType: 'metamask' | 'walletconnect') => {
+  const connect = async (walletType: WalletType) => {
+    const attempt = ++connectAttemptRef.current;
+
     try {
-      if (walletType === 'metamask') {
+      const rdns = getWalletRdns(walletType);
+
+      if (rdns) {
+        const detail = injectedProvidersRef.current.get(rdns);
+        if (!detail) {
+          throw new Error('Selected wallet is no longer available');
+        }
+
+        // Request account access from the chosen wallet only
+        await detail.provider.request({
+          method: 'eth_requestAccounts'
+        });
+
+        await activateInjected(detail.provider, walletType);
+
+      } else if (walletType === 'metamask') {
         if (typeof window.ethereum === 'undefined') {
           throw new Error('MetaMask is not installed');
         }
@@ -179,61 +363,82 @@ export function WalletProvider({ children }: { children: ReactNode }) {
           method: 'eth_requestAccounts'
         });
 
-        await initializeWallet();
+        await activateInjected(window.ethereum, 'metamask');
 
-        // Switch to Hemi network after connection
-        try {
-          await switchToHemi();
-        } catch (switchError) {
-          // Continue even if network switch fails
-          console.warn('Failed to switch to Hemi network:', switchError);
+      } else if (walletType === 'walletconnect') {
+        setWalletConnectUri(null);
+
+        // Resolves once the wallet approves the pairing shown as a QR code
+        const session = await connectWalletConnect(network, walletConnectHandlers);
+
+        if (attempt !== connectAttemptRef.current) {
+          await disconnectWalletConnect(session);
+          return;
         }
 
-      } else if (walletType === 'walletconnect') {
-        // WalletConnect V2 integration would go here
-        // For now, throw an error indicating it's not implemented
-        throw new Error('WalletConnect integration coming soon');
+        await activateWalletConnect(session);
+      }
+
+      // Switch to the selected network after connection
+      try {
+        await switchNetwork();
+      } catch (switchError) {
+        // Continue even if network switch fails
+        console.warn(`Failed to switch to ${network.name}:`, switchError);
       }
     } catch (error) {
-      resetWalletState();
+      if (attempt === connectAttemptRef.current) {
+        await disconnectWalletConnect(walletConnectRef.current);
+        walletConnectRef.current = null;
+        rememberWallet(null);
+        resetWalletState();
+      }
       throw error;
     }
   };
 
   /**
    * Disconnect wallet
+   * Also abandons any WalletConnect pairing still waiting for approval.
    */
   const disconnect = async () => {
+    connectAttemptRef.current++;
+    await disconnectWalletConnect(walletConnectRef.current);
+    walletConnectRef.current = null;
+    rememberWallet(null);
     resetWalletState();
   };
 
   /**
-   * Switch to Hemi network
+   * Switch wallet to the selected network
    */
-  const switchToHemi = async () => {
-    if (typeof window.ethereum === 'undefined') {
+  const switchNetwork = async () => {
+    const eip1193Provider = activeProviderRef.current ?? window.ethereum;
+    if (!eip1193Provider) {
       throw new Error('No wallet detected');
     }
 
+    const chainConfig = toAddChainParams(network);
+
     try {
-      // Try to switch to Hemi network
-      await window.ethereum.request({
+      // Try to switch to the selected network
+      await eip1193Provider.request({
         method: 'wallet_switchEthereumChain',
-        params: [{ chainId: HEMI_CHAIN_CONFIG.chainId }]
+        params: [{ chainId: chainConfig.chainId }]
       });
     } catch (switchError: any) {
       // If network doesn't exist, add it
       if (switchError.code === 4902) {
         try {
-          await window.ethereum.request({
+          await eip1193Provider.request({
             method: 'wallet_addEthereumChain',
-            params: [HEMI_CHAIN_CONFIG]
+            params: [chainConfig]
           });
         } catch (addError) {
-          throw new Error('Failed to add Hemi network to wallet');
+          throw new Error(`Failed to add ${network.name} to wallet`);
         }
       } else {
-        throw new Error('Failed to switch to Hemi network');
+        throw new Error(`Failed to switch to ${network.name}`);
       }
     }
   };
@@ -244,9 +449,13 @@ export function WalletProvider({ children }: { children: ReactNode }) {
     chainId,
     provider,
     signer,
+    walletType,
+    walletConnectUri,
+    injectedProviders,
+    lastInjectedRdns,
     connect,
     disconnect,
-    switchToHemi
+    switchNetwork
   };
 
   return (
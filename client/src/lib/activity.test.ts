@@ -0,0 +1,105 @@
+/**
+ * Unit Tests for Wallet Activity Merging
+ *
+ * Checks how tracked transactions and on-chain Minted events combine:
+ * - Mints seen locally and on-chain are listed once
+ * - Chain-only mints survive cleared browser storage
+ * - Sped-up transactions match their replacement's event
+ * - Pending entries first, then newest block first
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getGasPaid, mergeActivity } from './activity';
+import type { MintedEventActivity, TrackedTransaction } from '@/types/contracts';
+
+const FROM = '0x1111111111111111111111111111111111111111';
+const hash = (byte: string) => `0x${byte.repeat(64)}`;
+
+function tracked(overrides: Partial<TrackedTransaction>): TrackedTransaction {
+  return {
+    hash: hash('a'),
+    chainId: 43111,
+    from: FROM,
+    to: null,
+    nonce: 1,
+    data: '0x',
+    value: '0',
+    startBlock: 100,
+    kind: 'mint',
+    purpose: 'Mint Foom NFT',
+    status: 'confirmed',
+    submittedAt: 1_000,
+    ...overrides
+  };
+}
+
+function minted(overrides: Partial<MintedEventActivity>): MintedEventActivity {
+  return {
+    hash: hash('a'),
+    chainId: 43111,
+    collectionName: 'Foom NFT',
+    tokenId: '12',
+    blockNumber: 105,
+    timestamp: 5_000,
+    gasPaid: '42000',
+    ...overrides
+  };
+}
+
+describe('getGasPaid', () => {
+  it('multiplies gas used by the effective gas price', () => {
+    expect(getGasPaid('21000', '2000000000')).toBe('42000000000000');
+    expect(getGasPaid('21000', undefined)).toBeNull();
+  });
+});
+
+describe('mergeActivity', () => {
+  it('lists a mint seen locally and on-chain once', () => {
+    const items = mergeActivity(
+      [tracked({ blockNumber: 105, gasUsed: '21000', effectiveGasPrice: '3' })],
+      [minted({})]
+    );
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({
+      purpose: 'Mint Foom NFT #12',
+      source: 'both',
+      gasPaid: '63000',
+      timestamp: 5_000
+    });
+  });
+
+  it('keeps chain-only mints when browser storage was cleared', () => {
+    const items = mergeActivity([], [minted({ collectionName: 'WENTGE NFT', tokenId: '3' })]);
+
+    expect(items).toEqual([expect.objectContaining({
+      kind: 'mint',
+      purpose: 'Mint WENTGE NFT #3',
+      status: 'confirmed',
+      source: 'chain',
+      gasPaid: '42000'
+    })]);
+  });
+
+  it('matches a sped-up transaction to its replacement event', () => {
+    const items = mergeActivity(
+      [tracked({ status: 'pending', replacement: { hash: hash('b'), reason: 'repriced' } })],
+      [minted({ hash: hash('b') })]
+    );
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ hash: hash('a'), status: 'confirmed', source: 'both' });
+  });
+
+  it('orders pending entries first, then newest block first', () => {
+    const items = mergeActivity(
+      [
+        tracked({ hash: hash('c'), kind: 'approve', purpose: 'Approve HAIR', blockNumber: 90 }),
+        tracked({ hash: hash('d'), purpose: 'Mint WENTGE NFT', status: 'pending', submittedAt: 9_000 })
+      ],
+      [minted({ hash: hash('e'), blockNumber: 95 })]
+    );
+
+    expect(items.map(item => item.hash)).toEqual([hash('d'), hash('e'), hash('c')]);
+  });
+});
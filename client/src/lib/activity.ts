@@ -0,0 +1,114 @@
+/**
+ * Wallet Activity
+ *
+ * Builds an address's playground activity by merging transactions tracked in
+ * this browser with Minted events read from each collection. Chain events
+ * keep mint history intact after browser storage is cleared, while tracked
+ * entries add approvals, pending and replaced transactions.
+ */
+
+import { ethers } from "ethers";
+import { scanEvents } from "@shared/logs";
+import type {
+  ActivityItem,
+  CollectionConfig,
+  MintedEventActivity,
+  TrackedTransaction
+} from "@/types/contracts";
+
+/**
+ * Wei paid for gas by a mined transaction
+ */
+export function getGasPaid(
+  gasUsed: ethers.BigNumberish | null | undefined,
+  effectiveGasPrice: ethers.BigNumberish | null | undefined
+): string | null {
+  if (gasUsed == null || effectiveGasPrice == null) return null;
+  return ethers.BigNumber.from(gasUsed).mul(effectiveGasPrice).toString();
+}
+
+/**
+ * Load Minted events for an address from one collection, with receipts and block times
+ */
+export async function loadMintedEvents(
+  contract: ethers.Contract,
+  collection: CollectionConfig,
+  owner: string,
+  fromBlock = 0
+): Promise<MintedEventActivity[]> {
+  const [events, { chainId }] = await Promise.all([
+    scanEvents(contract, contract.filters.Minted(owner), { fromBlock }),
+    contract.provider.getNetwork()
+  ]);
+
+  return Promise.all(events.map(async event => {
+    const [receipt, block] = await Promise.all([
+      event.getTransactionReceipt().catch(() => null),
+      event.getBlock().catch(() => null)
+    ]);
+
+    return {
+      hash: event.transactionHash,
+      chainId,
+      collectionName: collection.name,
+      tokenId: event.args!.tokenId.toString(),
+      blockNumber: event.blockNumber,
+      timestamp: block ? block.timestamp * 1000 : null,
+      gasPaid: receipt ? getGasPaid(receipt.gasUsed, receipt.effectiveGasPrice) : null
+    };
+  }));
+}
+
+/**
+ * Hash the transaction was actually mined under (its replacement if sped up)
+ */
+function minedHash(transaction: TrackedTransaction): string {
+  return transaction.replacement?.hash ?? transaction.hash;
+}
+
+/**
+ * Merge tracked transactions with Minted events, newest first
+ * A mint seen both locally and on-chain is listed once.
+ */
+export function mergeActivity(
+  transactions: TrackedTransaction[],
+  mintedEvents: MintedEventActivity[]
+): ActivityItem[] {
+  const eventsByHash = new Map(mintedEvents.map(event => [event.hash.toLowerCase(), event]));
+
+  const tracked: ActivityItem[] = transactions.map(transaction => {
+    const event = eventsByHash.get(minedHash(transaction).toLowerCase());
+    eventsByHash.delete(minedHash(transaction).toLowerCase());
+
+    return {
+      hash: transaction.hash,
+      chainId: transaction.chainId,
+      kind: transaction.kind,
+      purpose: event ? `${transaction.purpose} #${event.tokenId}` : transaction.purpose,
+      // The chain has the final say on a mint that emitted its event
+      status: event ? 'confirmed' : transaction.status,
+      timestamp: event?.timestamp ?? transaction.submittedAt,
+      blockNumber: transaction.blockNumber ?? event?.blockNumber ?? null,
+      gasPaid: getGasPaid(transaction.gasUsed, transaction.effectiveGasPrice) ?? event?.gasPaid ?? null,
+      replacement: transaction.replacement,
+      source: event ? 'both' : 'local'
+    };
+  });
+
+  const chainOnly: ActivityItem[] = Array.from(eventsByHash.values()).map(event => ({
+    hash: event.hash,
+    chainId: event.chainId,
+    kind: 'mint',
+    purpose: `Mint ${event.collectionName} #${event.tokenId}`,
+    status: 'confirmed',
+    timestamp: event.timestamp,
+    blockNumber: event.blockNumber,
+    gasPaid: event.gasPaid,
+    source: 'chain'
+  }));
+
+  return [...tracked, ...chainOnly].sort((a, b) =>
+    (b.blockNumber ?? Infinity) - (a.blockNumber ?? Infinity) ||
+    (b.timestamp ?? 0) - (a.timestamp ?? 0)
+  );
+}
@@ -0,0 +1,104 @@
+/**
+ * Unit Tests for Token Approvals
+ *
+ * Loads an owner's allowances from a fake chain's Approval logs to ensure:
+ * - Only ERC20 (three topic) Approval events are considered, not ERC721 ones
+ * - Each token/spender pair appears once, at its latest approval
+ * - Current allowance() decides what is shown; revoked approvals drop out
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { FakeChain, fakeLog } from '@/test/fakeChain';
+import { ERC20_ABI } from './contracts';
+import { APPROVAL_TOPIC, findApprovalPairs, isUnlimitedAllowance, loadApprovals } from './approvals';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+const FOOM = '0x2222222222222222222222222222222222222222';
+const ROUTER = '0x3333333333333333333333333333333333333333';
+const HAIR = '0xA000000000000000000000000000000000000001';
+const MAX = '0xa000000000000000000000000000000000000002';
+const NFT = '0xb000000000000000000000000000000000000001';
+
+const erc20 = new ethers.utils.Interface(ERC20_ABI);
+const topic = (address: string) => ethers.utils.hexZeroPad(address, 32);
+
+// Current allowances per token and spender
+const ALLOWANCES: Record<string, Record<string, ethers.BigNumber>> = {
+  [ethers.utils.getAddress(HAIR)]: {
+    [FOOM]: ethers.utils.parseEther('3000'),
+    [ROUTER]: ethers.constants.MaxUint256
+  },
+  // Spent or revoked since it was approved
+  [ethers.utils.getAddress(MAX)]: { [FOOM]: ethers.constants.Zero }
+};
+
+const LOGS = [
+  { address: HAIR, blockNumber: 10, topics: [APPROVAL_TOPIC, topic(OWNER), topic(FOOM)] },
+  { address: HAIR, blockNumber: 42, topics: [APPROVAL_TOPIC, topic(OWNER), topic(FOOM)] },
+  { address: HAIR, blockNumber: 20, topics: [APPROVAL_TOPIC, topic(OWNER), topic(ROUTER)] },
+  { address: MAX, blockNumber: 11, topics: [APPROVAL_TOPIC, topic(OWNER), topic(FOOM)] },
+  // ERC721 Approval(owner, approved, tokenId)
+  { address: NFT, blockNumber: 30, topics: [APPROVAL_TOPIC, topic(OWNER), topic(ROUTER), topic('0x07')] }
+];
+
+class ApprovalChain extends FakeChain {
+  logFilters: any[] = [];
+
+  async perform(method: string, params: any): Promise<any> {
+    switch (method) {
+      case 'getBlockNumber':
+        return 100;
+      case 'getLogs':
+        this.logFilters.push(params.filter);
+        return LOGS.map(({ address, blockNumber, topics }, logIndex) => fakeLog({ topics, data: '0x' }, {
+          address, blockNumber, logIndex
+        }));
+      case 'call': {
+        const token = ethers.utils.getAddress(params.transaction.to);
+        const { name, args } = erc20.parseTransaction({ data: params.transaction.data });
+        switch (name) {
+          case 'allowance':
+            return erc20.encodeFunctionResult(name, [ALLOWANCES[token][ethers.utils.getAddress(args.spender)]]);
+          case 'symbol':
+            return erc20.encodeFunctionResult(name, [token === ethers.utils.getAddress(HAIR) ? 'HAIR' : 'MAX']);
+          case 'decimals':
+            return erc20.encodeFunctionResult(name, [18]);
+          default:
+            throw new Error(`unexpected call ${name}`);
+        }
+      }
+      default:
+        return super.perform(method, params);
+    }
+  }
+}
+
+describe('findApprovalPairs', () => {
+  it('keeps the latest ERC20 approval per token and spender', async () => {
+    const provider = new ApprovalChain();
+
+    const pairs = await findApprovalPairs(provider, OWNER);
+
+    expect(provider.logFilters[0].topics).toEqual([APPROVAL_TOPIC, topic(OWNER)]);
+    expect(provider.logFilters[0].address).toBeUndefined();
+    expect(pairs).toEqual([
+      { token: ethers.utils.getAddress(HAIR), spender: FOOM, blockNumber: 42 },
+      { token: ethers.utils.getAddress(HAIR), spender: ROUTER, blockNumber: 20 },
+      { token: ethers.utils.getAddress(MAX), spender: FOOM, blockNumber: 11 }
+    ]);
+  });
+});
+
+describe('loadApprovals', () => {
+  it('returns outstanding allowances with token details', async () => {
+    const approvals = await loadApprovals(new ApprovalChain(), OWNER);
+
+    expect(approvals).toHaveLength(2);
+    expect(approvals[0]).toMatchObject({ symbol: 'HAIR', spender: FOOM, decimals: 18, blockNumber: 42 });
+    expect(approvals[0].allowance).toEqual(ethers.utils.parseEther('3000'));
+    expect(approvals[1]).toMatchObject({ symbol: 'HAIR', spender: ROUTER });
+    expect(isUnlimitedAllowance(approvals[0].allowance)).toBe(false);
+    expect(isUnlimitedAllowance(approvals[1].allowance)).toBe(true);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Token Approvals
+ *
+ * Finds every ERC20 allowance an address has granted by scanning its
+ * Approval events across all contracts, then reads the current allowance()
+ * of each token/spender pair so spent or revoked approvals drop out.
+ * ERC721 Approval events share the same signature but index the token ID
+ * as a fourth topic, so they are told apart by topic count and skipped.
+ */
+
+import { ethers } from "ethers";
+import { ERC20_ABI } from "./contracts";
+import { multicall } from "./multicall";
+import { scanLogs, type LogScanOptions } from "@shared/logs";
+import type { TokenApproval } from "@/types/contracts";
+
+const erc20 = new ethers.utils.Interface(ERC20_ABI);
+
+export const APPROVAL_TOPIC = erc20.getEventTopic('Approval');
+
+// Allowances at or above this are shown as unlimited (MaxUint256 and near it)
+const UNLIMITED_THRESHOLD = ethers.constants.MaxUint256.div(2);
+
+interface ApprovalPair {
+  token: string;
+  spender: string;
+  blockNumber: number;
+}
+
+/**
+ * Find every token/spender pair an owner has emitted an ERC20 Approval for
+ */
+export async function findApprovalPairs(
+  provider: ethers.providers.Provider,
+  owner: string,
+  options?: LogScanOptions
+): Promise<ApprovalPair[]> {
+  const logs = await scanLogs(provider, {
+    topics: [APPROVAL_TOPIC, ethers.utils.hexZeroPad(owner, 32)]
+  }, options);
+
+  const pairs = new Map<string, ApprovalPair>();
+  for (const log of logs) {
+    // ERC721 approvals carry the token ID as an extra indexed topic
+    if (log.topics.length !== 3) continue;
+
+    const token = ethers.utils.getAddress(log.address);
+    const spender = ethers.utils.getAddress(ethers.utils.hexDataSlice(log.topics[2], 12));
+    const key = `${token}:${spender}`;
+    const existing = pairs.get(key);
+
+    if (!existing || existing.blockNumber < log.blockNumber) {
+      pairs.set(key, { token, spender, blockNumber: log.blockNumber });
+    }
+  }
+
+  return Array.from(pairs.values());
+}
+
+/**
+ * Load the owner's outstanding allowances (zero allowances are left out)
+ */
+export async function loadApprovals(
+  provider: ethers.providers.Provider,
+  owner: string,
+  options?: LogScanOptions
+): Promise<TokenApproval[]> {
+  const pairs = await findApprovalPairs(provider, owner, options);
+  if (pairs.length === 0) return [];
+
+  const results = await multicall(provider, pairs.flatMap(({ token, spender }) => {
+    const contract = new ethers.Contract(token, ERC20_ABI, provider);
+    return [
+      { contract, method: 'allowance', args: [owner, spender] },
+      { contract, method: 'symbol' },
+      { contract, method: 'decimals' }
+    ];
+  }));
+
+  const approvals: TokenApproval[] = [];
+  pairs.forEach((pair, index) => {
+    const [allowance, symbol, decimals] = results.slice(index * 3, index * 3 + 3);
+    if (!allowance.success || allowance.value.isZero()) return;
+
+    approvals.push({
+      ...pair,
+      allowance: allowance.value,
+      symbol: symbol.success ? symbol.value : '???',
+      decimals: decimals.success ? decimals.value : 18
+    });
+  });
+
+  return approvals.sort((a, b) => a.symbol.localeCompare(b.symbol) || a.spender.localeCompare(b.spender));
+}
+
+/**
+ * Check whether an allowance is effectively unlimited
+ */
+export function isUnlimitedAllowance(allowance: ethers.BigNumber): boolean {
+  return allowance.gte(UNLIMITED_THRESHOLD);
+}
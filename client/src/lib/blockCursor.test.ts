@@ -0,0 +1,178 @@
+/**
+ * Unit Tests for the Reorg-Safe Block Cursor
+ *
+ * Advances a cursor over a fake chain that can grow and reorganise to ensure:
+ * - Each block is processed once, from the start block to the head
+ * - Checkpoints taken part-way through a range survive an interrupted sync
+ * - A replaced tail is detected by parent hash and rolled back to the fork point
+ * - Reorgs deeper than the kept checkpoints restart from the start block
+ * - Blocks become final after the confirmation depth, and older checkpoints are pruned
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FakeChain, fakeBlock, fakeBlockHash } from '@/test/fakeChain';
+import { BlockCursor, type BlockCursorState, type CursorStore } from '@shared/blockCursor';
+
+class ForkingChain extends FakeChain {
+  hashes: string[] = [];
+
+  constructor(length: number) {
+    super();
+    this.grow(length);
+  }
+
+  get head(): number {
+    return this.hashes.length - 1;
+  }
+
+  grow(blocks: number, fork = 'main') {
+    for (let count = 0; count < blocks; count++) {
+      this.hashes.push(fakeBlockHash(this.hashes.length, fork));
+    }
+  }
+
+  // Replace every block from fromBlock onwards with a competing fork
+  reorg(fromBlock: number, fork: string) {
+    const length = this.hashes.length;
+    this.hashes = this.hashes.slice(0, fromBlock);
+    this.grow(length - fromBlock, fork);
+  }
+
+  async perform(method: string, params: any): Promise<any> {
+    if (method === 'getBlockNumber') return this.head;
+    if (method !== 'getBlock') return super.perform(method, params);
+
+    const number = params.blockTag === 'latest' ? this.head : Number(params.blockTag);
+    if (number > this.head) return null;
+
+    return fakeBlock(number, { hash: this.hashes[number], parentHash: this.hashes[number - 1] });
+  }
+}
+
+class MemoryCursorStore implements CursorStore {
+  cursors = new Map<string, BlockCursorState>();
+
+  async getCursor(key: string) {
+    return this.cursors.get(key);
+  }
+
+  async setCursor(key: string, state: BlockCursorState) {
+    this.cursors.set(key, state);
+  }
+}
+
+/**
+ * Sync a cursor, recording the rollbacks and ranges it asks for
+ */
+async function record(cursor: BlockCursor) {
+  const calls: string[] = [];
+  await cursor.sync({
+    rollback: async fromBlock => { calls.push(`rollback ${fromBlock}`); },
+    process: async (fromBlock, toBlock) => { calls.push(`process ${fromBlock}-${toBlock}`); }
+  });
+  return calls;
+}
+
+describe('BlockCursor', () => {
+  it('processes from the start block to the head, then only new blocks', async () => {
+    const chain = new ForkingChain(101);
+    const store = new MemoryCursorStore();
+    const cursor = new BlockCursor(chain, store, 'test', { startBlock: 10, confirmations: 5 });
+
+    expect(await record(cursor)).toEqual(['process 10-100']);
+    expect(await record(cursor)).toEqual([]);
+
+    chain.grow(20);
+    expect(await record(cursor)).toEqual(['process 101-120']);
+    expect(cursor.position).toEqual({ blockNumber: 120, blockHash: chain.hashes[120] });
+
+    // A fresh cursor resumes from the store
+    const resumed = new BlockCursor(chain, store, 'test', { startBlock: 10, confirmations: 5 });
+    chain.grow(1);
+    expect(await record(resumed)).toEqual(['process 121-121']);
+  });
+
+  it('resumes an interrupted range after its last checkpoint', async () => {
+    const chain = new ForkingChain(101);
+    const store = new MemoryCursorStore();
+    const cursor = new BlockCursor(chain, store, 'test', { confirmations: 5 });
+
+    await expect(cursor.sync({
+      rollback: async () => {},
+      process: async (_, __, checkpoint) => {
+        await checkpoint(40);
+        throw new Error('connection lost');
+      }
+    })).rejects.toThrow('connection lost');
+    expect(cursor.position).toEqual({ blockNumber: 40, blockHash: chain.hashes[40] });
+
+    const resumed = new BlockCursor(chain, store, 'test', { confirmations: 5 });
+    expect(await record(resumed)).toEqual(['process 41-100']);
+  });
+
+  it('marks blocks final after the confirmation depth', async () => {
+    const chain = new ForkingChain(101);
+    const cursor = new BlockCursor(chain, new MemoryCursorStore(), 'test', { confirmations: 12 });
+
+    await record(cursor);
+
+    expect(cursor.isFinal(88)).toBe(true);
+    expect(cursor.isFinal(89)).toBe(false);
+    expect(cursor.isFinal(100)).toBe(false);
+  });
+
+  it('rolls back to the fork point when the tail is replaced', async () => {
+    const chain = new ForkingChain(101);
+    const cursor = new BlockCursor(chain, new MemoryCursorStore(), 'test', { confirmations: 20 });
+
+    await record(cursor);
+    chain.grow(5);
+    await record(cursor);
+
+    // Blocks 103+ replaced: the checkpoint at 100 still holds
+    chain.reorg(103, 'fork');
+    chain.grow(2, 'fork');
+    expect(await record(cursor)).toEqual(['rollback 101', 'process 101-107']);
+    expect(cursor.position).toEqual({ blockNumber: 107, blockHash: chain.hashes[107] });
+  });
+
+  it('detects a reorg at the head when no new blocks arrived', async () => {
+    const chain = new ForkingChain(101);
+    const cursor = new BlockCursor(chain, new MemoryCursorStore(), 'test', { confirmations: 20 });
+
+    await record(cursor);
+    chain.grow(5);
+    await record(cursor);
+
+    chain.reorg(105, 'fork');
+    expect(await record(cursor)).toEqual(['rollback 101', 'process 101-105']);
+  });
+
+  it('restarts from the start block after a reorg deeper than every checkpoint', async () => {
+    const chain = new ForkingChain(101);
+    const cursor = new BlockCursor(chain, new MemoryCursorStore(), 'test', { startBlock: 50, confirmations: 0 });
+
+    await record(cursor);
+    chain.reorg(90, 'fork');
+
+    expect(await record(cursor)).toEqual(['rollback 50', 'process 50-100']);
+  });
+
+  it('keeps only one checkpoint at or below the final block', async () => {
+    const chain = new ForkingChain(101);
+    const store = new MemoryCursorStore();
+    const cursor = new BlockCursor(chain, store, 'test', { confirmations: 10 });
+
+    await record(cursor);
+    for (const blocks of [3, 3, 3, 3]) {
+      chain.grow(blocks);
+      await record(cursor);
+    }
+
+    // Head 112, final up to 102
+    expect(store.cursors.get('test')).toEqual({
+      checkpoints: [100, 103, 106, 109, 112].map(blockNumber => ({ blockNumber, blockHash: chain.hashes[blockNumber] })),
+      finalizedBlock: 102
+    });
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Unit Tests for the Collection Registry
+ *
+ * Guards the declarative collection configs against drift from their ABIs:
+ * - Unique slugs resolvable through getCollection
+ * - Mint, fee and minting-status functions declared in each ABI
+ * - Enumeration functions CollectionPage relies on
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { COLLECTIONS, getCollection } from './collections';
+
+describe('collection registry', () => {
+  it('should have unique slugs resolvable by getCollection', () => {
+    const slugs = COLLECTIONS.map(collection => collection.slug);
+    expect(new Set(slugs).size).toBe(slugs.length);
+
+    for (const collection of COLLECTIONS) {
+      expect(getCollection(collection.slug)).toBe(collection);
+    }
+    expect(getCollection('unknown')).toBeUndefined();
+    expect(getCollection(undefined)).toBeUndefined();
+  });
+
+  it.each(COLLECTIONS.map(collection => [collection.slug, collection] as const))(
+    '%s should declare every function its config references',
+    (_, collection) => {
+      const abi = new ethers.utils.Interface(collection.abi);
+      const referenced = [
+        collection.mint.method,
+        'totalSupply',
+        'tokenURI',
+        ...(collection.mint.enabledMethod ? [collection.mint.enabledMethod] : []),
+        ...collection.mint.cost.map(token => token.feeMethod)
+      ];
+
+      for (const name of referenced) {
+        expect(() => abi.getFunction(name)).not.toThrow();
+      }
+    }
+  );
+
+  it('should only set a wallet-limit revert reason alongside a limit', () => {
+    for (const collection of COLLECTIONS) {
+      if (collection.mint.walletLimitReason) {
+        expect(collection.mint.walletLimit).toBeGreaterThan(0);
+      }
+    }
+  });
+});
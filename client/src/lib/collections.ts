@@ -0,0 +1,139 @@
+/**
+ * Collection Registry
+ *
+ * Declarative configuration for every NFT collection in the playground:
+ * contract, ABI, mint function, mint-cost tokens, per-wallet limit and
+ * branding. CollectionPage renders any entry at /collection/:slug, so adding
+ * a playground contract means adding an entry here rather than a new page.
+ */
+
+import { Flame, Gem } from "lucide-react";
+import { CONTRACTS } from "./contracts";
+import { generateFoomAttributes } from "./foomAttributes";
+import type { CollectionConfig, NetworkContracts } from "@/types/contracts";
+
+export const COLLECTIONS: CollectionConfig[] = [
+  // Free mint, one per wallet
+  {
+    slug: 'wentge',
+    contract: 'WENTGE',
+    abi: CONTRACTS.WENTGE.abi,
+    name: "WENTGE NFT",
+    tokenName: "wen TGE",
+    tagline: "Free mint - One per wallet",
+    summary: "Commemorative NFT celebrating the Hemi blockchain ecosystem. Each wallet can mint one free WENTGE NFT with unique metadata stored entirely on-chain.",
+    description: "WENTGE (wen TGE) is a fully on-chain NFT collection deployed on Hemi mainnet with embedded JPEG images stored directly in the smart contract. Each wallet can mint one WENTGE NFT completely free while minting is enabled.",
+    details: [
+      {
+        title: "Key Features",
+        items: [
+          "Free public mint (one per wallet)",
+          "Royalty-free NFT ownership",
+          "Full ERC-721 transferability",
+          "Base64-encoded JPEG metadata",
+          "Enhanced wallet compatibility"
+        ]
+      },
+      {
+        title: "Technical Details",
+        items: [
+          "Deployed on Hemi Network",
+          "ERC721Enumerable + ERC721Burnable",
+          "On-chain image storage",
+          "OpenZeppelin 4.8.0 security standards",
+          "Event-driven minting and updates"
+        ]
+      }
+    ],
+    emptyHint: "Mint your free NFT above",
+    mint: {
+      method: 'mint',
+      label: "Mint Free WENTGE NFT",
+      cost: [],
+      walletLimit: 1,
+      walletLimitReason: "Only one NFT per address",
+      enabledMethod: 'mintingEnabled'
+    },
+    branding: {
+      icon: Gem,
+      gradient: "from-purple-500 to-pink-500",
+      cardGradient: "from-primary to-blue-600",
+      accentClass: "text-primary",
+      hoverAccentClass: "group-hover:text-primary"
+    }
+  },
+  // Burns HAIR + MAX tokens per mint
+  {
+    slug: 'foom',
+    contract: 'FOOM',
+    abi: CONTRACTS.FOOM.abi,
+    name: "Foom NFT",
+    tokenName: "Foom",
+    tagline: "Burn tokens to mint unique NFTs",
+    summary: "Premium NFT requiring HAIR and MAX token burns. Features dynamic attributes including cosmic energy, mood states, and mineral compositions generated deterministically.",
+    description: "Foom NFT is a unique token-burn minting collection on Hemi mainnet where users create NFTs by burning HAIR and MAX tokens. Each NFT features deterministically generated attributes and fully on-chain JPEG images.",
+    details: [
+      {
+        title: "Minting Process",
+        items: [
+          "Burn 3,000 HAIR tokens",
+          "Burn 100 MAX tokens",
+          "Receive unique Foom NFT",
+          "Deterministic attribute generation",
+          "Full ERC-721 transferability"
+        ]
+      },
+      {
+        title: "Technical Features",
+        items: [
+          "Base64-encoded on-chain images",
+          "ERC721Enumerable + ERC721Burnable",
+          "Royalty-free ownership",
+          "Token ID-based unique attributes",
+          "OpenZeppelin 4.8.0 security"
+        ]
+      }
+    ],
+    emptyHint: "Burn HAIR and MAX tokens to mint your first Foom NFT",
+    mint: {
+      method: 'mint',
+      label: "Mint Foom NFT",
+      cost: [
+        { contract: 'HAIR', symbol: 'HAIR', feeMethod: 'HAIR_TKN_FEE', gradient: "from-purple-500 to-pink-500" },
+        { contract: 'MAX', symbol: 'MAX', feeMethod: 'MAX_TKN_FEE', gradient: "from-blue-500 to-cyan-500" }
+      ]
+    },
+    branding: {
+      icon: Flame,
+      gradient: "from-secondary to-purple-600",
+      cardGradient: "from-secondary to-purple-600",
+      accentClass: "text-secondary",
+      hoverAccentClass: "group-hover:text-secondary"
+    },
+    traits: {
+      generate: generateFoomAttributes,
+      firstTokenId: 1
+    },
+    // The contract stores Paradox Resistance's digit after the point in decimals
+    traitDecimals: 'digit'
+  }
+];
+
+/**
+ * Find a registered collection by its URL slug
+ */
+export function getCollection(slug: string | undefined): CollectionConfig | undefined {
+  return COLLECTIONS.find(collection => collection.slug === slug);
+}
+
+/**
+ * Find the registered collection deployed at an address on the current network
+ */
+export function getCollectionByAddress(
+  address: string,
+  contracts: NetworkContracts
+): CollectionConfig | undefined {
+  return COLLECTIONS.find(collection =>
+    contracts[collection.contract]?.toLowerCase() === address.toLowerCase()
+  );
+}
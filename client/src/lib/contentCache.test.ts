@@ -0,0 +1,182 @@
+/**
+ * Unit Tests for the NFT Content Cache
+ *
+ * Loads a wallet's tokens from a fake collection through an in-memory
+ * IndexedDB to ensure:
+ * - Revisits only re-enumerate ownership; URIs and the image come from cache
+ * - On-chain metadata is decoded once and cached with the token
+ * - The last seen tokens are served when the chain is unreachable
+ * - ImageDataUpdated events move the collection to a new content version
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { FakeChain, fakeBlock, fakeEventLog } from '@/test/fakeChain';
+import { CONTRACTS } from './contracts';
+import { getContentScope, loadCachedTokens, readCachedTokens, syncContentScope } from './contentCache';
+
+const databases = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock('./indexedDb', () => ({
+  idbGet: async (store: string, key: string) => databases.get(`${store}/${key}`),
+  idbPut: async (store: string, key: string, value: unknown) => {
+    databases.set(`${store}/${key}`, structuredClone(value));
+  },
+  indexedDbCursorStore: {
+    getCursor: async (key: string) => databases.get(`blockCursors/${key}`),
+    setCursor: async (key: string, state: unknown) => {
+      databases.set(`blockCursors/${key}`, structuredClone(state));
+    }
+  }
+}));
+
+const NFT = '0x2222222222222222222222222222222222222222';
+const OWNER = '0x1111111111111111111111111111111111111111';
+const CHAIN_ID = 31337;
+const nft = new ethers.utils.Interface(CONTRACTS.WENTGE.abi);
+
+/**
+ * Collection holding tokens 3 and 7 for OWNER, on a 21-block chain
+ */
+class FakeCollection extends FakeChain {
+  head = 20;
+  imageUpdates: number[] = [];
+  offline = false;
+  methodCalls: string[] = [];
+
+  async perform(method: string, params: any): Promise<any> {
+    if (this.offline) throw new Error('network unreachable');
+
+    switch (method) {
+      case 'getBlockNumber':
+        return this.head;
+      case 'getBlock': {
+        const number = params.blockTag === 'latest' ? this.head : Number(params.blockTag);
+        return number > this.head ? null : fakeBlock(number);
+      }
+      case 'getLogs':
+        return this.imageUpdateLogs(Number(params.filter.fromBlock), Number(params.filter.toBlock));
+      case 'call':
+        return this.viewCall(params.transaction.data);
+      default:
+        return super.perform(method, params);
+    }
+  }
+
+  viewCall(data: string) {
+    const { name, args } = nft.parseTransaction({ data });
+    this.methodCalls.push(name);
+
+    switch (name) {
+      case 'tokensOfOwner':
+        return nft.encodeFunctionResult(name, [[3, 7]]);
+      case 'tokenURI':
+        return nft.encodeFunctionResult(name, [`data:application/json;utf8,{"name":"WENTGE #${args.tokenId}"}`]);
+      case 'imageURI':
+        return nft.encodeFunctionResult(name, [`data:image/jpeg;base64,v${this.imageUpdates.length}`]);
+      default:
+        throw new Error(`unexpected call ${name}`);
+    }
+  }
+
+  imageUpdateLogs(fromBlock: number, toBlock: number) {
+    return this.imageUpdates
+      .filter(blockNumber => blockNumber >= fromBlock && blockNumber <= toBlock)
+      .map(blockNumber => fakeEventLog(nft, 'ImageDataUpdated', [`image@${blockNumber}`], {
+        address: NFT,
+        blockNumber
+      }));
+  }
+}
+
+/**
+ * Read the collection through the given ABI, WENTGE's by default
+ */
+function setup(abi: string[] = CONTRACTS.WENTGE.abi) {
+  const provider = new FakeCollection();
+  const contract = new ethers.Contract(NFT, abi, provider);
+  return { provider, contract };
+}
+
+describe('loadCachedTokens', () => {
+  beforeEach(() => databases.clear());
+
+  it('fetches URIs once and serves revisits from the cache', async () => {
+    const { provider, contract } = setup();
+    const scope = await getContentScope(contract, CHAIN_ID);
+
+    const first = await loadCachedTokens(contract, scope, OWNER, 'WENTGE');
+    expect(provider.methodCalls).toEqual(['tokensOfOwner', 'imageURI', 'tokenURI', 'tokenURI']);
+
+    provider.methodCalls = [];
+    const second = await loadCachedTokens(contract, scope, OWNER, 'WENTGE');
+
+    expect(provider.methodCalls).toEqual(['tokensOfOwner']);
+    expect(second).toEqual(first);
+    expect(second.map(token => token.name)).toEqual(['WENTGE #3', 'WENTGE #7']);
+    expect(second[0].imageURI).toBe('data:image/jpeg;base64,v0');
+    expect(second[1].metadata).toEqual({ name: 'WENTGE #7', description: '', image: '' });
+  });
+
+  it('serves the tokens last seen held when offline', async () => {
+    const { provider, contract } = setup();
+    const scope = await getContentScope(contract, CHAIN_ID);
+    const online = await loadCachedTokens(contract, scope, OWNER, 'WENTGE');
+
+    provider.offline = true;
+
+    expect(await loadCachedTokens(contract, scope, OWNER, 'WENTGE')).toEqual(online);
+    expect(await readCachedTokens(scope, OWNER, 'WENTGE')).toEqual(online);
+  });
+
+  it('fails offline when nothing is cached', async () => {
+    const { provider, contract } = setup();
+    provider.offline = true;
+
+    const scope = await getContentScope(contract, CHAIN_ID);
+
+    await expect(loadCachedTokens(contract, scope, OWNER, 'WENTGE')).rejects.toThrow();
+    expect(await readCachedTokens(scope, OWNER, 'WENTGE')).toBeNull();
+  });
+});
+
+describe('syncContentScope', () => {
+  beforeEach(() => databases.clear());
+
+  it('moves to the block of the last image update, invalidating cached content', async () => {
+    const { provider, contract } = setup();
+    const initial = await syncContentScope(contract, CHAIN_ID);
+    await loadCachedTokens(contract, initial, OWNER, 'WENTGE');
+    expect(initial.version).toBe(0);
+
+    provider.imageUpdates = [22, 25];
+    provider.head = 30;
+    provider.methodCalls = [];
+
+    const updated = await syncContentScope(contract, CHAIN_ID);
+    expect(updated.version).toBe(25);
+    expect(await getContentScope(contract, CHAIN_ID)).toEqual(updated);
+    expect(await readCachedTokens(updated, OWNER, 'WENTGE')).toBeNull();
+
+    const tokens = await loadCachedTokens(contract, updated, OWNER, 'WENTGE');
+    expect(provider.methodCalls).toEqual(['tokensOfOwner', 'imageURI', 'tokenURI', 'tokenURI']);
+    expect(tokens[0].imageURI).toBe('data:image/jpeg;base64,v2');
+  });
+
+  it('keeps the last known version when the chain is unreachable', async () => {
+    const { provider, contract } = setup();
+    provider.imageUpdates = [12];
+    await syncContentScope(contract, CHAIN_ID);
+
+    provider.offline = true;
+
+    expect((await syncContentScope(contract, CHAIN_ID)).version).toBe(12);
+  });
+
+  it('never changes for collections without ImageDataUpdated', async () => {
+    const { provider, contract } = setup(CONTRACTS.FOOM.abi);
+    provider.offline = true;
+
+    expect(await syncContentScope(contract, CHAIN_ID)).toEqual({ chainId: CHAIN_ID, contract: NFT, version: 0 });
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * NFT Content Cache
+ *
+ * Keeps token URIs, decoded metadata and a collection's shared image in
+ * IndexedDB, so revisited pages render without refetching or re-decoding and
+ * keep working offline. Entries are keyed by chain, contract, token ID and
+ * content version: the block of the collection's last ImageDataUpdated event,
+ * tracked behind a reorg-safe block cursor. Updating the image therefore
+ * moves every token of the collection to fresh cache keys.
+ */
+
+import { ethers } from "ethers";
+import { BlockCursor } from "@shared/blockCursor";
+import { scanEvents } from "@shared/logs";
+import { idbGet, idbPut, indexedDbCursorStore } from "./indexedDb";
+import { resolveMetadata } from "./metadata";
+import { getOwnedTokenIds, hasEvent, loadTokenURIs } from "./ownedTokens";
+import type { NFTMetadata, NFTToken } from "@/types/contracts";
+
+export interface ContentScope {
+  chainId: number;
+  contract: string;
+  // Block of the last image update, 0 if never updated
+  version: number;
+}
+
+interface CachedToken {
+  tokenURI: string;
+  metadata?: NFTMetadata;
+}
+
+/**
+ * Prefix of a collection's entries on one chain
+ */
+function collectionKey(chainId: number, contract: string): string {
+  return `${chainId}:${contract.toLowerCase()}`;
+}
+
+/**
+ * Key of a collection's content version
+ */
+function versionCacheKey(chainId: number, contract: string): string {
+  return `${collectionKey(chainId, contract)}:version`;
+}
+
+/**
+ * Key of a token's cached content
+ */
+function tokenCacheKey(scope: ContentScope, tokenId: string): string {
+  return `${collectionKey(scope.chainId, scope.contract)}:${scope.version}:token:${tokenId}`;
+}
+
+/**
+ * Key of a collection's cached shared image
+ */
+function imageCacheKey(scope: ContentScope): string {
+  return `${collectionKey(scope.chainId, scope.contract)}:${scope.version}:image`;
+}
+
+/**
+ * Key of the token IDs last seen held by an address
+ */
+function ownerCacheKey(scope: ContentScope, owner: string): string {
+  return `${collectionKey(scope.chainId, scope.contract)}:owner:${owner.toLowerCase()}`;
+}
+
+/**
+ * Read a cache entry; an unavailable cache reads as empty
+ */
+async function readCache<T>(key: string): Promise<T | undefined> {
+  try {
+    return await idbGet<T>('content', key);
+  } catch (error) {
+    console.warn('Unable to read content cache:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Write a cache entry; failing to cache never fails the caller
+ */
+async function writeCache<T>(key: string, value: T): Promise<void> {
+  try {
+    await idbPut('content', key, value);
+  } catch (error) {
+    console.warn('Unable to write content cache:', error);
+  }
+}
+
+/**
+ * Content scope as of the last sync, without touching the network
+ */
+export async function getContentScope(contract: ethers.Contract, chainId: number): Promise<ContentScope> {
+  const version = await readCache<number>(versionCacheKey(chainId, contract.address));
+  return { chainId, contract: contract.address, version: version ?? 0 };
+}
+
+/**
+ * Bring the content version up to date with ImageDataUpdated events
+ * Falls back to the last known version when the chain is unreachable.
+ */
+export async function syncContentScope(contract: ethers.Contract, chainId: number): Promise<ContentScope> {
+  const scope = await getContentScope(contract, chainId);
+
+  // Collections without the event never change their content
+  if (!hasEvent(contract, 'ImageDataUpdated')) return scope;
+
+  const versionKey = versionCacheKey(chainId, contract.address);
+  const cursorKey = `content.${chainId}.${contract.address.toLowerCase()}`;
+  const cursor = new BlockCursor(contract.provider, indexedDbCursorStore, cursorKey);
+
+  try {
+    await cursor.sync({
+      rollback: async fromBlock => {
+        // The reorged update may have been replaced by an older one, so start afresh
+        if (scope.version >= fromBlock) {
+          scope.version = fromBlock;
+          await writeCache(versionKey, scope.version);
+        }
+      },
+      process: async (fromBlock, toBlock) => {
+        const updates = await scanEvents(contract, contract.filters.ImageDataUpdated(), { fromBlock, toBlock });
+        if (updates.length > 0) {
+          scope.version = Math.max(...updates.map(update => update.blockNumber));
+          await writeCache(versionKey, scope.version);
+        }
+      }
+    });
+  } catch (error) {
+    console.warn('Unable to check for content updates:', error);
+  }
+
+  return scope;
+}
+
+/**
+ * Shape cached content into an NFTToken
+ */
+function toToken(scope: ContentScope, namePrefix: string, tokenId: string, imageURI: string, cached: CachedToken): NFTToken {
+  return {
+    tokenId,
+    name: `${namePrefix} #${tokenId}`,
+    image: imageURI,
+    imageURI,
+    tokenURI: cached.tokenURI,
+    metadata: cached.metadata,
+    contractAddress: scope.contract
+  };
+}
+
+/**
+ * The NFTs last seen held by an address, entirely from cache
+ * Returns null unless every token is cached for this content version.
+ */
+export async function readCachedTokens(
+  scope: ContentScope,
+  owner: string,
+  namePrefix: string
+): Promise<NFTToken[] | null> {
+  const tokenIds = await readCache<string[]>(ownerCacheKey(scope, owner));
+  if (!tokenIds) return null;
+
+  const [imageURI, entries] = await Promise.all([
+    readCache<string>(imageCacheKey(scope)),
+    Promise.all(tokenIds.map(tokenId => readCache<CachedToken>(tokenCacheKey(scope, tokenId))))
+  ]);
+  if (entries.some(entry => !entry)) return null;
+
+  return tokenIds.map((tokenId, index) => toToken(scope, namePrefix, tokenId, imageURI ?? '', entries[index]!));
+}
+
+/**
+ * Load the NFTs held by an address, fetching only what the cache lacks
+ * When the chain is unreachable, the tokens last seen held are served from cache.
+ */
+export async function loadCachedTokens(
+  contract: ethers.Contract,
+  scope: ContentScope,
+  owner: string,
+  namePrefix: string
+): Promise<NFTToken[]> {
+  let tokenIds: string[];
+  try {
+    const owned = await getOwnedTokenIds(contract, owner);
+    tokenIds = owned.tokenIds.map(tokenId => tokenId.toString());
+    await writeCache(ownerCacheKey(scope, owner), tokenIds);
+  } catch (error) {
+    const cached = await readCachedTokens(scope, owner, namePrefix);
+    if (!cached) throw error;
+    console.warn('Serving cached tokens:', error);
+    return cached;
+  }
+
+  if (tokenIds.length === 0) return [];
+
+  const [cachedImage, entries] = await Promise.all([
+    readCache<string>(imageCacheKey(scope)),
+    Promise.all(tokenIds.map(tokenId => readCache<CachedToken>(tokenCacheKey(scope, tokenId))))
+  ]);
+  const missing = tokenIds.filter((_, index) => !entries[index]);
+
+  let imageURI = cachedImage ?? '';
+  if (missing.length > 0 || cachedImage === undefined) {
+    const loaded = await loadTokenURIs(contract, missing, cachedImage === undefined);
+
+    if (loaded.imageURI !== null) {
+      imageURI = loaded.imageURI;
+      await writeCache(imageCacheKey(scope), imageURI);
+    }
+
+    await Promise.all(missing.map(async (tokenId, index) => {
+      const tokenURI = loaded.tokenURIs[index];
+      // On-chain metadata is decoded once here; remote metadata is cached by the card
+      const metadata = tokenURI.startsWith('data:')
+        ? await resolveMetadata(tokenURI, { tokenId }).catch(() => undefined)
+        : undefined;
+      const entry: CachedToken = { tokenURI, metadata };
+
+      entries[tokenIds.indexOf(tokenId)] = entry;
+      await writeCache(tokenCacheKey(scope, tokenId), entry);
+    }));
+  }
+
+  return tokenIds.map((tokenId, index) => toToken(scope, namePrefix, tokenId, imageURI, entries[index]!));
+}
+
+/**
+ * Cache metadata resolved elsewhere, e.g. fetched from IPFS by a card
+ */
+export async function cacheTokenMetadata(
+  scope: ContentScope,
+  tokenId: string,
+  tokenURI: string,
+  metadata: NFTMetadata
+): Promise<void> {
+  await writeCache<CachedToken>(tokenCacheKey(scope, tokenId), { tokenURI, metadata });
+}
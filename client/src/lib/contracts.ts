@@ -1,9 +1,10 @@
 /**
  * Contract Definitions
  * 
- * Contains contract addresses, ABIs, and network configuration for smart contracts
- * deployed on Hemi mainnet (Chain ID 43111). Includes WENTGE NFT, Foom NFT,
- * and ERC20 token contracts (HAIR, MAX).
+ * Contains contract ABIs and Hemi mainnet (Chain ID 43111) addresses for the
+ * WENTGE NFT, Foom NFT, and ERC20 token contracts (HAIR, MAX). Per-network
+ * deployment addresses and chain configuration live in the network registry
+ * (lib/networks.ts).
  */
 
 // Contract addresses and ABIs on Hemi mainnet (Chain ID 43111)
@@ -20,8 +21,14 @@ export const CONTRACTS = {
       "function totalSupply() view returns (uint256)",
       "function tokensOfOwner(address owner) view returns (uint256[])",
       "function mintingEnabled() view returns (bool)",
+      "function ownerOf(uint256 tokenId) view returns (address)",
       "function supportsInterface(bytes4 interfaceId) view returns (bool)",
-      "event Minted(address indexed to, uint256 tokenId)"
+      "function royaltyInfo(uint256 tokenId, uint256 salePrice) view returns (address receiver, uint256 royaltyAmount)",
+      "function safeTransferFrom(address from, address to, uint256 tokenId)",
+      "function burn(uint256 tokenId)",
+      "event Minted(address indexed to, uint256 tokenId)",
+      "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+      "event ImageDataUpdated(string newImageData)"
     ]
   },
   FOOM: {
@@ -37,8 +44,13 @@ export const CONTRACTS = {
       "function tokensOfOwner(address owner) view returns (uint256[])",
       "function HAIR_TKN_FEE() view returns (uint256)",
       "function MAX_TKN_FEE() view returns (uint256)",
+      "function ownerOf(uint256 tokenId) view returns (address)",
       "function supportsInterface(bytes4 interfaceId) view returns (bool)",
-      "event Minted(address indexed to, uint256 tokenId)"
+      "function royaltyInfo(uint256 tokenId, uint256 salePrice) view returns (address receiver, uint256 royaltyAmount)",
+      "function safeTransferFrom(address from, address to, uint256 tokenId)",
+      "function burn(uint256 tokenId)",
+      "event Minted(address indexed to, uint256 tokenId)",
+      "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)"
     ]
   },
   // ERC20 token contracts required for Foom NFT minting
@@ -70,15 +82,36 @@ export const ERC20_ABI = [
   "event Approval(address indexed owner, address indexed spender, uint256 value)"
 ];
 
-// Hemi mainnet configuration (Chain ID 43111)
-export const HEMI_NETWORK = {
-  chainId: 43111,
-  name: "Hemi Network",
-  rpcUrl: "https://rpc.hemi.network/rpc",
-  blockExplorer: "https://explorer.hemi.xyz",
-  nativeCurrency: {
-    name: "ETH",
-    symbol: "ETH",
-    decimals: 18
-  }
-};
+// Standard ERC721 ABI (with metadata and EIP-2981 royalties) for unregistered collections
+export const ERC721_ABI = [
+  "function balanceOf(address owner) view returns (uint256)",
+  "function ownerOf(uint256 tokenId) view returns (address)",
+  "function tokenURI(uint256 tokenId) view returns (string)",
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+  "function royaltyInfo(uint256 tokenId, uint256 salePrice) view returns (address receiver, uint256 royaltyAmount)",
+  "function safeTransferFrom(address from, address to, uint256 tokenId)",
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)"
+];
+
+// EIP-2612 permit extension (with the optional version() getter)
+export const ERC20_PERMIT_ABI = [
+  "function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+  "function nonces(address owner) view returns (uint256)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+  "function name() view returns (string)",
+  "function version() view returns (string)"
+];
+
+// Custom errors from OpenZeppelin 5 token contracts, used to decode revert data
+export const COMMON_ERRORS_ABI = [
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC2612ExpiredSignature(uint256 deadline)",
+  "error ERC2612InvalidSigner(address signer, address owner)",
+  "error ERC721NonexistentToken(uint256 tokenId)",
+  "error ERC721IncorrectOwner(address sender, uint256 tokenId, address owner)",
+  "error ERC721InsufficientApproval(address operator, uint256 tokenId)",
+  "error OwnableUnauthorizedAccount(address account)"
+];
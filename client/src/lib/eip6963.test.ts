@@ -0,0 +1,72 @@
+/**
+ * Unit Tests for EIP-6963 Provider Discovery
+ *
+ * Checks the pure helpers behind the wallet picker:
+ * - Announcements are validated, including the provider's event methods
+ * - Re-announced wallets replace their entry by RDNS instead of duplicating
+ * - Wallet types round-trip to the announcing wallet's RDNS
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getWalletRdns, isProviderDetail, toInjectedWalletType, upsertProvider } from './eip6963';
+import type { EIP6963ProviderDetail } from '@/types/contracts';
+
+/**
+ * Announcement for a wallet with a working EIP-1193 provider
+ */
+function detail(rdns: string, uuid = `${rdns}-1`): EIP6963ProviderDetail {
+  return {
+    info: { uuid, name: rdns, icon: 'data:image/svg+xml,<svg/>', rdns },
+    provider: {
+      request: async () => null,
+      on: () => undefined,
+      removeListener: () => undefined
+    }
+  };
+}
+
+describe('isProviderDetail', () => {
+  it('accepts complete announcements', () => {
+    expect(isProviderDetail(detail('io.metamask'))).toBe(true);
+  });
+
+  it('rejects missing info fields', () => {
+    const { rdns: _, ...info } = detail('io.metamask').info;
+
+    expect(isProviderDetail({ ...detail('io.metamask'), info })).toBe(false);
+    expect(isProviderDetail({ provider: detail('io.metamask').provider })).toBe(false);
+    expect(isProviderDetail(undefined)).toBe(false);
+  });
+
+  it('rejects providers the hook cannot subscribe to', () => {
+    const { provider, info } = detail('io.rabby');
+
+    expect(isProviderDetail({ info, provider: { request: provider.request } })).toBe(false);
+    expect(isProviderDetail({ info, provider: { request: provider.request, on: provider.on } })).toBe(false);
+    expect(isProviderDetail({ info, provider: { ...provider, request: 'eth_accounts' } })).toBe(false);
+  });
+});
+
+describe('upsertProvider', () => {
+  it('appends new wallets in announcement order', () => {
+    const providers = upsertProvider(upsertProvider([], detail('io.metamask')), detail('io.rabby'));
+
+    expect(providers.map(entry => entry.info.rdns)).toEqual(['io.metamask', 'io.rabby']);
+  });
+
+  it('replaces a re-announced wallet in place without mutating the list', () => {
+    const original = [detail('io.metamask'), detail('io.rabby')];
+    const updated = upsertProvider(original, detail('io.metamask', 'io.metamask-2'));
+
+    expect(updated.map(entry => entry.info.uuid)).toEqual(['io.metamask-2', 'io.rabby-1']);
+    expect(original[0].info.uuid).toBe('io.metamask-1');
+  });
+});
+
+describe('getWalletRdns', () => {
+  it('recovers the RDNS of discovered wallets only', () => {
+    expect(getWalletRdns(toInjectedWalletType('io.rabby'))).toBe('io.rabby');
+    expect(getWalletRdns('walletconnect')).toBeNull();
+    expect(getWalletRdns(null)).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * EIP-6963 Multi Injected Provider Discovery
+ *
+ * Collects the wallets that announce themselves via `eip6963:announceProvider`
+ * so users with several browser extensions (MetaMask, Rabby, ...) can pick one
+ * explicitly instead of getting whichever injected `window.ethereum` last.
+ */
+
+import type { EIP6963ProviderDetail, InjectedWalletType, WalletType } from "@/types/contracts";
+
+const ANNOUNCE_EVENT = 'eip6963:announceProvider';
+const REQUEST_EVENT = 'eip6963:requestProvider';
+
+/**
+ * Listen for wallet announcements and ask installed wallets to announce
+ * Returns a function that stops listening.
+ */
+export function discoverInjectedProviders(
+  onAnnounce: (detail: EIP6963ProviderDetail) => void
+): () => void {
+  if (typeof window === 'undefined') {
+    return () => {};
+  }
+
+  const handleAnnounce = (event: Event) => {
+    const detail = (event as CustomEvent<EIP6963ProviderDetail>).detail;
+    if (isProviderDetail(detail)) {
+      onAnnounce(Object.freeze(detail));
+    }
+  };
+
+  window.addEventListener(ANNOUNCE_EVENT, handleAnnounce);
+  window.dispatchEvent(new Event(REQUEST_EVENT));
+
+  return () => window.removeEventListener(ANNOUNCE_EVENT, handleAnnounce);
+}
+
+/**
+ * Validate an announcement payload before trusting it, including the
+ * event methods the wallet hook subscribes with
+ */
+export function isProviderDetail(detail: any): detail is EIP6963ProviderDetail {
+  return Boolean(
+    detail?.info &&
+    typeof detail.info.uuid === 'string' &&
+    typeof detail.info.name === 'string' &&
+    typeof detail.info.icon === 'string' &&
+    typeof detail.info.rdns === 'string' &&
+    typeof detail.provider?.request === 'function' &&
+    typeof detail.provider.on === 'function' &&
+    typeof detail.provider.removeListener === 'function'
+  );
+}
+
+/**
+ * Add or replace an announced provider, keyed by RDNS
+ */
+export function upsertProvider(
+  providers: EIP6963ProviderDetail[],
+  detail: EIP6963ProviderDetail
+): EIP6963ProviderDetail[] {
+  const index = providers.findIndex(entry => entry.info.rdns === detail.info.rdns);
+  if (index === -1) {
+    return [...providers, detail];
+  }
+  const next = [...providers];
+  next[index] = detail;
+  return next;
+}
+
+/**
+ * Wallet type used to connect a discovered provider
+ */
+export function toInjectedWalletType(rdns: string): InjectedWalletType {
+  return `eip6963:${rdns}`;
+}
+
+/**
+ * RDNS of a discovered-provider wallet type (null for other wallet types)
+ */
+export function getWalletRdns(walletType: WalletType | null): string | null {
+  return walletType?.startsWith('eip6963:') ? walletType.slice('eip6963:'.length) : null;
+}
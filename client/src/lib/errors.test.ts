@@ -0,0 +1,199 @@
+/**
+ * Unit Tests for Error Decoding
+ *
+ * Runs decodeError against error shapes captured from MetaMask, WalletConnect,
+ * Anvil/Hardhat JSON-RPC and ethers v5 to ensure:
+ * - User rejections are recognised however deeply they are wrapped
+ * - Error(string), Panic(uint256) and custom errors decode from revert data
+ * - Funds, nonce and RPC failures are classified, not string-matched by pages
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { decodeError, decodeRevertData, isRevertReason } from './errors';
+import { parseContractError } from './web3';
+
+const abiCoder = ethers.utils.defaultAbiCoder;
+
+// Revert payloads as returned by eth_call / eth_estimateGas
+const ONE_PER_ADDRESS = '0x08c379a0' + abiCoder.encode(['string'], ['Only one NFT per address']).slice(2);
+const HAIR_TRANSFER_FAILED = '0x08c379a0' + abiCoder.encode(['string'], ['HAIR token transfer failed']).slice(2);
+const PANIC_OVERFLOW = '0x4e487b71' + abiCoder.encode(['uint256'], [0x11]).slice(2);
+const INSUFFICIENT_BALANCE = new ethers.utils.Interface([
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)"
+]).encodeErrorResult('ERC20InsufficientBalance', [
+  '0x1111111111111111111111111111111111111111',
+  0,
+  ethers.utils.parseEther('3000')
+]);
+
+const fixtures = {
+  // ethers v5 wrapping a MetaMask rejection (eth_sendTransaction)
+  metamaskRejected: {
+    code: 'ACTION_REJECTED',
+    action: 'sendTransaction',
+    reason: 'user rejected transaction',
+    message: 'user rejected transaction (action="sendTransaction", reason="rejected", code=ACTION_REJECTED, version=providers/5.8.0)',
+    error: { code: 4001, message: 'MetaMask Tx Signature: User denied transaction signature.' }
+  },
+  // WalletConnect v2 relays the rejection without an EIP-1193 code
+  walletConnectRejected: {
+    message: 'User rejected the request.',
+    code: 5000
+  },
+  // MetaMask estimateGas failure, revert data under data.originalError
+  metamaskRevert: {
+    code: 'UNPREDICTABLE_GAS_LIMIT',
+    reason: 'cannot estimate gas; transaction may fail or may require manual gas limit',
+    error: {
+      code: -32603,
+      message: 'Internal JSON-RPC error.',
+      data: {
+        code: 3,
+        message: 'execution reverted: Only one NFT per address',
+        data: ONE_PER_ADDRESS,
+        originalError: { code: 3, data: ONE_PER_ADDRESS, message: 'execution reverted: Only one NFT per address' }
+      }
+    }
+  },
+  // JsonRpcProvider against Anvil: the reply is only present as a JSON body
+  anvilRevertBody: {
+    reason: 'processing response error',
+    code: 'SERVER_ERROR',
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 42,
+      error: { code: 3, message: 'execution reverted: HAIR token transfer failed', data: HAIR_TRANSFER_FAILED }
+    }),
+    error: { code: 3, data: HAIR_TRANSFER_FAILED }
+  },
+  // callStatic with revert data at the top level
+  callStaticPanic: {
+    code: 'CALL_EXCEPTION',
+    reason: null,
+    method: 'mint()',
+    data: PANIC_OVERFLOW,
+    message: 'call revert exception'
+  },
+  // OpenZeppelin 5 custom error from an ERC20 transferFrom
+  customError: {
+    code: 'CALL_EXCEPTION',
+    data: INSUFFICIENT_BALANCE,
+    message: 'call revert exception'
+  },
+  // Node message only, no revert data (public Hemi RPC)
+  messageOnlyRevert: {
+    code: -32000,
+    message: 'execution reverted: Minting is disabled'
+  },
+  // Mined transaction with status 0
+  receiptFailure: {
+    code: 'CALL_EXCEPTION',
+    reason: 'transaction failed',
+    message: 'transaction failed [ See: https://links.ethers.org/v5-errors-CALL_EXCEPTION ]',
+    receipt: { status: 0 }
+  },
+  insufficientFunds: {
+    code: 'INSUFFICIENT_FUNDS',
+    message: 'insufficient funds for intrinsic transaction cost',
+    error: { code: -32000, message: 'insufficient funds for gas * price + value' }
+  },
+  nonceTooLow: {
+    code: 'NONCE_EXPIRED',
+    message: 'nonce has already been used',
+    error: { code: -32000, message: 'nonce too low' }
+  },
+  replacementUnderpriced: {
+    code: -32000,
+    message: 'replacement transaction underpriced'
+  },
+  rpcInternal: {
+    code: -32603,
+    message: 'Internal JSON-RPC error.'
+  },
+  networkDown: {
+    code: 'NETWORK_ERROR',
+    reason: 'could not detect network',
+    event: 'noNetwork'
+  }
+};
+
+describe('decodeError', () => {
+  it('recognises user rejections', () => {
+    expect(decodeError(fixtures.metamaskRejected).type).toBe('user-rejected');
+    expect(decodeError(fixtures.walletConnectRejected).type).toBe('user-rejected');
+    expect(decodeError({ code: 4001, message: 'User rejected the request.' }).type).toBe('user-rejected');
+  });
+
+  it('decodes Error(string) from nested MetaMask revert data', () => {
+    const decoded = decodeError(fixtures.metamaskRevert);
+
+    expect(decoded).toMatchObject({ type: 'revert', kind: 'error', reason: 'Only one NFT per address' });
+    expect(isRevertReason(decoded, 'Only one NFT per address')).toBe(true);
+  });
+
+  it('decodes revert data from a JSON-RPC body', () => {
+    expect(decodeError(fixtures.anvilRevertBody)).toMatchObject({
+      type: 'revert',
+      reason: 'HAIR token transfer failed',
+      message: 'HAIR token transfer failed'
+    });
+  });
+
+  it('decodes Panic(uint256)', () => {
+    expect(decodeError(fixtures.callStaticPanic)).toMatchObject({
+      type: 'revert',
+      kind: 'panic',
+      panicCode: 0x11,
+      reason: 'Arithmetic overflow or underflow'
+    });
+  });
+
+  it('decodes custom errors against registered ABIs', () => {
+    const decoded = decodeError(fixtures.customError);
+
+    expect(decoded).toMatchObject({ type: 'revert', kind: 'custom', errorName: 'ERC20InsufficientBalance' });
+    if (decoded.type === 'revert') {
+      expect(decoded.errorArgs?.[2]).toEqual(ethers.utils.parseEther('3000'));
+    }
+  });
+
+  it('falls back to the node message when there is no revert data', () => {
+    expect(decodeError(fixtures.messageOnlyRevert)).toMatchObject({
+      type: 'revert',
+      reason: 'Minting is disabled'
+    });
+    expect(decodeError(fixtures.receiptFailure)).toMatchObject({
+      type: 'revert',
+      kind: 'unknown',
+      message: 'Transaction reverted'
+    });
+  });
+
+  it('classifies funds, nonce and RPC failures', () => {
+    expect(decodeError(fixtures.insufficientFunds).type).toBe('insufficient-funds');
+    expect(decodeError(fixtures.nonceTooLow).type).toBe('nonce-conflict');
+    expect(decodeError(fixtures.replacementUnderpriced).type).toBe('nonce-conflict');
+    expect(decodeError(fixtures.rpcInternal)).toMatchObject({ type: 'rpc', code: -32603 });
+    expect(decodeError(fixtures.networkDown)).toMatchObject({ type: 'rpc', code: 'NETWORK_ERROR' });
+  });
+
+  it('keeps the message of anything it cannot classify', () => {
+    expect(decodeError(new Error('something odd'))).toEqual({ type: 'unknown', message: 'something odd' });
+    expect(decodeError('plain string').message).toBe('plain string');
+    expect(decodeError(undefined).message).toBe('Unknown error occurred');
+  });
+});
+
+describe('decodeRevertData', () => {
+  it('reports unknown selectors without throwing', () => {
+    expect(decodeRevertData('0xdeadbeef')).toEqual({ kind: 'unknown', reason: null, data: '0xdeadbeef' });
+  });
+});
+
+describe('parseContractError', () => {
+  it('returns the decoded message', () => {
+    expect(parseContractError(fixtures.metamaskRejected)).toBe('Transaction was cancelled by user');
+    expect(parseContractError(fixtures.metamaskRevert)).toBe('Only one NFT per address');
+  });
+});
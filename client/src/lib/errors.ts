@@ -0,0 +1,242 @@
+/**
+ * Error Decoding
+ *
+ * Turns the errors thrown by wallets, RPC nodes and ethers v5 into a typed
+ * union the UI can switch on. Nested error wrappers (ethers, MetaMask,
+ * WalletConnect, JSON-RPC bodies) are unwrapped to find the underlying code
+ * and revert data, which is decoded as Error(string), Panic(uint256) or a
+ * custom error from any registered ABI.
+ */
+
+import { ethers } from "ethers";
+import { COMMON_ERRORS_ABI, CONTRACTS, ERC20_ABI } from "./contracts";
+
+export type RevertKind = 'error' | 'panic' | 'custom' | 'unknown';
+
+export interface DecodedRevert {
+  kind: RevertKind;
+  // Revert reason, panic description or custom error signature
+  reason: string | null;
+  errorName?: string;
+  errorArgs?: unknown[];
+  panicCode?: number;
+  data?: string;
+}
+
+export type DecodedError =
+  | { type: 'user-rejected'; message: string }
+  | { type: 'insufficient-funds'; message: string }
+  | ({ type: 'revert'; message: string } & DecodedRevert)
+  | { type: 'nonce-conflict'; message: string }
+  | { type: 'rpc'; message: string; code?: number | string }
+  | { type: 'unknown'; message: string };
+
+export type DecodedErrorType = DecodedError['type'];
+
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+// Solidity panic codes (see the Solidity docs, "Panic via assert")
+const PANIC_REASONS: Record<number, string> = {
+  0x01: 'Assertion failed',
+  0x11: 'Arithmetic overflow or underflow',
+  0x12: 'Division or modulo by zero',
+  0x21: 'Invalid enum value',
+  0x22: 'Invalid storage byte array encoding',
+  0x31: 'pop() on an empty array',
+  0x32: 'Array index out of bounds',
+  0x41: 'Out of memory',
+  0x51: 'Call to an uninitialized function'
+};
+
+// JSON-RPC and ethers codes for transport or node failures
+const RPC_ERROR_CODES = new Set<number | string>([
+  -32603, -32602, -32601, -32600, -32700, -32005, -32002,
+  ethers.errors.SERVER_ERROR,
+  ethers.errors.NETWORK_ERROR,
+  ethers.errors.TIMEOUT
+]);
+
+const NONCE_ERROR_CODES = new Set<number | string>([
+  ethers.errors.NONCE_EXPIRED,
+  ethers.errors.REPLACEMENT_UNDERPRICED
+]);
+
+const errorInterfaces: ethers.utils.Interface[] = [];
+
+/**
+ * Register an ABI whose custom errors should be decoded
+ */
+export function registerErrorAbi(abi: ReadonlyArray<string | ethers.utils.Fragment>) {
+  const iface = new ethers.utils.Interface(abi as any);
+  if (Object.keys(iface.errors).length > 0) {
+    errorInterfaces.push(iface);
+  }
+}
+
+[CONTRACTS.WENTGE.abi, CONTRACTS.FOOM.abi, ERC20_ABI, COMMON_ERRORS_ABI].forEach(registerErrorAbi);
+
+/**
+ * Flatten an error and every error nested inside it
+ * ethers v5 wraps provider errors in .error, MetaMask nests revert data in
+ * .data.originalError, and JsonRpcProvider keeps the raw reply in .body.
+ */
+function unwrapError(error: unknown): any[] {
+  const chain: any[] = [];
+  const queue: unknown[] = [error];
+  const seen = new Set<unknown>();
+
+  while (queue.length > 0 && chain.length < 20) {
+    let current: any = queue.shift();
+
+    if (typeof current === 'string') {
+      try {
+        current = JSON.parse(current);
+      } catch {
+        continue;
+      }
+    }
+    if (!current || typeof current !== 'object' || seen.has(current)) continue;
+
+    seen.add(current);
+    chain.push(current);
+    queue.push(current.error, current.originalError, current.cause, current.info, current.body);
+    if (current.data && typeof current.data === 'object') {
+      queue.push(current.data);
+    }
+  }
+
+  return chain;
+}
+
+/**
+ * Find revert data (a hex string holding at least a selector) anywhere in the chain
+ */
+function findRevertData(chain: any[]): string | null {
+  for (const node of chain) {
+    for (const candidate of [node.data, node.data?.data]) {
+      if (typeof candidate === 'string' && /^0x[0-9a-fA-F]*$/.test(candidate) && candidate.length >= 10) {
+        return candidate;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Decode raw revert data
+ */
+export function decodeRevertData(data: string): DecodedRevert {
+  const selector = data.slice(0, 10).toLowerCase();
+
+  try {
+    if (selector === ERROR_STRING_SELECTOR) {
+      const [reason] = ethers.utils.defaultAbiCoder.decode(['string'], ethers.utils.hexDataSlice(data, 4));
+      return { kind: 'error', reason, data };
+    }
+
+    if (selector === PANIC_SELECTOR) {
+      const [code] = ethers.utils.defaultAbiCoder.decode(['uint256'], ethers.utils.hexDataSlice(data, 4));
+      const panicCode = code.toNumber();
+      return {
+        kind: 'panic',
+        reason: PANIC_REASONS[panicCode] ?? `Panic 0x${panicCode.toString(16)}`,
+        panicCode,
+        data
+      };
+    }
+  } catch {
+    return { kind: 'unknown', reason: null, data };
+  }
+
+  for (const iface of errorInterfaces) {
+    try {
+      const parsed = iface.parseError(data);
+      return {
+        kind: 'custom',
+        reason: parsed.signature,
+        errorName: parsed.name,
+        errorArgs: Array.from(parsed.args),
+        data
+      };
+    } catch {
+      // Not one of this ABI's errors
+    }
+  }
+
+  return { kind: 'unknown', reason: null, data };
+}
+
+// Placeholder reasons ethers attaches to CALL_EXCEPTION when nothing was decoded
+const GENERIC_REVERT_REASONS = new Set(['call revert exception', 'transaction failed', 'missing revert data in call exception']);
+
+/**
+ * Extract a revert reason from node messages such as "execution reverted: ..."
+ */
+function findRevertMessage(chain: any[]): string | null {
+  for (const node of chain) {
+    if (node.code === ethers.errors.CALL_EXCEPTION && typeof node.reason === 'string' && !GENERIC_REVERT_REASONS.has(node.reason)) {
+      return node.reason;
+    }
+    const match = typeof node.message === 'string' && node.message.match(/execution reverted:\s*([^"\n]+?)(?:"|\n|$)/);
+    if (match) return match[1].trim();
+  }
+  return null;
+}
+
+/**
+ * Classify any thrown value into a typed error
+ */
+export function decodeError(error: unknown): DecodedError {
+  const chain = unwrapError(error);
+  const codes = chain.map(node => node.code).filter(code => code !== undefined);
+  const messages = chain.map(node => node.message).filter((message): message is string => typeof message === 'string');
+  const messageMatches = (pattern: RegExp) => messages.some(message => pattern.test(message));
+
+  if (codes.includes(4001) || codes.includes(ethers.errors.ACTION_REJECTED) || messageMatches(/user (rejected|denied)/i)) {
+    return { type: 'user-rejected', message: 'Transaction was cancelled by user' };
+  }
+
+  if (codes.includes(ethers.errors.INSUFFICIENT_FUNDS) || messageMatches(/insufficient funds/i)) {
+    return { type: 'insufficient-funds', message: 'Insufficient funds for gas and value' };
+  }
+
+  if (codes.some(code => NONCE_ERROR_CODES.has(code)) ||
+      messageMatches(/nonce too low|nonce has already been used|replacement transaction underpriced|already known/i)) {
+    return { type: 'nonce-conflict', message: 'Transaction nonce conflicts with a pending transaction' };
+  }
+
+  const revertData = findRevertData(chain);
+  if (revertData) {
+    const revert = decodeRevertData(revertData);
+    return { type: 'revert', message: revert.reason ?? 'Transaction reverted', ...revert };
+  }
+
+  const revertMessage = findRevertMessage(chain);
+  if (revertMessage || codes.includes(ethers.errors.CALL_EXCEPTION) || messageMatches(/execution reverted/i)) {
+    return {
+      type: 'revert',
+      message: revertMessage ?? 'Transaction reverted',
+      kind: revertMessage ? 'error' : 'unknown',
+      reason: revertMessage
+    };
+  }
+
+  const rpcCode = codes.find(code => RPC_ERROR_CODES.has(code) || (typeof code === 'number' && code <= -32000 && code >= -32099));
+  if (rpcCode !== undefined) {
+    return { type: 'rpc', message: 'The RPC node failed to process the request', code: rpcCode };
+  }
+
+  const first = chain[0];
+  return {
+    type: 'unknown',
+    message: first?.reason ?? first?.message ?? (typeof error === 'string' ? error : 'Unknown error occurred')
+  };
+}
+
+/**
+ * Check whether an error is a revert with the given reason string
+ */
+export function isRevertReason(decoded: DecodedError, reason: string): boolean {
+  return decoded.type === 'revert' && decoded.reason === reason;
+}
@@ -0,0 +1,88 @@
+/**
+ * Unit Tests for the Foom Attribute Generator
+ *
+ * Compares the port against tokenURI output built exactly as Foom.sol
+ * concatenates it (then base64-encoded and decoded like a wallet would) to
+ * ensure:
+ * - Every trait and display field matches the contract for a spread of IDs
+ * - Token IDs beyond the JavaScript safe integer range are handled
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  FOOM_MOODS,
+  FOOM_PRIMARY_MINERALS,
+  FOOM_SECONDARY_MINERALS,
+  generateFoomAttributes
+} from './foomAttributes';
+
+/**
+ * Foom.sol's tokenURI for a token, with uint256 arithmetic done in BigNumber
+ */
+function onChainTokenURI(tokenId: ethers.BigNumber): string {
+  const cosmicEnergy = tokenId.mul(17).mod(100).add(1);
+  const moodIndex = tokenId.mod(8).toNumber();
+  const frequency = tokenId.mod(97).add(432);
+  const paradoxValue = tokenId.mul(31).add(17).mod(1000);
+  const paradoxWhole = paradoxValue.div(10);
+  const paradoxDecimal = paradoxValue.mod(10);
+  const primaryIndex = tokenId.mod(10).toNumber();
+  const secondaryIndex = tokenId.div(10).mod(10).toNumber();
+  const primaryPercent = tokenId.mod(21).add(60);
+  const secondaryPercent = ethers.BigNumber.from(100).sub(primaryPercent);
+
+  const mineralComposition = primaryPercent.toString() + "% " + FOOM_PRIMARY_MINERALS[primaryIndex] +
+    " / " + secondaryPercent.toString() + "% " + FOOM_SECONDARY_MINERALS[secondaryIndex];
+
+  const attributesJson =
+    '[{"trait_type":"Cosmic Energy","value":' + cosmicEnergy.toString() +
+    '},{"trait_type":"Mood","value":"' + FOOM_MOODS[moodIndex] +
+    '"},{"trait_type":"Resonance Frequency","value":' + frequency.toString() +
+    ',"display_type":"number","unit":"Hz' +
+    '"},{"trait_type":"Paradox Resistance","value":' + paradoxWhole.toString() +
+    ',"display_type":"number","max_value":100,"decimals":' + paradoxDecimal.toString() +
+    '},{"trait_type":"Mineral Composition","value":"' + mineralComposition + '"}]';
+
+  const metadata = '{"name":"Foom #' + tokenId.toString() +
+    '", "description":"Foom NFT - Minted by burning HAIR and MAX tokens", "image":"' +
+    'data:image/jpeg;base64,/9j/' + '", "attributes":' + attributesJson + '}';
+
+  return 'data:application/json;base64,' + Buffer.from(metadata).toString('base64');
+}
+
+/**
+ * Attributes from a tokenURI, decoded like NFTCard does
+ */
+function decodeAttributes(tokenURI: string) {
+  const json = atob(tokenURI.replace('data:application/json;base64,', ''));
+  return JSON.parse(json).attributes;
+}
+
+describe('generateFoomAttributes', () => {
+  const tokenIds = [1, 2, 7, 8, 9, 10, 42, 96, 97, 99, 100, 123, 420, 999, 1000, 4321, 65535];
+
+  it.each(tokenIds)('matches the on-chain attributes of token %i', tokenId => {
+    const expected = decodeAttributes(onChainTokenURI(ethers.BigNumber.from(tokenId)));
+
+    expect(generateFoomAttributes(tokenId)).toEqual(expected);
+  });
+
+  it('derives the documented traits', () => {
+    expect(generateFoomAttributes(42)).toEqual([
+      { trait_type: 'Cosmic Energy', value: 15 },
+      { trait_type: 'Mood', value: 'Mischievous' },
+      { trait_type: 'Resonance Frequency', value: 474, display_type: 'number', unit: 'Hz' },
+      { trait_type: 'Paradox Resistance', value: 31, display_type: 'number', max_value: 100, decimals: 9 },
+      { trait_type: 'Mineral Composition', value: '60% Cosmic Copper / 40% Singularity Sapphire' }
+    ]);
+  });
+
+  it('handles token IDs beyond Number.MAX_SAFE_INTEGER', () => {
+    const tokenId = ethers.BigNumber.from('123456789012345678901234567890');
+    const expected = decodeAttributes(onChainTokenURI(tokenId));
+
+    expect(generateFoomAttributes(tokenId)).toEqual(expected);
+    expect(generateFoomAttributes(tokenId.toString())).toEqual(expected);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Foom Attribute Generator
+ *
+ * TypeScript port of Foom.sol's _generateAttributes. Every Foom's traits are
+ * a pure function of its token ID, so they can be computed for the whole
+ * minted supply (or the next token ID) without a tokenURI call. The output
+ * matches the attributes array of the decoded on-chain tokenURI, field for
+ * field.
+ */
+
+import { ethers } from "ethers";
+import type { NFTAttribute } from "@/types/contracts";
+
+export const FOOM_MOODS = [
+  "Contemplative", "Exuberant", "Mischievous", "Serene",
+  "Curious", "Playful", "Determined", "Whimsical"
+];
+
+export const FOOM_PRIMARY_MINERALS = [
+  "Quantum Quartz", "Dimensional Diamond", "Cosmic Copper", "Nebula Nickel",
+  "Void Vibranium", "Paradox Platinum", "Multiverse Marble", "Tesseract Titanium",
+  "Anomalous Amber", "Entropy Emerald"
+];
+
+export const FOOM_SECONDARY_MINERALS = [
+  "Spectral Silver", "Graviton Gold", "Temporal Tin", "Wormhole Wolfram",
+  "Singularity Sapphire", "Ethereal Emerald", "Black Hole Beryl", "Quantum Quasar",
+  "Galactic Garnet", "Prism Peridot"
+];
+
+/**
+ * Generate a Foom's attributes exactly as its tokenURI reports them
+ */
+export function generateFoomAttributes(tokenId: ethers.BigNumberish): NFTAttribute[] {
+  const id = ethers.BigNumber.from(tokenId);
+  // (id * a + b) % m, computed in uint256 like the contract
+  const mod = (multiplier: number, offset: number, modulus: number) =>
+    id.mul(multiplier).add(offset).mod(modulus).toNumber();
+
+  const cosmicEnergy = mod(17, 0, 100) + 1;
+  const mood = FOOM_MOODS[mod(1, 0, 8)];
+  const frequency = 432 + mod(1, 0, 97);
+
+  const paradoxValue = mod(31, 17, 1000);
+
+  const primaryMineral = FOOM_PRIMARY_MINERALS[mod(1, 0, 10)];
+  const secondaryMineral = FOOM_SECONDARY_MINERALS[id.div(10).mod(10).toNumber()];
+  const primaryPercent = 60 + mod(1, 0, 21);
+  const secondaryPercent = 100 - primaryPercent;
+
+  return [
+    { trait_type: "Cosmic Energy", value: cosmicEnergy },
+    { trait_type: "Mood", value: mood },
+    { trait_type: "Resonance Frequency", value: frequency, display_type: "number", unit: "Hz" },
+    {
+      trait_type: "Paradox Resistance",
+      value: Math.floor(paradoxValue / 10),
+      display_type: "number",
+      max_value: 100,
+      decimals: paradoxValue % 10
+    },
+    {
+      trait_type: "Mineral Composition",
+      value: `${primaryPercent}% ${primaryMineral} / ${secondaryPercent}% ${secondaryMineral}`
+    }
+  ];
+}
@@ -0,0 +1,142 @@
+/**
+ * Unit Tests for Gas and Fee Estimation
+ *
+ * Builds fee presets from canned JSON-RPC replies to ensure:
+ * - eth_feeHistory percentiles become slow/normal/fast EIP-1559 presets
+ * - Nodes without eth_feeHistory fall back to the legacy gas price
+ * - Gas estimation failures are thrown instead of replaced by a default
+ * - Costs and overrides follow the chain's fee model
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  estimateGasLimit,
+  getFeeEstimate,
+  getTransactionCost,
+  presetsFromFeeHistory,
+  toGasOverrides
+} from './gas';
+
+const gwei = (value: string) => ethers.utils.parseUnits(value, 'gwei');
+const hex = (value: ethers.BigNumber) => value.toHexString();
+
+// Three sampled blocks; the last base fee is the next block's
+const FEE_HISTORY = {
+  oldestBlock: '0x64',
+  baseFeePerGas: [gwei('9'), gwei('9.5'), gwei('10'), gwei('10')].map(hex),
+  gasUsedRatio: [0.4, 0.6, 0.5],
+  reward: [
+    [gwei('0.1'), gwei('1'), gwei('3')].map(hex),
+    [gwei('0.2'), gwei('1.5'), gwei('2')].map(hex),
+    [gwei('0.1'), gwei('2'), gwei('5')].map(hex)
+  ]
+};
+
+class FakeRpc extends ethers.providers.StaticJsonRpcProvider {
+  constructor(private readonly replies: Record<string, any>) {
+    super('http://127.0.0.1:8545', { chainId: 31337, name: 'devnet' });
+  }
+
+  async send(method: string): Promise<any> {
+    if (method === 'eth_chainId') return '0x7a69';
+    if (!(method in this.replies)) {
+      throw Object.assign(new Error('the method does not exist/is not available'), { code: -32601 });
+    }
+    const reply = this.replies[method];
+    if (reply instanceof Error) throw reply;
+    return reply;
+  }
+}
+
+describe('presetsFromFeeHistory', () => {
+  it('uses the median reward per percentile and headroom on the next base fee', () => {
+    const estimate = presetsFromFeeHistory(FEE_HISTORY)!;
+
+    expect(estimate.baseFeePerGas).toEqual(gwei('10'));
+    expect(estimate.presets.slow.maxPriorityFeePerGas).toEqual(gwei('0.1'));
+    expect(estimate.presets.normal.maxPriorityFeePerGas).toEqual(gwei('1.5'));
+    expect(estimate.presets.fast.maxPriorityFeePerGas).toEqual(gwei('3'));
+
+    expect(estimate.presets.slow.maxFeePerGas).toEqual(gwei('11.1'));
+    expect(estimate.presets.normal.maxFeePerGas).toEqual(gwei('16.5'));
+    expect(estimate.presets.fast.maxFeePerGas).toEqual(gwei('23'));
+  });
+
+  it('returns null without base fees', () => {
+    expect(presetsFromFeeHistory({ baseFeePerGas: [] })).toBeNull();
+  });
+});
+
+describe('getFeeEstimate', () => {
+  it('reads eth_feeHistory', async () => {
+    const estimate = await getFeeEstimate(new FakeRpc({ eth_feeHistory: FEE_HISTORY }));
+
+    expect(estimate.baseFeePerGas).toEqual(gwei('10'));
+    expect(estimate.presets.normal.maxFeePerGas).toEqual(gwei('16.5'));
+  });
+
+  it('falls back to the gas price when eth_feeHistory is unsupported', async () => {
+    const estimate = await getFeeEstimate(new FakeRpc({ eth_gasPrice: hex(gwei('2')) }));
+
+    expect(estimate.baseFeePerGas).toBeNull();
+    expect(estimate.presets.slow.maxFeePerGas).toEqual(gwei('2'));
+    expect(estimate.presets.normal.maxFeePerGas).toEqual(gwei('2.2'));
+    expect(estimate.presets.fast.maxFeePerGas).toEqual(gwei('2.5'));
+  });
+
+  it('treats a zero base fee as a pre-London chain', async () => {
+    const estimate = await getFeeEstimate(new FakeRpc({
+      eth_feeHistory: { baseFeePerGas: ['0x0', '0x0'], reward: [['0x0', '0x0', '0x0']] },
+      eth_gasPrice: hex(gwei('1'))
+    }));
+
+    expect(estimate.baseFeePerGas).toBeNull();
+    expect(estimate.presets.slow.maxFeePerGas).toEqual(gwei('1'));
+  });
+});
+
+describe('estimateGasLimit', () => {
+  const abi = ["function mint()"];
+  const NFT = '0x3333333333333333333333333333333333333333';
+
+  it('adds a buffer to the estimate', async () => {
+    const contract = new ethers.Contract(NFT, abi, new FakeRpc({ eth_estimateGas: '0x186a0' }));
+
+    expect((await estimateGasLimit(contract, 'mint')).toNumber()).toBe(120000);
+  });
+
+  it('throws when estimation fails instead of guessing a limit', async () => {
+    const revert = Object.assign(new Error('execution reverted: Minting is disabled'), { code: -32000 });
+    const contract = new ethers.Contract(NFT, abi, new FakeRpc({ eth_estimateGas: revert }));
+
+    await expect(estimateGasLimit(contract, 'mint')).rejects.toThrow();
+  });
+});
+
+describe('fees for a transaction', () => {
+  const eip1559 = presetsFromFeeHistory(FEE_HISTORY)!;
+  const legacy = {
+    baseFeePerGas: null,
+    presets: {
+      slow: { maxFeePerGas: gwei('2'), maxPriorityFeePerGas: gwei('2') },
+      normal: { maxFeePerGas: gwei('2.2'), maxPriorityFeePerGas: gwei('2.2') },
+      fast: { maxFeePerGas: gwei('2.5'), maxPriorityFeePerGas: gwei('2.5') }
+    }
+  };
+  const gasLimit = ethers.BigNumber.from(100000);
+
+  it('prices at base fee plus tip, capped at the max fee', () => {
+    expect(getTransactionCost(gasLimit, eip1559.presets.normal, eip1559.baseFeePerGas)).toEqual(gwei('11.5').mul(gasLimit));
+    expect(getTransactionCost(gasLimit, legacy.presets.fast, null)).toEqual(gwei('2.5').mul(gasLimit));
+  });
+
+  it('builds EIP-1559 or legacy overrides', () => {
+    expect(toGasOverrides(eip1559, 'fast', gasLimit)).toEqual({
+      maxFeePerGas: gwei('23'),
+      maxPriorityFeePerGas: gwei('3'),
+      gasLimit
+    });
+    expect(toGasOverrides(legacy, 'normal')).toEqual({ gasPrice: gwei('2.2') });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Gas and Fee Estimation
+ *
+ * Builds slow/normal/fast EIP-1559 fee presets from eth_feeHistory (priority
+ * fee percentiles over recent blocks plus headroom on the next base fee),
+ * with a gas price fallback for nodes and chains without EIP-1559. Also
+ * estimates gas limits with a safety buffer and prices a transaction in the
+ * native currency before it is sent.
+ */
+
+import { ethers } from "ethers";
+import type {
+  FeeEstimate,
+  FeePreset,
+  GasOverrides,
+  GasSpeed
+} from "@/types/contracts";
+
+export const GAS_SPEEDS: GasSpeed[] = ['slow', 'normal', 'fast'];
+
+// Blocks of fee history to sample
+const FEE_HISTORY_BLOCKS = 10;
+
+// Priority fee reward percentile per speed
+const REWARD_PERCENTILES: Record<GasSpeed, number> = {
+  slow: 10,
+  normal: 50,
+  fast: 90
+};
+
+// Next base fee headroom per speed, in percent, so the fee survives base fee increases
+const BASE_FEE_HEADROOM: Record<GasSpeed, number> = {
+  slow: 110,
+  normal: 150,
+  fast: 200
+};
+
+// Gas price multiplier per speed, in percent, for chains without EIP-1559
+const GAS_PRICE_MULTIPLIER: Record<GasSpeed, number> = {
+  slow: 100,
+  normal: 110,
+  fast: 125
+};
+
+// Added on top of eth_estimateGas, in percent
+const GAS_LIMIT_BUFFER = 120;
+
+interface FeeHistory {
+  baseFeePerGas: string[];
+  reward?: string[][];
+}
+
+/**
+ * Find a JSON-RPC provider able to send eth_feeHistory
+ */
+function getJsonRpcProvider(provider: ethers.providers.Provider): ethers.providers.JsonRpcProvider | null {
+  if (provider instanceof ethers.providers.JsonRpcProvider) return provider;
+  if (provider instanceof ethers.providers.FallbackProvider) {
+    const first = provider.providerConfigs[0]?.provider;
+    return first instanceof ethers.providers.JsonRpcProvider ? first : null;
+  }
+  return null;
+}
+
+/**
+ * Median of a list of values
+ */
+function median(values: ethers.BigNumber[]): ethers.BigNumber {
+  if (values.length === 0) return ethers.constants.Zero;
+  const sorted = [...values].sort((a, b) => (a.lt(b) ? -1 : a.gt(b) ? 1 : 0));
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : sorted[middle - 1].add(sorted[middle]).div(2);
+}
+
+/**
+ * Build EIP-1559 presets from an eth_feeHistory response
+ */
+export function presetsFromFeeHistory(history: FeeHistory): FeeEstimate | null {
+  const baseFees = history.baseFeePerGas ?? [];
+  if (baseFees.length === 0) return null;
+
+  // The last entry is the base fee of the next (pending) block
+  const nextBaseFee = ethers.BigNumber.from(baseFees[baseFees.length - 1]);
+  const rewards = history.reward ?? [];
+
+  const presets = {} as Record<GasSpeed, FeePreset>;
+  GAS_SPEEDS.forEach((speed, index) => {
+    const maxPriorityFeePerGas = median(
+      rewards.filter(block => block[index] !== undefined).map(block => ethers.BigNumber.from(block[index]))
+    );
+    presets[speed] = {
+      maxPriorityFeePerGas,
+      maxFeePerGas: nextBaseFee.mul(BASE_FEE_HEADROOM[speed]).div(100).add(maxPriorityFeePerGas)
+    };
+  });
+
+  return { baseFeePerGas: nextBaseFee, presets };
+}
+
+/**
+ * Build presets from the legacy gas price
+ */
+function presetsFromGasPrice(gasPrice: ethers.BigNumber): FeeEstimate {
+  const presets = {} as Record<GasSpeed, FeePreset>;
+  GAS_SPEEDS.forEach(speed => {
+    const price = gasPrice.mul(GAS_PRICE_MULTIPLIER[speed]).div(100);
+    presets[speed] = { maxFeePerGas: price, maxPriorityFeePerGas: price };
+  });
+  return { baseFeePerGas: null, presets };
+}
+
+/**
+ * Read slow/normal/fast fee presets for the provider's chain
+ */
+export async function getFeeEstimate(provider: ethers.providers.Provider): Promise<FeeEstimate> {
+  const rpc = getJsonRpcProvider(provider);
+
+  if (rpc) {
+    try {
+      const history: FeeHistory = await rpc.send('eth_feeHistory', [
+        ethers.utils.hexValue(FEE_HISTORY_BLOCKS),
+        'latest',
+        GAS_SPEEDS.map(speed => REWARD_PERCENTILES[speed])
+      ]);
+      const estimate = presetsFromFeeHistory(history);
+      // Pre-London blocks report a zero base fee
+      if (estimate && !estimate.baseFeePerGas?.isZero()) return estimate;
+    } catch (error) {
+      console.warn('eth_feeHistory unavailable, using gas price:', error);
+    }
+  }
+
+  return presetsFromGasPrice(await provider.getGasPrice());
+}
+
+/**
+ * Estimate a contract write's gas limit with a safety buffer
+ * Estimation failures (usually reverts) are thrown, never papered over.
+ */
+export async function estimateGasLimit(
+  contract: ethers.Contract,
+  method: string,
+  args: unknown[] = [],
+  from?: string
+): Promise<ethers.BigNumber> {
+  const estimated: ethers.BigNumber = await contract.estimateGas[method](...args, ...(from ? [{ from }] : []));
+  return estimated.mul(GAS_LIMIT_BUFFER).div(100);
+}
+
+/**
+ * Expected native currency cost of a transaction at a preset
+ */
+export function getTransactionCost(
+  gasLimit: ethers.BigNumber,
+  preset: FeePreset,
+  baseFeePerGas: ethers.BigNumber | null
+): ethers.BigNumber {
+  if (!baseFeePerGas) return gasLimit.mul(preset.maxFeePerGas);
+
+  const expected = baseFeePerGas.add(preset.maxPriorityFeePerGas);
+  return gasLimit.mul(expected.lt(preset.maxFeePerGas) ? expected : preset.maxFeePerGas);
+}
+
+/**
+ * Build transaction overrides for a preset and optional gas limit
+ */
+export function toGasOverrides(
+  estimate: FeeEstimate,
+  speed: GasSpeed,
+  gasLimit?: ethers.BigNumber | null
+): GasOverrides {
+  const preset = estimate.presets[speed];
+  const fees: GasOverrides = estimate.baseFeePerGas
+    ? { maxFeePerGas: preset.maxFeePerGas, maxPriorityFeePerGas: preset.maxPriorityFeePerGas }
+    : { gasPrice: preset.maxFeePerGas };
+
+  return gasLimit ? { ...fees, gasLimit } : fees;
+}
@@ -0,0 +1,126 @@
+/**
+ * Unit Tests for Collection Holders Analytics
+ *
+ * Derives holder statistics from Transfer histories to ensure:
+ * - Ownership follows the latest transfer, in log order, and burns leave circulation
+ * - Holders are ranked by token count and bucketed into the distribution
+ * - Cumulative burns grow by the fixed fee per mint, one point per block
+ * - Rescanned transfers are merged in once per log
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { getCumulativeBurns, getHolderStats, getOwners, mergeTransfers } from './holders';
+import type { IndexedTransfer } from '@/types/contracts';
+
+const ZERO = ethers.constants.AddressZero;
+const ALICE = '0x1111111111111111111111111111111111111111';
+const BOB = '0x2222222222222222222222222222222222222222';
+const CAROL = '0x3333333333333333333333333333333333333333';
+
+let logIndex = 0;
+
+function transfer(tokenId: number, from: string, to: string, blockNumber: number): IndexedTransfer {
+  return {
+    tokenId: String(tokenId),
+    from,
+    to,
+    blockNumber,
+    transactionHash: ethers.utils.id(`tx-${tokenId}-${blockNumber}-${logIndex}`),
+    logIndex: logIndex++
+  };
+}
+
+describe('getOwners', () => {
+  it('follows the latest transfer of each token regardless of stored order', () => {
+    const history = [
+      transfer(1, ALICE, BOB, 20),
+      transfer(1, ZERO, ALICE, 10),
+      transfer(2, ZERO, CAROL, 11)
+    ];
+
+    expect(Object.fromEntries(getOwners(history))).toEqual({ '1': BOB, '2': CAROL });
+  });
+
+  it('drops burned tokens', () => {
+    const history = [transfer(1, ZERO, ALICE, 10), transfer(1, ALICE, ZERO, 12)];
+
+    expect(getOwners(history).size).toBe(0);
+  });
+});
+
+describe('getHolderStats', () => {
+  it('ranks holders and buckets them by token count', () => {
+    const history = [
+      ...[1, 2, 3].map(tokenId => transfer(tokenId, ZERO, ALICE, 10)),
+      transfer(4, ZERO, BOB, 11),
+      transfer(5, ZERO, CAROL, 12),
+      transfer(5, CAROL, BOB, 13),
+      transfer(6, ZERO, CAROL, 14),
+      transfer(6, CAROL, ZERO, 15)
+    ];
+
+    const stats = getHolderStats(history);
+
+    expect(stats.supply).toBe(5);
+    expect(stats.burned).toBe(1);
+    expect(stats.uniqueHolders).toBe(2);
+    expect(stats.holders).toEqual([
+      { address: ALICE, tokens: 3 },
+      { address: BOB, tokens: 2 }
+    ]);
+    expect(stats.distribution).toEqual([
+      { label: '1', holders: 0 },
+      { label: '2', holders: 1 },
+      { label: '3-5', holders: 1 },
+      { label: '6-10', holders: 0 },
+      { label: '11-25', holders: 0 },
+      { label: '26+', holders: 0 }
+    ]);
+  });
+
+  it('is empty without transfers', () => {
+    const stats = getHolderStats([]);
+
+    expect(stats.uniqueHolders).toBe(0);
+    expect(stats.holders).toEqual([]);
+    expect(stats.distribution.every(bucket => bucket.holders === 0)).toBe(true);
+  });
+});
+
+describe('mergeTransfers', () => {
+  it('keeps each log once when a range is scanned again', () => {
+    const scanned = [transfer(1, ZERO, ALICE, 10), transfer(1, ALICE, ZERO, 12)];
+    const rescanned = [...scanned.map(entry => ({ ...entry })), transfer(2, ZERO, BOB, 13)];
+
+    const history = mergeTransfers(scanned, rescanned);
+
+    expect(history).toHaveLength(3);
+    expect(getHolderStats(history).burned).toBe(1);
+    expect(getCumulativeBurns(history, [{ symbol: 'HAIR', amount: 1 }]).at(-1)!.mints).toBe(2);
+  });
+});
+
+describe('getCumulativeBurns', () => {
+  const fees = [{ symbol: 'HAIR', amount: 3000 }, { symbol: 'MAX', amount: 100 }];
+
+  it('adds the fixed fees once per mint, one point per block', () => {
+    const history = [
+      transfer(1, ZERO, ALICE, 10),
+      transfer(2, ZERO, BOB, 12),
+      transfer(3, ZERO, BOB, 12),
+      // Transfers and burns are not mints
+      transfer(1, ALICE, CAROL, 13),
+      transfer(2, BOB, ZERO, 14)
+    ];
+
+    expect(getCumulativeBurns(history, fees)).toEqual([
+      { blockNumber: 10, mints: 1, burned: { HAIR: 3000, MAX: 100 } },
+      { blockNumber: 12, mints: 3, burned: { HAIR: 9000, MAX: 300 } }
+    ]);
+  });
+
+  it('has no points before the first mint', () => {
+    expect(getCumulativeBurns([], fees)).toEqual([]);
+  });
+});
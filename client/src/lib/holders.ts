@@ -0,0 +1,199 @@
+/**
+ * Collection Holders Analytics
+ *
+ * Indexes a collection's ERC721 Transfer history in IndexedDB behind a
+ * reorg-safe block cursor, and derives who holds the collection from it:
+ * current owners, top holders, unique-holder count and how many tokens each
+ * holder has. For token-burn collections, mints in the same history give the
+ * cumulative mint-cost burns, since every mint burns a fixed fee.
+ * Each scanned chunk is stored before the cursor moves past it, and every
+ * log is kept once, so a scan interrupted in between never counts a
+ * transfer twice.
+ */
+
+import { ethers } from "ethers";
+import { BlockCursor } from "@shared/blockCursor";
+import { scanEvents } from "@shared/logs";
+import { idbGet, idbPut, indexedDbCursorStore } from "./indexedDb";
+import type {
+  BurnFee,
+  BurnPoint,
+  HolderDistributionBucket,
+  HolderStats,
+  IndexedTransfer
+} from "@/types/contracts";
+
+// Token-count ranges of the distribution chart: [label, min, max]
+const DISTRIBUTION_BUCKETS: Array<[string, number, number]> = [
+  ['1', 1, 1],
+  ['2', 2, 2],
+  ['3-5', 3, 5],
+  ['6-10', 6, 10],
+  ['11-25', 11, 25],
+  ['26+', 26, Infinity]
+];
+
+interface TransferIndexOptions {
+  // Percentage of the new block range scanned so far
+  onProgress?: (transfers: IndexedTransfer[], progress: number) => void;
+}
+
+/**
+ * Key of a collection's transfer history and cursor on one chain
+ */
+function indexKey(chainId: number, contract: string): string {
+  return `holders.${chainId}.${contract.toLowerCase()}`;
+}
+
+/**
+ * Identify a transfer by the log that emitted it
+ */
+function transferKey(transfer: IndexedTransfer): string {
+  return `${transfer.transactionHash}:${transfer.logIndex}`;
+}
+
+/**
+ * Add newly scanned transfers to a history, each log once
+ */
+export function mergeTransfers(existing: IndexedTransfer[], added: IndexedTransfer[]): IndexedTransfer[] {
+  const transfers = new Map(existing.map(transfer => [transferKey(transfer), transfer]));
+  for (const transfer of added) {
+    if (!transfers.has(transferKey(transfer))) transfers.set(transferKey(transfer), transfer);
+  }
+
+  return Array.from(transfers.values());
+}
+
+/**
+ * Convert a Transfer event to its stored form
+ */
+export function toIndexedTransfer(event: ethers.Event): IndexedTransfer {
+  return {
+    tokenId: event.args!.tokenId.toString(),
+    from: event.args!.from,
+    to: event.args!.to,
+    blockNumber: event.blockNumber,
+    transactionHash: event.transactionHash,
+    logIndex: event.logIndex
+  };
+}
+
+/**
+ * Read a collection's cached transfer history
+ */
+export async function loadTransfers(chainId: number, contract: string): Promise<IndexedTransfer[]> {
+  try {
+    // Histories stored before transfers were deduplicated may repeat logs
+    return mergeTransfers([], (await idbGet<IndexedTransfer[]>('transfers', indexKey(chainId, contract))) ?? []);
+  } catch (error) {
+    console.warn('Unable to read transfer history:', error);
+    return [];
+  }
+}
+
+/**
+ * Bring a collection's transfer history up to the chain head, undoing reorged blocks
+ */
+export async function updateTransfers(
+  contract: ethers.Contract,
+  chainId: number,
+  { onProgress }: TransferIndexOptions = {}
+): Promise<IndexedTransfer[]> {
+  const key = indexKey(chainId, contract.address);
+  const cursor = new BlockCursor(contract.provider, indexedDbCursorStore, key);
+  let transfers = await loadTransfers(chainId, contract.address);
+
+  await cursor.sync({
+    rollback: async fromBlock => {
+      transfers = transfers.filter(transfer => transfer.blockNumber < fromBlock);
+      await idbPut('transfers', key, transfers);
+    },
+    process: async (fromBlock, toBlock, checkpoint) => {
+      await scanEvents(contract, contract.filters.Transfer(), {
+        fromBlock,
+        toBlock,
+        onProgress: async (scannedTo, lastBlock, chunk) => {
+          transfers = mergeTransfers(transfers, chunk.map(toIndexedTransfer));
+          await idbPut('transfers', key, transfers);
+          await checkpoint(scannedTo);
+          onProgress?.(transfers, Math.round(((scannedTo - fromBlock + 1) / (lastBlock - fromBlock + 1)) * 100));
+        }
+      });
+    }
+  });
+
+  return transfers;
+}
+
+/**
+ * Current owner of every token still in circulation
+ */
+export function getOwners(transfers: IndexedTransfer[]): Map<string, string> {
+  const owners = new Map<string, string>();
+
+  const ordered = [...transfers].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  for (const transfer of ordered) {
+    if (transfer.to === ethers.constants.AddressZero) {
+      owners.delete(transfer.tokenId);
+    } else {
+      owners.set(transfer.tokenId, transfer.to);
+    }
+  }
+
+  return owners;
+}
+
+/**
+ * Summarise holders from a transfer history
+ */
+export function getHolderStats(transfers: IndexedTransfer[]): HolderStats {
+  const owners = getOwners(transfers);
+
+  const counts = new Map<string, number>();
+  owners.forEach(owner => counts.set(owner, (counts.get(owner) ?? 0) + 1));
+
+  const holders = Array.from(counts, ([address, tokens]) => ({ address, tokens }))
+    .sort((a, b) => b.tokens - a.tokens || a.address.localeCompare(b.address));
+
+  const distribution: HolderDistributionBucket[] = DISTRIBUTION_BUCKETS.map(([label, min, max]) => ({
+    label,
+    holders: holders.filter(holder => holder.tokens >= min && holder.tokens <= max).length
+  }));
+
+  return {
+    supply: owners.size,
+    burned: transfers.filter(transfer => transfer.to === ethers.constants.AddressZero).length,
+    uniqueHolders: holders.length,
+    holders,
+    distribution
+  };
+}
+
+/**
+ * Cumulative fees burned by mints, one point per block with mints
+ */
+export function getCumulativeBurns(transfers: IndexedTransfer[], fees: BurnFee[]): BurnPoint[] {
+  const mintBlocks = transfers
+    .filter(transfer => transfer.from === ethers.constants.AddressZero)
+    .map(transfer => transfer.blockNumber)
+    .sort((a, b) => a - b);
+
+  const points: BurnPoint[] = [];
+  mintBlocks.forEach((blockNumber, position) => {
+    const mints = position + 1;
+    const point: BurnPoint = {
+      blockNumber,
+      mints,
+      burned: Object.fromEntries(fees.map(fee => [fee.symbol, fee.amount * mints]))
+    };
+
+    // Several mints in one block collapse into its last point
+    if (points.length > 0 && points[points.length - 1].blockNumber === blockNumber) {
+      points[points.length - 1] = point;
+    } else {
+      points.push(point);
+    }
+  });
+
+  return points;
+}
@@ -0,0 +1,84 @@
+/**
+ * IndexedDB Storage
+ *
+ * Small promise wrapper around the app's IndexedDB database, for indexer
+ * state and caches that outgrow localStorage. Object stores are keyed
+ * out-of-line by string. Also provides the browser's block cursor store.
+ */
+
+import type { BlockCursorState, CursorStore } from "@shared/blockCursor";
+
+const DB_NAME = 'web3playground';
+const DB_VERSION = 3;
+
+const STORES = ['blockCursors', 'transfers', 'content'] as const;
+
+export type StoreName = typeof STORES[number];
+
+let database: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wait for an IndexedDB request to finish
+ */
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Open (and create or upgrade) the app database once per page
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      for (const store of STORES) {
+        if (!request.result.objectStoreNames.contains(store)) {
+          request.result.createObjectStore(store);
+        }
+      }
+    };
+
+    database = settle(request).catch(error => {
+      // Allow a later retry
+      database = null;
+      throw error;
+    });
+  }
+
+  return database;
+}
+
+/**
+ * Read a value from an object store
+ */
+export async function idbGet<T>(store: StoreName, key: string): Promise<T | undefined> {
+  const db = await openDatabase();
+  return settle(db.transaction(store, 'readonly').objectStore(store).get(key));
+}
+
+/**
+ * Write a value to an object store
+ */
+export async function idbPut<T>(store: StoreName, key: string, value: T): Promise<void> {
+  const db = await openDatabase();
+  await settle(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+}
+
+/**
+ * Remove a value from an object store
+ */
+export async function idbDelete(store: StoreName, key: string): Promise<void> {
+  const db = await openDatabase();
+  await settle(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+}
+
+/**
+ * Block cursors of in-browser indexers
+ */
+export const indexedDbCursorStore: CursorStore = {
+  getCursor: key => idbGet<BlockCursorState>('blockCursors', key),
+  setCursor: (key, state) => idbPut('blockCursors', key, state)
+};
@@ -0,0 +1,84 @@
+/**
+ * Unit Tests for Chunked Log Scanning
+ *
+ * Scans a fake chain whose node caps the eth_getLogs block range to ensure:
+ * - The range is covered in order without gaps or overlaps
+ * - Chunks rejected as too large are halved and retried
+ * - Other failures are thrown, and progress is reported per chunk
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { FakeChain, fakeLog } from '@/test/fakeChain';
+import { isRangeLimitError, scanLogs } from '@shared/logs';
+
+class FakeNode extends FakeChain {
+  ranges: Array<[number, number]> = [];
+
+  constructor(private readonly maxRange: number, private readonly latest = 999) {
+    super();
+  }
+
+  async perform(method: string, params: any): Promise<any> {
+    if (method === 'getBlockNumber') return this.latest;
+    if (method !== 'getLogs') return super.perform(method, params);
+
+    const from = Number(params.filter.fromBlock);
+    const to = Number(params.filter.toBlock);
+    if (to - from + 1 > this.maxRange) {
+      throw { code: -32005, message: `block range is too wide (max ${this.maxRange})` };
+    }
+
+    this.ranges.push([from, to]);
+    // One log per 100 blocks
+    const logs = [];
+    for (let block = Math.ceil(from / 100) * 100; block <= to; block += 100) {
+      logs.push(fakeLog({ topics: [ethers.constants.HashZero], data: '0x' }, {
+        address: '0x1111111111111111111111111111111111111111',
+        blockNumber: block
+      }));
+    }
+    return logs;
+  }
+}
+
+describe('scanLogs', () => {
+  it('covers the whole range in chunks', async () => {
+    const provider = new FakeNode(1000);
+    const progress: number[] = [];
+
+    const logs = await scanLogs(provider, {}, { chunkSize: 250, onProgress: scannedTo => { progress.push(scannedTo); } });
+
+    expect(provider.ranges).toEqual([[0, 249], [250, 499], [500, 749], [750, 999]]);
+    expect(progress).toEqual([249, 499, 749, 999]);
+    expect(logs.map(log => log.blockNumber)).toEqual([0, 100, 200, 300, 400, 500, 600, 700, 800, 900]);
+  });
+
+  it('halves chunks the node rejects as too large', async () => {
+    const provider = new FakeNode(300);
+
+    const logs = await scanLogs(provider, {}, { fromBlock: 100, toBlock: 899, chunkSize: 1000 });
+
+    // 1000 -> 500 -> 250 blocks per request
+    expect(provider.ranges[0]).toEqual([100, 349]);
+    expect(provider.ranges[provider.ranges.length - 1][1]).toBe(899);
+    expect(logs).toHaveLength(8);
+  });
+
+  it('throws failures that are not range limits', async () => {
+    const provider = new FakeNode(1000);
+    provider.perform = async () => { throw new Error('connection refused'); };
+
+    await expect(scanLogs(provider, {}, { toBlock: 10 })).rejects.toThrow('connection refused');
+  });
+});
+
+describe('isRangeLimitError', () => {
+  it('recognises common node limit messages', () => {
+    expect(isRangeLimitError({ code: -32005 })).toBe(true);
+    expect(isRangeLimitError({ error: { message: 'query returned more than 10000 results' } })).toBe(true);
+    expect(isRangeLimitError({ message: 'eth_getLogs is limited to a 10,000 block range' })).toBe(true);
+    expect(isRangeLimitError({ message: 'Log response size exceeded.' })).toBe(true);
+    expect(isRangeLimitError(new Error('missing trie node'))).toBe(false);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Unit Tests for NFT Metadata Resolution
+ *
+ * Resolves tokenURIs of every supported shape against a fake fetch to ensure:
+ * - base64, utf8 and percent-encoded data URIs decode, multi-byte text included
+ * - ipfs:// and ar:// go through the gateways in order, falling back on failure
+ * - ERC-1155 {id} placeholders become the 64-digit hex token ID
+ * - Metadata is validated, and failures carry a readable message
+ * - Metadata links are only handed out for http(s), after gateway rewriting
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  decodeDataUri,
+  gatewayUrls,
+  loadMetadataJson,
+  parseMetadata,
+  resolveLinkUri,
+  resolveMetadata,
+  substituteTokenId
+} from './metadata';
+
+const IPFS = ['https://gw-a.example/ipfs/', 'https://gw-b.example/ipfs/'];
+const ARWEAVE = ['https://ar.example/'];
+
+const DOCUMENT = {
+  name: 'Foom #7',
+  description: 'Fully on-chain ✨',
+  image: 'ipfs://bafyimage/7.png',
+  attributes: [{ trait_type: 'Mood', value: 'Serene' }]
+};
+
+/**
+ * Fetch stand-in answering from a table of URL -> JSON body or HTTP status
+ */
+function fakeFetch(responses: Record<string, unknown>, requested: string[] = []): typeof fetch {
+  return (async (input: RequestInfo | URL) => {
+    const url = String(input);
+    requested.push(url);
+
+    if (!(url in responses)) throw new TypeError('Failed to fetch');
+    const response = responses[url];
+    if (typeof response === 'number') return new Response('error', { status: response });
+    return new Response(JSON.stringify(response), { status: 200 });
+  }) as typeof fetch;
+}
+
+describe('substituteTokenId', () => {
+  it('replaces every {id} with the zero-padded lowercase hex ID', () => {
+    expect(substituteTokenId('https://api.example/{id}.json?v={id}', '314592')).toBe(
+      'https://api.example/000000000000000000000000000000000000000000000000000000000004cce0.json' +
+      '?v=000000000000000000000000000000000000000000000000000000000004cce0'
+    );
+  });
+
+  it('leaves URIs without placeholders untouched', () => {
+    expect(substituteTokenId('ipfs://bafy/1.json', '1')).toBe('ipfs://bafy/1.json');
+  });
+});
+
+describe('gatewayUrls', () => {
+  it('maps ipfs:// and the ipfs://ipfs/ variant onto every gateway', () => {
+    expect(gatewayUrls('ipfs://bafyroot/1.json', IPFS)).toEqual([
+      'https://gw-a.example/ipfs/bafyroot/1.json',
+      'https://gw-b.example/ipfs/bafyroot/1.json'
+    ]);
+    expect(gatewayUrls('ipfs://ipfs/bafyroot', IPFS)[0]).toBe('https://gw-a.example/ipfs/bafyroot');
+  });
+
+  it('maps ar:// onto the Arweave gateways and keeps http URLs', () => {
+    expect(gatewayUrls('ar://txid123', IPFS, ARWEAVE)).toEqual(['https://ar.example/txid123']);
+    expect(gatewayUrls('https://api.example/1')).toEqual(['https://api.example/1']);
+  });
+
+  it('rejects unknown schemes', () => {
+    expect(() => gatewayUrls('ftp://host/1.json')).toThrow('Unsupported metadata URI scheme: ftp');
+  });
+});
+
+describe('decodeDataUri', () => {
+  const json = JSON.stringify(DOCUMENT);
+
+  it('decodes base64 bodies as UTF-8', () => {
+    const uri = `data:application/json;base64,${Buffer.from(json).toString('base64')}`;
+    expect(decodeDataUri(uri)).toBe(json);
+  });
+
+  it('decodes utf8 and percent-encoded bodies', () => {
+    expect(decodeDataUri(`data:application/json;utf8,${json}`)).toBe(json);
+    expect(decodeDataUri(`data:application/json;charset=utf-8,${encodeURIComponent(json)}`)).toBe(json);
+    expect(decodeDataUri(`data:,${encodeURIComponent(json)}`)).toBe(json);
+  });
+
+  it('rejects malformed data URIs', () => {
+    expect(() => decodeDataUri('data:application/json;base64')).toThrow('Malformed data URI');
+    expect(() => decodeDataUri('data:application/json,%E0%A4%A')).toThrow('Could not decode data URI');
+  });
+});
+
+describe('parseMetadata', () => {
+  it('fills defaults and normalises attribute values', () => {
+    expect(parseMetadata({ attributes: [{ trait_type: 'Burnable', value: true }, { value: 3 }] })).toEqual({
+      name: '',
+      description: '',
+      image: '',
+      attributes: [{ trait_type: 'Burnable', value: 'true' }, { trait_type: '', value: 3 }]
+    });
+  });
+
+  it('turns inline SVG into an image data URI', () => {
+    expect(parseMetadata({ name: 'A', image_data: '<svg/>' }).image).toBe('data:image/svg+xml;utf8,%3Csvg%2F%3E');
+  });
+
+  it('rejects documents that do not match the schema', () => {
+    expect(() => parseMetadata(null)).toThrow('Invalid metadata: document');
+    expect(() => parseMetadata({ name: 7 })).toThrow('Invalid metadata: name expected string');
+    expect(() => parseMetadata({ attributes: [{ value: { nested: 1 } }] })).toThrow('Invalid metadata: attributes.0.value');
+  });
+});
+
+describe('loadMetadataJson', () => {
+  it('returns the document as published, without validation or rewriting', async () => {
+    const document = { ...DOCUMENT, image_data: '<svg/>', custom: [1, 2] };
+    const uri = `data:application/json;utf8,${JSON.stringify(document)}`;
+
+    expect(await loadMetadataJson(uri)).toEqual(document);
+  });
+});
+
+describe('resolveLinkUri', () => {
+  it('links http(s) as is and ipfs/ar through the first gateway', () => {
+    expect(resolveLinkUri(' https://foom.example/7 ')).toBe('https://foom.example/7');
+    expect(resolveLinkUri('ipfs://bafyanim/7.mp4', { ipfsGateways: IPFS })).toBe('https://gw-a.example/ipfs/bafyanim/7.mp4');
+    expect(resolveLinkUri('ar://tx', { arweaveGateways: ARWEAVE })).toBe('https://ar.example/tx');
+  });
+
+  it('refuses other schemes', () => {
+    for (const uri of ['javascript:alert(1)', ' JavaScript:alert(1)', 'data:text/html,<script>', '//evil.example', 'ipfs://cid']) {
+      expect(resolveLinkUri(uri, { ipfsGateways: [] })).toBeNull();
+    }
+  });
+});
+
+describe('resolveMetadata', () => {
+  it('resolves data URIs without fetching', async () => {
+    const requested: string[] = [];
+    const uri = `data:application/json;utf8,${JSON.stringify(DOCUMENT)}`;
+
+    const metadata = await resolveMetadata(uri, { ipfsGateways: IPFS, fetch: fakeFetch({}, requested) });
+
+    expect(metadata.name).toBe('Foom #7');
+    expect(metadata.image).toBe('https://gw-a.example/ipfs/bafyimage/7.png');
+    expect(requested).toEqual([]);
+  });
+
+  it('falls back to the next gateway when one fails', async () => {
+    const requested: string[] = [];
+    const fetcher = fakeFetch({
+      'https://gw-a.example/ipfs/bafyroot/7.json': 504,
+      'https://gw-b.example/ipfs/bafyroot/7.json': DOCUMENT
+    }, requested);
+
+    const metadata = await resolveMetadata('ipfs://bafyroot/7.json', { ipfsGateways: IPFS, fetch: fetcher });
+
+    expect(metadata.attributes).toEqual([{ trait_type: 'Mood', value: 'Serene' }]);
+    expect(requested).toEqual([
+      'https://gw-a.example/ipfs/bafyroot/7.json',
+      'https://gw-b.example/ipfs/bafyroot/7.json'
+    ]);
+  });
+
+  it('substitutes {id} before fetching', async () => {
+    const requested: string[] = [];
+    const url = `https://api.example/${'0'.repeat(63)}7.json`;
+
+    await resolveMetadata('https://api.example/{id}.json', { tokenId: '7', fetch: fakeFetch({ [url]: DOCUMENT }, requested) });
+
+    expect(requested).toEqual([url]);
+  });
+
+  it('reports every gateway failure when none answers', async () => {
+    const fetcher = fakeFetch({ 'https://gw-a.example/ipfs/bafyroot': 404 });
+
+    await expect(resolveMetadata('ipfs://bafyroot', { ipfsGateways: IPFS, fetch: fetcher })).rejects.toThrow(
+      'Could not load metadata (gw-a.example: HTTP 404; gw-b.example: Failed to fetch)'
+    );
+  });
+
+  it('gives up on gateways that do not answer in time', async () => {
+    const hanging = ((_: RequestInfo | URL, init?: RequestInit) => new Promise((_, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    })) as typeof fetch;
+
+    await expect(resolveMetadata('ar://tx', { arweaveGateways: ARWEAVE, fetch: hanging, timeout: 10 })).rejects.toThrow(
+      'Could not load metadata (ar.example: timed out)'
+    );
+  });
+
+  it('rejects empty URIs and invalid JSON', async () => {
+    await expect(resolveMetadata('  ')).rejects.toThrow('Token has no metadata URI');
+    await expect(resolveMetadata('data:application/json;utf8,{nope')).rejects.toThrow('Metadata is not valid JSON');
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * NFT Metadata Resolution
+ *
+ * Turns a tokenURI into validated NFTMetadata, whatever scheme it uses:
+ * - data: URIs, base64 or percent-encoded (including ;utf8 and ;charset=)
+ * - ipfs:// and ar:// through a list of gateways, falling back to the next
+ *   gateway when one fails or times out
+ * - plain http(s) URLs
+ * ERC-1155 style {id} placeholders are replaced with the token ID first.
+ * Images in the metadata are rewritten to fetchable URLs the same way, and
+ * links are only handed out for http(s) after the same rewrite.
+ * The unvalidated document can also be loaded on its own, for inspection.
+ * Failures throw with a message fit for display on the card.
+ */
+
+import { z } from "zod";
+import { ethers } from "ethers";
+import type { NFTMetadata } from "@/types/contracts";
+
+const REQUEST_TIMEOUT = 10000;
+
+/**
+ * Read a comma-separated list of gateway URLs, e.g. VITE_IPFS_GATEWAYS
+ */
+function envGateways(name: string, defaults: string[]): string[] {
+  const value: string | undefined = import.meta.env[name];
+  const gateways = value ? value.split(',').map(url => url.trim()).filter(Boolean) : [];
+  return gateways.length > 0 ? gateways : defaults;
+}
+
+// Gateway base URLs; the content path is appended directly
+export const IPFS_GATEWAYS = envGateways('VITE_IPFS_GATEWAYS', [
+  'https://ipfs.io/ipfs/',
+  'https://w3s.link/ipfs/',
+  'https://dweb.link/ipfs/'
+]);
+
+export const ARWEAVE_GATEWAYS = envGateways('VITE_ARWEAVE_GATEWAYS', [
+  'https://arweave.net/',
+  'https://ar-io.net/'
+]);
+
+export interface MetadataResolverOptions {
+  // Substituted for {id} placeholders
+  tokenId?: string;
+  ipfsGateways?: string[];
+  arweaveGateways?: string[];
+  timeout?: number;
+  fetch?: typeof fetch;
+}
+
+const attributeSchema = z.object({
+  trait_type: z.string().default(''),
+  value: z.union([z.string(), z.number(), z.boolean()]).transform(value =>
+    typeof value === 'boolean' ? String(value) : value
+  ),
+  display_type: z.enum(['number', 'boost_number', 'boost_percentage', 'date']).optional().catch(undefined),
+  max_value: z.number().optional(),
+  decimals: z.number().optional(),
+  unit: z.string().optional()
+});
+
+const metadataSchema = z.object({
+  name: z.string().default(''),
+  description: z.string().default(''),
+  image: z.string().optional(),
+  // Some collections inline SVG instead of linking an image
+  image_data: z.string().optional(),
+  attributes: z.array(attributeSchema).optional(),
+  external_url: z.string().optional(),
+  background_color: z.string().optional(),
+  animation_url: z.string().optional()
+});
+
+/**
+ * Replace ERC-1155 {id} placeholders with the 64-digit hex token ID
+ */
+export function substituteTokenId(uri: string, tokenId: string): string {
+  if (!uri.includes('{id}')) return uri;
+
+  const hexId = ethers.utils.hexZeroPad(ethers.BigNumber.from(tokenId).toHexString(), 32).slice(2);
+  return uri.split('{id}').join(hexId);
+}
+
+/**
+ * Fetchable URLs for a URI, in the order to try them
+ */
+export function gatewayUrls(
+  uri: string,
+  ipfsGateways: string[] = IPFS_GATEWAYS,
+  arweaveGateways: string[] = ARWEAVE_GATEWAYS
+): string[] {
+  if (uri.startsWith('ipfs://')) {
+    // ipfs://ipfs/<cid> is a common malformed variant
+    const path = uri.slice('ipfs://'.length).replace(/^ipfs\//, '');
+    return ipfsGateways.map(gateway => gateway + path);
+  }
+
+  if (uri.startsWith('ar://')) {
+    const path = uri.slice('ar://'.length);
+    return arweaveGateways.map(gateway => gateway + path);
+  }
+
+  if (/^https?:\/\//i.test(uri)) return [uri];
+
+  throw new Error(`Unsupported metadata URI scheme: ${uri.split(':')[0] || uri.slice(0, 20)}`);
+}
+
+/**
+ * Decode the body of a data: URI as text
+ */
+export function decodeDataUri(uri: string): string {
+  const comma = uri.indexOf(',');
+  if (!uri.startsWith('data:') || comma === -1) throw new Error('Malformed data URI');
+
+  const params = uri.slice('data:'.length, comma).split(';').map(param => param.trim().toLowerCase());
+  const body = uri.slice(comma + 1);
+
+  try {
+    if (params.includes('base64')) {
+      const binary = atob(body);
+      return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+    }
+    return decodeURIComponent(body);
+  } catch {
+    throw new Error('Could not decode data URI');
+  }
+}
+
+/**
+ * Validate parsed JSON into NFTMetadata
+ */
+export function parseMetadata(json: unknown): NFTMetadata {
+  const result = metadataSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid metadata: ${issue.path.join('.') || 'document'} ${issue.message.toLowerCase()}`);
+  }
+
+  const { image, image_data, ...metadata } = result.data;
+  return { ...metadata, image: image ?? (image_data ? `data:image/svg+xml;utf8,${encodeURIComponent(image_data)}` : '') };
+}
+
+/**
+ * Rewrite an image URI to something an <img> can load (first gateway for ipfs/ar)
+ */
+export function resolveImageUri(
+  uri: string,
+  { tokenId, ipfsGateways, arweaveGateways }: MetadataResolverOptions = {}
+): string {
+  const substituted = tokenId ? substituteTokenId(uri, tokenId) : uri;
+  if (substituted.startsWith('ipfs://') || substituted.startsWith('ar://')) {
+    return gatewayUrls(substituted, ipfsGateways, arweaveGateways)[0] ?? substituted;
+  }
+  return substituted;
+}
+
+/**
+ * Rewrite a metadata link (external_url, animation_url) for an <a href>
+ * ipfs:// and ar:// go through the first gateway; schemes other than http(s),
+ * such as javascript: or data:, give null so the link is shown as text only.
+ */
+export function resolveLinkUri(uri: string, options: MetadataResolverOptions = {}): string | null {
+  const resolved = resolveImageUri(uri.trim(), options);
+  return /^https?:\/\//i.test(resolved) ? resolved : null;
+}
+
+/**
+ * Fetch JSON from a URL, giving up after the timeout
+ */
+async function fetchJson(url: string, fetcher: typeof fetch, timeout: number): Promise<unknown> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetcher(url, { signal: controller.signal });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return await response.json();
+  } catch (error: any) {
+    if (error?.name === 'AbortError') throw new Error('timed out');
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Parse JSON text, with a readable error
+ */
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error('Metadata is not valid JSON');
+  }
+}
+
+/**
+ * Load the raw metadata document a tokenURI points to
+ */
+export async function loadMetadataJson(
+  tokenURI: string,
+  options: MetadataResolverOptions = {}
+): Promise<unknown> {
+  const {
+    tokenId,
+    ipfsGateways,
+    arweaveGateways,
+    timeout = REQUEST_TIMEOUT,
+    fetch: fetcher = fetch
+  } = options;
+  const uri = tokenId ? substituteTokenId(tokenURI.trim(), tokenId) : tokenURI.trim();
+
+  if (!uri) throw new Error('Token has no metadata URI');
+
+  if (uri.startsWith('data:')) return parseJson(decodeDataUri(uri));
+
+  const urls = gatewayUrls(uri, ipfsGateways, arweaveGateways);
+  const failures: string[] = [];
+
+  for (const url of urls) {
+    try {
+      return await fetchJson(url, fetcher, timeout);
+    } catch (error: any) {
+      failures.push(`${new URL(url).host}: ${error?.message ?? 'request failed'}`);
+    }
+  }
+
+  throw new Error(`Could not load metadata (${failures.join('; ')})`);
+}
+
+/**
+ * Validate a metadata document, rewriting its image to a fetchable URL
+ */
+export function toResolvedMetadata(json: unknown, options: MetadataResolverOptions = {}): NFTMetadata {
+  const metadata = parseMetadata(json);
+  return metadata.image ? { ...metadata, image: resolveImageUri(metadata.image, options) } : metadata;
+}
+
+/**
+ * Resolve a tokenURI to validated metadata
+ */
+export async function resolveMetadata(
+  tokenURI: string,
+  options: MetadataResolverOptions = {}
+): Promise<NFTMetadata> {
+  return toResolvedMetadata(await loadMetadataJson(tokenURI, options), options);
+}
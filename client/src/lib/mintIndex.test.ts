@@ -0,0 +1,156 @@
+/**
+ * Unit Tests for the Collection Mint Index
+ *
+ * Indexes Minted events from a fake chain that caps the getLogs block range:
+ * - Every mint is found through the chunked queryFilter scanner
+ * - Progress is cached after each chunk and later scans resume from it
+ * - Rescanning the reorg margin never duplicates mints and drops reorged-out ones
+ * - Block times are fetched once per block and cached
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { FakeChain, fakeBlock, fakeEventLog } from '@/test/fakeChain';
+import { CONTRACTS } from './contracts';
+import { fillMintTimestamps, getRescanStart, loadMintIndex, mergeMints, updateMintIndex } from './mintIndex';
+
+const NFT = '0x3333333333333333333333333333333333333333';
+const MINTER = '0x1111111111111111111111111111111111111111';
+const nft = new ethers.utils.Interface(CONTRACTS.WENTGE.abi);
+
+class MintingChain extends FakeChain {
+  latest = 999;
+  ranges: Array<[number, number]> = [];
+  blockReads: number[] = [];
+
+  // Block of each mint, indexed by token ID
+  constructor(public mintBlocks: number[]) {
+    super();
+  }
+
+  async perform(method: string, params: any): Promise<any> {
+    switch (method) {
+      case 'getBlockNumber':
+        return this.latest;
+      case 'getBlock':
+        this.blockReads.push(Number(params.blockTag));
+        return fakeBlock(Number(params.blockTag), { timestamp: 1700000000 + Number(params.blockTag) });
+      case 'getLogs': {
+        const from = Number(params.filter.fromBlock);
+        const to = Number(params.filter.toBlock);
+        if (to - from + 1 > 400) throw { code: -32005, message: 'block range too large' };
+
+        this.ranges.push([from, to]);
+        return this.mintBlocks
+          .map((block, tokenId) => ({ block, tokenId }))
+          .filter(({ block }) => block >= from && block <= to)
+          .map(({ block, tokenId }) => fakeEventLog(nft, 'Minted', [MINTER, tokenId], {
+            address: NFT,
+            blockNumber: block,
+            logIndex: tokenId
+          }));
+      }
+      default:
+        return super.perform(method, params);
+    }
+  }
+}
+
+describe('mint index', () => {
+  let store: Map<string, string>;
+
+  beforeEach(() => {
+    store = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => { store.set(key, value); },
+      removeItem: (key: string) => { store.delete(key); }
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('indexes every mint across range-limited chunks', async () => {
+    const provider = new MintingChain([5, 300, 301, 850]);
+    const contract = new ethers.Contract(NFT, CONTRACTS.WENTGE.abi, provider);
+    const saved: number[] = [];
+
+    const index = await updateMintIndex(contract, 31337, {
+      onProgress: () => saved.push(loadMintIndex(31337, NFT).scannedTo)
+    });
+
+    expect(index.scannedTo).toBe(999);
+    expect(index.mints.map(mint => mint.tokenId)).toEqual(['0', '1', '2', '3']);
+    expect(index.mints[3]).toMatchObject({ to: MINTER, blockNumber: 850, timestamp: null });
+    // 50000-block first chunk halved down to the node's limit, progress saved per chunk
+    expect(provider.ranges[0]).toEqual([0, 389]);
+    expect(saved).toEqual([389, 779, 999]);
+  });
+
+  it('resumes from the cached block and rescans only the reorg margin', async () => {
+    const provider = new MintingChain([5, 300]);
+    const contract = new ethers.Contract(NFT, CONTRACTS.WENTGE.abi, provider);
+    await updateMintIndex(contract, 31337);
+
+    provider.latest = 1200;
+    provider.ranges = [];
+    const index = await updateMintIndex(contract, 31337);
+
+    expect(provider.ranges).toEqual([[988, 1200]]);
+    expect(index.mints).toHaveLength(2);
+    expect(loadMintIndex(31337, NFT).scannedTo).toBe(1200);
+  });
+
+  it('drops cached mints that a reorg removed from the margin', async () => {
+    const provider = new MintingChain([5, 300, 995]);
+    const contract = new ethers.Contract(NFT, CONTRACTS.WENTGE.abi, provider);
+    await updateMintIndex(contract, 31337);
+
+    // Token 2's mint was reorged out and landed a block later on the new fork
+    provider.mintBlocks = [5, 300, 996];
+    provider.latest = 1005;
+    const index = await updateMintIndex(contract, 31337);
+
+    expect(index.mints.map(mint => [mint.tokenId, mint.blockNumber])).toEqual([['0', 5], ['1', 300], ['2', 996]]);
+    expect(loadMintIndex(31337, NFT).mints).toHaveLength(3);
+  });
+
+  it('fills block times once per block', async () => {
+    const provider = new MintingChain([5, 5, 300]);
+    const contract = new ethers.Contract(NFT, CONTRACTS.WENTGE.abi, provider);
+    const index = await updateMintIndex(contract, 31337);
+
+    const updated = await fillMintTimestamps(provider, index, index.mints);
+    expect(updated.mints.map(mint => mint.timestamp)).toEqual([1700000005, 1700000005, 1700000300]);
+    expect(provider.blockReads.sort()).toEqual([300, 5].sort());
+
+    await fillMintTimestamps(provider, updated, updated.mints);
+    expect(provider.blockReads).toHaveLength(2);
+    expect(loadMintIndex(31337, NFT).mints[2].timestamp).toBe(1700000300);
+  });
+});
+
+describe('getRescanStart', () => {
+  it('starts at the reorg margin, or fromBlock when nothing is cached', () => {
+    const index = { chainId: 31337, contract: NFT, scannedTo: 999, mints: [] };
+
+    expect(getRescanStart(index)).toBe(988);
+    expect(getRescanStart(index, 995)).toBe(995);
+    expect(getRescanStart({ ...index, scannedTo: -1 }, 40)).toBe(40);
+  });
+});
+
+describe('mergeMints', () => {
+  it('keeps each log once, oldest first', () => {
+    const mint = (blockNumber: number, logIndex: number) => ({
+      tokenId: String(blockNumber), to: MINTER, blockNumber, logIndex, timestamp: null,
+      transactionHash: ethers.utils.hexZeroPad(ethers.utils.hexlify(blockNumber), 32)
+    });
+
+    const merged = mergeMints([mint(5, 0), mint(9, 1)], [mint(9, 1), mint(7, 0)]);
+
+    expect(merged.map(entry => entry.blockNumber)).toEqual([5, 7, 9]);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Collection Mint Index
+ *
+ * Indexes every Minted event of a collection with the chunked event scanner
+ * and caches the result per chain and contract in localStorage, along with
+ * how far the scan got. Later updates resume from the cached block (less a
+ * small reorg margin whose cached mints are replaced by the rescan, so mints
+ * reorged out of the chain disappear), and partial scans are saved after
+ * every chunk so an interrupted scan is not lost. Block times are fetched lazily for the mints
+ * actually displayed.
+ */
+
+import { ethers } from "ethers";
+import { scanEvents } from "@shared/logs";
+import type { IndexedMint, MintEvent, MintIndex } from "@/types/contracts";
+
+const STORAGE_PREFIX = 'web3playground.mintIndex';
+
+// Recent blocks rescanned on each update in case the chain reorganised
+const REORG_DEPTH = 12;
+
+interface MintIndexOptions {
+  // First block scanned when nothing is cached
+  fromBlock?: number;
+  onProgress?: (index: MintIndex, toBlock: number) => void;
+}
+
+/**
+ * localStorage key for a collection's index on one chain
+ */
+function storageKey(chainId: number, contract: string): string {
+  return `${STORAGE_PREFIX}.${chainId}.${contract.toLowerCase()}`;
+}
+
+/**
+ * Identify a mint by the log that emitted it
+ */
+function mintKey(mint: IndexedMint): string {
+  return `${mint.transactionHash}:${mint.logIndex}`;
+}
+
+/**
+ * Read a collection's cached index, or an empty one
+ */
+export function loadMintIndex(chainId: number, contract: string): MintIndex {
+  const empty: MintIndex = { chainId, contract, scannedTo: -1, mints: [] };
+
+  try {
+    const stored = localStorage.getItem(storageKey(chainId, contract));
+    const parsed = stored ? JSON.parse(stored) : null;
+    return parsed && Array.isArray(parsed.mints) && typeof parsed.scannedTo === 'number' ? parsed : empty;
+  } catch (error) {
+    console.warn('Unable to read mint index:', error);
+    return empty;
+  }
+}
+
+/**
+ * Persist a collection's index
+ */
+export function saveMintIndex(index: MintIndex) {
+  try {
+    localStorage.setItem(storageKey(index.chainId, index.contract), JSON.stringify(index));
+  } catch (error) {
+    console.warn('Unable to save mint index:', error);
+  }
+}
+
+/**
+ * Convert a Minted event to its stored form
+ */
+export function toIndexedMint(event: MintEvent): IndexedMint {
+  return {
+    tokenId: event.args.tokenId.toString(),
+    to: event.args.to,
+    blockNumber: event.blockNumber,
+    transactionHash: event.transactionHash,
+    logIndex: event.logIndex,
+    timestamp: null
+  };
+}
+
+/**
+ * Add newly scanned mints to the index, oldest first, each log once
+ */
+export function mergeMints(existing: IndexedMint[], added: IndexedMint[]): IndexedMint[] {
+  const mints = new Map(existing.map(mint => [mintKey(mint), mint]));
+  for (const mint of added) {
+    if (!mints.has(mintKey(mint))) mints.set(mintKey(mint), mint);
+  }
+
+  return Array.from(mints.values())
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
+
+/**
+ * First block an update scans: the start of the reorg margin, or fromBlock
+ * when nothing is cached
+ */
+export function getRescanStart(index: MintIndex, fromBlock = 0): number {
+  return index.scannedTo >= 0
+    ? Math.max(fromBlock, index.scannedTo - REORG_DEPTH + 1)
+    : fromBlock;
+}
+
+/**
+ * Scan Minted events from where the cached index left off
+ */
+export async function updateMintIndex(
+  contract: ethers.Contract,
+  chainId: number,
+  { fromBlock = 0, onProgress }: MintIndexOptions = {}
+): Promise<MintIndex> {
+  const cached = loadMintIndex(chainId, contract.address);
+  const start = getRescanStart(cached, fromBlock);
+  // The rescan is authoritative from its start; saved only once a chunk is in
+  let index: MintIndex = { ...cached, mints: cached.mints.filter(mint => mint.blockNumber < start) };
+
+  await scanEvents(contract, contract.filters.Minted(), {
+    fromBlock: start,
+    onProgress: (scannedTo, toBlock, chunk) => {
+      index = {
+        ...index,
+        scannedTo,
+        mints: mergeMints(index.mints, chunk.map(event => toIndexedMint(event as unknown as MintEvent)))
+      };
+      saveMintIndex(index);
+      onProgress?.(index, toBlock);
+    }
+  });
+
+  return index;
+}
+
+/**
+ * Fill in block times for the given mints and cache them in the index
+ */
+export async function fillMintTimestamps(
+  provider: ethers.providers.Provider,
+  index: MintIndex,
+  mints: IndexedMint[]
+): Promise<MintIndex> {
+  const blocks = Array.from(new Set(
+    mints.filter(mint => mint.timestamp === null).map(mint => mint.blockNumber)
+  ));
+  if (blocks.length === 0) return index;
+
+  const timestamps = new Map<number, number>();
+  await Promise.all(blocks.map(async blockNumber => {
+    const block = await provider.getBlock(blockNumber);
+    if (block) timestamps.set(blockNumber, block.timestamp);
+  }));
+
+  const updated: MintIndex = {
+    ...index,
+    mints: index.mints.map(mint =>
+      mint.timestamp === null && timestamps.has(mint.blockNumber)
+        ? { ...mint, timestamp: timestamps.get(mint.blockNumber)! }
+        : mint
+    )
+  };
+  saveMintIndex(updated);
+  return updated;
+}
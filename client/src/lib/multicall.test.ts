@@ -0,0 +1,193 @@
+/**
+ * Unit Tests for Multicall3 Batching
+ *
+ * Runs against an in-memory provider that answers aggregate3 itself:
+ * - Batching calls into a single eth_call, in call order
+ * - Per-call failures without failing the whole batch
+ * - Falling back to parallel calls when Multicall3 is not deployed, or for
+ *   one batch when the deployment check fails
+ * - multicallValues surfacing the first failure
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { FakeChain } from '@/test/fakeChain';
+import { MULTICALL3_ADDRESS, multicall, multicallValues } from './multicall';
+
+const NFT_ADDRESS = '0x2222222222222222222222222222222222222222';
+const OWNER = '0x1111111111111111111111111111111111111111';
+const OWNED_TOKENS = [3, 7, 9];
+const BROKEN_TOKEN = 7;
+
+const NFT_ABI = [
+  "function balanceOf(address owner) view returns (uint256)",
+  "function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)",
+  "function tokenURI(uint256 tokenId) view returns (string)",
+  "function imageURI() view returns (string)"
+];
+
+const nftInterface = new ethers.utils.Interface(NFT_ABI);
+const multicallInterface = new ethers.utils.Interface([
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)"
+]);
+
+/**
+ * Answer a call to the fake NFT, throwing on revert
+ */
+function callNft(data: string): string {
+  const { name, args } = nftInterface.parseTransaction({ data });
+
+  switch (name) {
+    case 'balanceOf':
+      return nftInterface.encodeFunctionResult(name, [OWNED_TOKENS.length]);
+    case 'tokenOfOwnerByIndex':
+      return nftInterface.encodeFunctionResult(name, [OWNED_TOKENS[args.index.toNumber()]]);
+    case 'tokenURI':
+      if (args.tokenId.toNumber() === BROKEN_TOKEN) throw new Error('execution reverted: Token does not exist');
+      return nftInterface.encodeFunctionResult(name, [`data:application/json,{"id":${args.tokenId}}`]);
+    default:
+      return nftInterface.encodeFunctionResult(name, ['data:image/svg+xml,<svg/>']);
+  }
+}
+
+class FakeProvider extends FakeChain {
+  ethCalls: string[] = [];
+  // eth_getCode requests to fail before answering
+  getCodeFailures = 0;
+
+  constructor(private multicallDeployed: boolean) {
+    super();
+  }
+
+  async perform(method: string, params: any): Promise<any> {
+    if (method === 'getCode') {
+      if (this.getCodeFailures > 0) {
+        this.getCodeFailures--;
+        throw new Error('connection reset');
+      }
+      return params.address.toLowerCase() === MULTICALL3_ADDRESS.toLowerCase() && this.multicallDeployed
+        ? '0x6080'
+        : '0x';
+    }
+
+    if (method !== 'call') return super.perform(method, params);
+
+    const { to, data } = params.transaction;
+    this.ethCalls.push(to.toLowerCase());
+
+    if (to.toLowerCase() !== MULTICALL3_ADDRESS.toLowerCase()) return callNft(data);
+
+    const [calls] = multicallInterface.decodeFunctionData('aggregate3', data);
+    const results = calls.map((call: { callData: string }) => {
+      try {
+        return { success: true, returnData: callNft(call.callData) };
+      } catch {
+        // Error(string) revert payload
+        return { success: false, returnData: '0x08c379a0' };
+      }
+    });
+    return multicallInterface.encodeFunctionResult('aggregate3', [results]);
+  }
+}
+
+/**
+ * Build token calls for every owned index plus each token's URI
+ */
+function tokenCalls(contract: ethers.Contract) {
+  return [
+    ...OWNED_TOKENS.map((_, index) => ({ contract, method: 'tokenOfOwnerByIndex', args: [OWNER, index] })),
+    ...OWNED_TOKENS.map(tokenId => ({ contract, method: 'tokenURI', args: [tokenId] }))
+  ];
+}
+
+describe('multicall', () => {
+  it('batches calls into a single aggregate3 request', async () => {
+    const provider = new FakeProvider(true);
+    const contract = new ethers.Contract(NFT_ADDRESS, NFT_ABI, provider);
+
+    const results = await multicall(provider, tokenCalls(contract));
+
+    expect(provider.ethCalls).toEqual([MULTICALL3_ADDRESS.toLowerCase()]);
+    expect(results.slice(0, 3).map(result => result.success && result.value.toNumber())).toEqual(OWNED_TOKENS);
+    expect(results[3]).toEqual({ success: true, value: 'data:application/json,{"id":3}' });
+  });
+
+  it('reports a reverted call without failing the batch', async () => {
+    const provider = new FakeProvider(true);
+    const contract = new ethers.Contract(NFT_ADDRESS, NFT_ABI, provider);
+
+    const results = await multicall(provider, tokenCalls(contract));
+    const broken = results[4];
+
+    expect(broken.success).toBe(false);
+    if (!broken.success) {
+      expect((broken.error as any).code).toBe(ethers.errors.CALL_EXCEPTION);
+      expect((broken.error as any).method).toBe('tokenURI');
+    }
+    expect(results[5].success).toBe(true);
+  });
+
+  it('splits large call lists into batches', async () => {
+    const provider = new FakeProvider(true);
+    const contract = new ethers.Contract(NFT_ADDRESS, NFT_ABI, provider);
+
+    const results = await multicall(provider, tokenCalls(contract), { batchSize: 2 });
+
+    expect(provider.ethCalls).toHaveLength(3);
+    expect(results).toHaveLength(6);
+    expect(results[2]).toMatchObject({ success: true });
+  });
+
+  it('falls back to parallel calls when Multicall3 is not deployed', async () => {
+    const provider = new FakeProvider(false);
+    const contract = new ethers.Contract(NFT_ADDRESS, NFT_ABI, provider);
+
+    const results = await multicall(provider, tokenCalls(contract));
+
+    expect(provider.ethCalls).toHaveLength(6);
+    expect(provider.ethCalls.every(to => to === NFT_ADDRESS)).toBe(true);
+    expect(results[0]).toMatchObject({ success: true });
+    expect(results[4].success).toBe(false);
+  });
+
+  it('checks for Multicall3 again after a failed lookup', async () => {
+    const provider = new FakeProvider(true);
+    const contract = new ethers.Contract(NFT_ADDRESS, NFT_ABI, provider);
+    provider.getCodeFailures = 1;
+
+    await multicall(provider, tokenCalls(contract));
+    expect(provider.ethCalls).toHaveLength(6);
+
+    provider.ethCalls = [];
+    await multicall(provider, tokenCalls(contract));
+    expect(provider.ethCalls).toEqual([MULTICALL3_ADDRESS.toLowerCase()]);
+  });
+
+  it('returns no results for no calls', async () => {
+    const provider = new FakeProvider(true);
+    expect(await multicall(provider, [])).toEqual([]);
+    expect(provider.ethCalls).toHaveLength(0);
+  });
+});
+
+describe('multicallValues', () => {
+  it('returns plain values in call order', async () => {
+    const provider = new FakeProvider(true);
+    const contract = new ethers.Contract(NFT_ADDRESS, NFT_ABI, provider);
+
+    const [balance, imageURI] = await multicallValues<[ethers.BigNumber, string]>(provider, [
+      { contract, method: 'balanceOf', args: [OWNER] },
+      { contract, method: 'imageURI' }
+    ]);
+
+    expect(balance.toNumber()).toBe(OWNED_TOKENS.length);
+    expect(imageURI).toBe('data:image/svg+xml,<svg/>');
+  });
+
+  it('throws the first failed call', async () => {
+    const provider = new FakeProvider(true);
+    const contract = new ethers.Contract(NFT_ADDRESS, NFT_ABI, provider);
+
+    await expect(multicallValues(provider, tokenCalls(contract))).rejects.toMatchObject({ method: 'tokenURI' });
+  });
+});
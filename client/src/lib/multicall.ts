@@ -0,0 +1,163 @@
+/**
+ * Multicall3 Batching
+ *
+ * Aggregates contract view calls into a single eth_call through the canonical
+ * Multicall3 deployment (0xcA11...CA11, available at the same address on most
+ * EVM chains). Each call may fail independently. When the multicall contract
+ * is not deployed on the connected chain (e.g. a fresh local devnet), or the
+ * aggregate call itself fails, the calls are issued in parallel instead.
+ */
+
+import { ethers } from "ethers";
+
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+export const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)"
+];
+
+// Calls per eth_call, keeps each batch well under node gas/response limits
+const DEFAULT_BATCH_SIZE = 500;
+
+export interface ContractCall {
+  contract: ethers.Contract;
+  method: string;
+  args?: unknown[];
+}
+
+export type CallResult<T = any> =
+  | { success: true; value: T }
+  | { success: false; error: Error };
+
+interface MulticallOptions {
+  multicallAddress?: string;
+  batchSize?: number;
+}
+
+// Multicall3 availability per provider (checked once via eth_getCode; a failed
+// lookup is not cached, so the next batch asks again)
+const availability = new WeakMap<ethers.providers.Provider, Promise<boolean>>();
+
+/**
+ * Check whether Multicall3 is deployed on the provider's chain
+ */
+export function isMulticallAvailable(
+  provider: ethers.providers.Provider,
+  multicallAddress = MULTICALL3_ADDRESS
+): Promise<boolean> {
+  let available = availability.get(provider);
+  if (!available) {
+    const lookup: Promise<boolean> = provider.getCode(multicallAddress)
+      .then(code => code !== '0x')
+      .catch(() => {
+        if (availability.get(provider) === lookup) availability.delete(provider);
+        return false;
+      });
+    available = lookup;
+    availability.set(provider, available);
+  }
+  return available;
+}
+
+/**
+ * Unwrap single-output results so callers get the value itself
+ */
+function unwrapResult(result: ethers.utils.Result): any {
+  return result.length === 1 ? result[0] : result;
+}
+
+/**
+ * Issue the calls individually, in parallel
+ */
+async function parallelCalls(calls: ContractCall[]): Promise<CallResult[]> {
+  const settled = await Promise.allSettled(
+    calls.map(({ contract, method, args = [] }) => contract.callStatic[method](...args))
+  );
+
+  return settled.map(outcome =>
+    outcome.status === 'fulfilled'
+      ? { success: true, value: outcome.value }
+      : { success: false, error: outcome.reason instanceof Error ? outcome.reason : new Error(String(outcome.reason)) }
+  );
+}
+
+/**
+ * Run one batch through Multicall3.aggregate3
+ */
+async function aggregateBatch(
+  multicallContract: ethers.Contract,
+  calls: ContractCall[]
+): Promise<CallResult[]> {
+  const encoded = calls.map(({ contract, method, args = [] }) => ({
+    target: contract.address,
+    allowFailure: true,
+    callData: contract.interface.encodeFunctionData(method, args)
+  }));
+
+  const returnData: { success: boolean; returnData: string }[] =
+    await multicallContract.callStatic.aggregate3(encoded);
+
+  return returnData.map((entry, index) => {
+    const { contract, method } = calls[index];
+
+    if (!entry.success) {
+      const error: any = new Error(`call revert exception: ${method} reverted`);
+      error.code = ethers.errors.CALL_EXCEPTION;
+      error.method = method;
+      error.data = entry.returnData;
+      return { success: false, error };
+    }
+
+    try {
+      return { success: true, value: unwrapResult(contract.interface.decodeFunctionResult(method, entry.returnData)) };
+    } catch (decodeError: any) {
+      return { success: false, error: decodeError };
+    }
+  });
+}
+
+/**
+ * Execute view calls in as few round trips as possible
+ * Results are returned in call order; failures are reported per call.
+ */
+export async function multicall(
+  provider: ethers.providers.Provider,
+  calls: ContractCall[],
+  { multicallAddress = MULTICALL3_ADDRESS, batchSize = DEFAULT_BATCH_SIZE }: MulticallOptions = {}
+): Promise<CallResult[]> {
+  if (calls.length === 0) return [];
+
+  if (!(await isMulticallAvailable(provider, multicallAddress))) {
+    return parallelCalls(calls);
+  }
+
+  const multicallContract = new ethers.Contract(multicallAddress, MULTICALL3_ABI, provider);
+  const batches: ContractCall[][] = [];
+  for (let i = 0; i < calls.length; i += batchSize) {
+    batches.push(calls.slice(i, i + batchSize));
+  }
+
+  try {
+    const results = await Promise.all(batches.map(batch => aggregateBatch(multicallContract, batch)));
+    return results.flat();
+  } catch (error) {
+    console.warn('Multicall failed, falling back to parallel calls:', error);
+    return parallelCalls(calls);
+  }
+}
+
+/**
+ * Execute view calls and return their values, throwing the first failure
+ */
+export async function multicallValues<T extends any[] = any[]>(
+  provider: ethers.providers.Provider,
+  calls: ContractCall[],
+  options?: MulticallOptions
+): Promise<T> {
+  const results = await multicall(provider, calls, options);
+
+  return results.map(result => {
+    if (!result.success) throw result.error;
+    return result.value;
+  }) as T;
+}
@@ -0,0 +1,53 @@
+/**
+ * Unit Tests for the Network Registry
+ *
+ * Guards the registered chains and the lookups built on them:
+ * - Keys match their entries, chain IDs are unique
+ * - isNetworkKey accepts registered keys only, never prototype properties
+ * - Chain ID lookup and wallet_addEthereumChain parameters
+ */
+
+import { describe, it, expect } from 'vitest';
+import { NETWORKS, NETWORK_KEYS, getNetworkByChainId, isNetworkKey, toAddChainParams } from './networks';
+
+describe('network registry', () => {
+  it('should key each network by its own key with a unique chain ID', () => {
+    expect(NETWORK_KEYS).toEqual(['hemi', 'hemiSepolia', 'devnet']);
+
+    for (const key of NETWORK_KEYS) {
+      expect(NETWORKS[key].key).toBe(key);
+    }
+    const chainIds = NETWORK_KEYS.map(key => NETWORKS[key].chainId);
+    expect(new Set(chainIds).size).toBe(chainIds.length);
+  });
+
+  it('should find networks by chain ID', () => {
+    expect(getNetworkByChainId(43111)).toBe(NETWORKS.hemi);
+    expect(getNetworkByChainId(31337)).toBe(NETWORKS.devnet);
+    expect(getNetworkByChainId(1)).toBeUndefined();
+    expect(getNetworkByChainId(null)).toBeUndefined();
+  });
+
+  it('should build wallet_addEthereumChain parameters', () => {
+    expect(toAddChainParams(NETWORKS.hemiSepolia)).toMatchObject({
+      chainId: '0xb56c7',
+      chainName: 'Hemi Sepolia',
+      rpcUrls: ['https://testnet.rpc.hemi.network/rpc'],
+      blockExplorerUrls: ['https://testnet.explorer.hemi.xyz/']
+    });
+  });
+});
+
+describe('isNetworkKey', () => {
+  it('should accept registered keys', () => {
+    for (const key of NETWORK_KEYS) {
+      expect(isNetworkKey(key)).toBe(true);
+    }
+  });
+
+  it('should reject unknown values and prototype properties', () => {
+    for (const value of ['mainnet', '', 'toString', 'constructor', '__proto__', 'hasOwnProperty', null, 43111]) {
+      expect(isNetworkKey(value)).toBe(false);
+    }
+  });
+});
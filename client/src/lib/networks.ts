@@ -0,0 +1,141 @@
+/**
+ * Network Registry
+ *
+ * Typed registry of every chain the playground can target: Hemi mainnet,
+ * Hemi Sepolia testnet and a local devnet (Anvil/Hardhat). Each entry carries
+ * the per-network deployment addresses of the playground contracts, so the
+ * same UI can be pointed at testnet or local deployments without forking code.
+ * Non-mainnet addresses and extra fallback RPC endpoints are read from VITE_*
+ * environment variables.
+ */
+
+import { CONTRACTS } from "./contracts";
+import type {
+  ContractName,
+  NetworkContracts,
+  NetworkDeployment,
+  NetworkKey
+} from "@/types/contracts";
+
+/**
+ * Read deployment addresses for a network from the environment,
+ * e.g. VITE_HEMI_SEPOLIA_WENTGE_ADDRESS. Missing entries are left empty.
+ */
+function envContracts(prefix: string): NetworkContracts {
+  const env = import.meta.env;
+  return {
+    WENTGE: env[`VITE_${prefix}_WENTGE_ADDRESS`] ?? '',
+    FOOM: env[`VITE_${prefix}_FOOM_ADDRESS`] ?? '',
+    HAIR: env[`VITE_${prefix}_HAIR_ADDRESS`] ?? '',
+    MAX: env[`VITE_${prefix}_MAX_ADDRESS`] ?? ''
+  };
+}
+
+/**
+ * Read a comma-separated list of fallback RPC URLs, e.g. VITE_HEMI_FALLBACK_RPC_URLS
+ */
+function envRpcUrls(prefix: string): string[] {
+  const value: string | undefined = import.meta.env[`VITE_${prefix}_FALLBACK_RPC_URLS`];
+  return value ? value.split(',').map(url => url.trim()).filter(Boolean) : [];
+}
+
+export const NETWORKS: Record<NetworkKey, NetworkDeployment> = {
+  // Hemi mainnet (Chain ID 43111)
+  hemi: {
+    key: 'hemi',
+    chainId: 43111,
+    name: "Hemi Network",
+    shortName: "Hemi",
+    testnet: false,
+    rpcUrl: "https://rpc.hemi.network/rpc",
+    fallbackRpcUrls: envRpcUrls('HEMI'),
+    blockExplorer: "https://explorer.hemi.xyz",
+    nativeCurrency: {
+      name: "ETH",
+      symbol: "ETH",
+      decimals: 18
+    },
+    contracts: {
+      WENTGE: CONTRACTS.WENTGE.address,
+      FOOM: CONTRACTS.FOOM.address,
+      HAIR: CONTRACTS.HAIR.address,
+      MAX: CONTRACTS.MAX.address
+    }
+  },
+  // Hemi Sepolia testnet (Chain ID 743111)
+  hemiSepolia: {
+    key: 'hemiSepolia',
+    chainId: 743111,
+    name: "Hemi Sepolia",
+    shortName: "Hemi Sepolia",
+    testnet: true,
+    rpcUrl: "https://testnet.rpc.hemi.network/rpc",
+    fallbackRpcUrls: envRpcUrls('HEMI_SEPOLIA'),
+    blockExplorer: "https://testnet.explorer.hemi.xyz",
+    nativeCurrency: {
+      name: "Sepolia ETH",
+      symbol: "ETH",
+      decimals: 18
+    },
+    contracts: envContracts('HEMI_SEPOLIA')
+  },
+  // Local Anvil/Hardhat node (Chain ID 31337)
+  devnet: {
+    key: 'devnet',
+    chainId: 31337,
+    name: "Local Devnet",
+    shortName: "Devnet",
+    testnet: true,
+    rpcUrl: import.meta.env.VITE_DEVNET_RPC_URL ?? "http://127.0.0.1:8545",
+    fallbackRpcUrls: [],
+    blockExplorer: import.meta.env.VITE_DEVNET_EXPLORER_URL ?? "http://localhost:5100",
+    nativeCurrency: {
+      name: "ETH",
+      symbol: "ETH",
+      decimals: 18
+    },
+    contracts: envContracts('DEVNET')
+  }
+};
+
+export const NETWORK_KEYS = Object.keys(NETWORKS) as NetworkKey[];
+
+/**
+ * Check whether a string names a registered network
+ */
+export function isNetworkKey(value: unknown): value is NetworkKey {
+  return typeof value === 'string' && Object.hasOwn(NETWORKS, value);
+}
+
+// Network selected when nothing has been chosen yet (VITE_DEFAULT_NETWORK)
+export const DEFAULT_NETWORK: NetworkDeployment = isNetworkKey(import.meta.env.VITE_DEFAULT_NETWORK)
+  ? NETWORKS[import.meta.env.VITE_DEFAULT_NETWORK as NetworkKey]
+  : NETWORKS.hemi;
+
+/**
+ * Find the registered network for a chain ID
+ */
+export function getNetworkByChainId(chainId: number | null | undefined): NetworkDeployment | undefined {
+  if (chainId == null) return undefined;
+  return Object.values(NETWORKS).find(network => network.chainId === chainId);
+}
+
+/**
+ * Get a contract's deployment address on a network (empty if not deployed)
+ */
+export function getContractAddress(network: NetworkDeployment, name: ContractName): string {
+  return network.contracts[name];
+}
+
+/**
+ * Build wallet_addEthereumChain parameters for a network
+ */
+export function toAddChainParams(network: NetworkDeployment) {
+  return {
+    chainId: `0x${network.chainId.toString(16)}`,
+    chainName: network.name,
+    rpcUrls: [network.rpcUrl],
+    nativeCurrency: network.nativeCurrency,
+    blockExplorerUrls: [`${network.blockExplorer}/`]
+  };
+}
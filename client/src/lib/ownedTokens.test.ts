@@ -0,0 +1,210 @@
+/**
+ * Unit Tests for Owned Token Enumeration
+ *
+ * Runs against an in-memory collection to check each strategy and the
+ * fallbacks between them:
+ * - tokensOfOwner when implemented
+ * - ERC721Enumerable indexing when tokensOfOwner reverts
+ * - Transfer-log reconstruction for non-enumerable collections, scanned in
+ *   chunks, skipping burned tokens whose ownerOf reverts
+ * - NFTToken shaping with a single shared imageURI
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { FakeChain, fakeEventLog } from '@/test/fakeChain';
+import { CONTRACTS } from './contracts';
+import { ERC721_ENUMERABLE_INTERFACE_ID, getOwnedTokenIds, loadOwnedTokens } from './ownedTokens';
+
+const NFT_ADDRESS = '0x2222222222222222222222222222222222222222';
+const OWNER = '0x1111111111111111111111111111111111111111';
+const OTHER = '0x3333333333333333333333333333333333333333';
+const EMPTY_WALLET = '0x4444444444444444444444444444444444444444';
+const IMAGE_URI = 'data:image/svg+xml,<svg/>';
+
+const nftInterface = new ethers.utils.Interface(CONTRACTS.FOOM.abi);
+
+interface CollectionOptions {
+  tokensOfOwner: boolean;
+  enumerable: boolean;
+}
+
+/**
+ * In-memory collection: OWNER received tokens 5, 2 and 8, then sent 8 on,
+ * one transfer every 30000 blocks
+ */
+class FakeCollection extends FakeChain {
+  owners = new Map<number, string>([[2, OWNER], [5, OWNER], [8, OTHER]]);
+  transfers: [string, string, number][] = [
+    [ethers.constants.AddressZero, OWNER, 5],
+    [ethers.constants.AddressZero, OWNER, 2],
+    [ethers.constants.AddressZero, OWNER, 8],
+    [OWNER, OTHER, 8]
+  ];
+  methodCalls: string[] = [];
+  logRanges: Array<[number, number]> = [];
+
+  constructor(private options: CollectionOptions) {
+    super();
+  }
+
+  ownedBy(owner: string): number[] {
+    return Array.from(this.owners.entries())
+      .filter(([, holder]) => holder === owner)
+      .map(([tokenId]) => tokenId);
+  }
+
+  async perform(method: string, params: any): Promise<any> {
+    if (method === 'getBlockNumber') return 120000;
+    if (method === 'getLogs') return this.transferLogs(params.filter);
+    if (method !== 'call') return super.perform(method, params);
+
+    const { name, args } = nftInterface.parseTransaction({ data: params.transaction.data });
+    this.methodCalls.push(name);
+
+    switch (name) {
+      case 'tokensOfOwner':
+        if (!this.options.tokensOfOwner) return '0x';
+        return nftInterface.encodeFunctionResult(name, [this.ownedBy(args.owner)]);
+      case 'supportsInterface':
+        return nftInterface.encodeFunctionResult(name, [
+          this.options.enumerable && args.interfaceId === ERC721_ENUMERABLE_INTERFACE_ID
+        ]);
+      case 'balanceOf':
+        return nftInterface.encodeFunctionResult(name, [this.ownedBy(args.owner).length]);
+      case 'tokenOfOwnerByIndex':
+        return nftInterface.encodeFunctionResult(name, [this.ownedBy(args.owner)[args.index.toNumber()]]);
+      case 'ownerOf':
+        // Burned tokens have no owner and revert
+        if (!this.owners.has(args.tokenId.toNumber())) return '0x';
+        return nftInterface.encodeFunctionResult(name, [this.owners.get(args.tokenId.toNumber())]);
+      case 'tokenURI':
+        return nftInterface.encodeFunctionResult(name, [`data:application/json,{"id":${args.tokenId}}`]);
+      case 'imageURI':
+        return nftInterface.encodeFunctionResult(name, [IMAGE_URI]);
+      default:
+        throw new Error(`unexpected call ${name}`);
+    }
+  }
+
+  transferLogs(filter: { fromBlock: string; toBlock: string; topics: (string | null)[] }) {
+    const fromBlock = Number(filter.fromBlock);
+    const toBlock = Number(filter.toBlock);
+    const toTopic = filter.topics[2];
+    this.logRanges.push([fromBlock, toBlock]);
+
+    return this.transfers
+      .map(([from, to, tokenId], index) => fakeEventLog(nftInterface, 'Transfer', [from, to, tokenId], {
+        address: NFT_ADDRESS,
+        blockNumber: (index + 1) * 30000
+      }))
+      .filter(log => log.blockNumber >= fromBlock && log.blockNumber <= toBlock)
+      .filter(log => !toTopic || log.topics[2] === toTopic);
+  }
+}
+
+/**
+ * Deploy the in-memory collection with the given enumeration support
+ */
+function setup(options: CollectionOptions) {
+  const provider = new FakeCollection(options);
+  const contract = new ethers.Contract(NFT_ADDRESS, CONTRACTS.FOOM.abi, provider);
+  return { provider, contract };
+}
+
+const ids = (tokenIds: ethers.BigNumber[]) => tokenIds.map(tokenId => tokenId.toNumber());
+
+describe('getOwnedTokenIds', () => {
+  it('prefers tokensOfOwner when the contract implements it', async () => {
+    const { provider, contract } = setup({ tokensOfOwner: true, enumerable: true });
+
+    const { tokenIds, strategy } = await getOwnedTokenIds(contract, OWNER);
+
+    expect(strategy).toBe('tokensOfOwner');
+    expect(ids(tokenIds)).toEqual([2, 5]);
+    expect(provider.methodCalls).toEqual(['tokensOfOwner']);
+  });
+
+  it('falls back to ERC721Enumerable indexing', async () => {
+    const { contract } = setup({ tokensOfOwner: false, enumerable: true });
+
+    const { tokenIds, strategy } = await getOwnedTokenIds(contract, OWNER);
+
+    expect(strategy).toBe('enumerable');
+    expect(ids(tokenIds)).toEqual([2, 5]);
+  });
+
+  it('reconstructs ownership from Transfer logs for non-enumerable collections', async () => {
+    const { provider, contract } = setup({ tokensOfOwner: false, enumerable: false });
+
+    const { tokenIds, strategy } = await getOwnedTokenIds(contract, OWNER);
+
+    expect(strategy).toBe('transferLogs');
+    // Token 8 was received but later sent on
+    expect(ids(tokenIds)).toEqual([2, 5]);
+    expect(provider.methodCalls).not.toContain('tokenOfOwnerByIndex');
+    // Never one unbounded query from block 0
+    expect(provider.logRanges).toEqual([[0, 49999], [50000, 99999], [100000, 120000]]);
+  });
+
+  it('skips burned tokens when reconstructing from Transfer logs', async () => {
+    const { provider, contract } = setup({ tokensOfOwner: false, enumerable: false });
+    provider.owners.delete(5);
+
+    const { tokenIds } = await getOwnedTokenIds(contract, OWNER);
+
+    expect(ids(tokenIds)).toEqual([2]);
+  });
+
+  it('starts the Transfer-log scan at the given block', async () => {
+    const { provider, contract } = setup({ tokensOfOwner: false, enumerable: false });
+
+    const { tokenIds } = await getOwnedTokenIds(contract, OWNER, { fromBlock: 70000 });
+
+    // Tokens 5 and 2 arrived before the scan start
+    expect(ids(tokenIds)).toEqual([]);
+    expect(provider.logRanges).toEqual([[70000, 119999], [120000, 120000]]);
+  });
+
+  it('fails when no strategy is available', async () => {
+    const provider = new FakeCollection({ tokensOfOwner: false, enumerable: false });
+    const contract = new ethers.Contract(NFT_ADDRESS, ["function tokenURI(uint256) view returns (string)"], provider);
+
+    await expect(getOwnedTokenIds(contract, OWNER)).rejects.toThrow('does not support owned token enumeration');
+  });
+});
+
+describe('loadOwnedTokens', () => {
+  it('returns typed tokens sharing one imageURI', async () => {
+    const { provider, contract } = setup({ tokensOfOwner: true, enumerable: true });
+
+    const tokens = await loadOwnedTokens(contract, OWNER, 'Foom');
+
+    expect(tokens).toEqual([
+      {
+        tokenId: '2',
+        name: 'Foom #2',
+        image: IMAGE_URI,
+        imageURI: IMAGE_URI,
+        tokenURI: 'data:application/json,{"id":2}',
+        contractAddress: NFT_ADDRESS
+      },
+      {
+        tokenId: '5',
+        name: 'Foom #5',
+        image: IMAGE_URI,
+        imageURI: IMAGE_URI,
+        tokenURI: 'data:application/json,{"id":5}',
+        contractAddress: NFT_ADDRESS
+      }
+    ]);
+    expect(provider.methodCalls.filter(name => name === 'imageURI')).toHaveLength(1);
+  });
+
+  it('returns no tokens for an empty wallet', async () => {
+    const { provider, contract } = setup({ tokensOfOwner: true, enumerable: true });
+
+    expect(await loadOwnedTokens(contract, EMPTY_WALLET, 'Foom')).toEqual([]);
+    expect(provider.methodCalls).toEqual(['tokensOfOwner']);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Owned Token Enumeration
+ *
+ * Lists the NFTs an address holds in a collection, using the cheapest strategy
+ * the contract supports:
+ * 1. tokensOfOwner(address) - a single view call (WENTGE, Foom)
+ * 2. ERC721Enumerable - balanceOf + tokenOfOwnerByIndex, batched via Multicall3
+ * 3. Transfer logs - tokens ever received, scanned in RPC-sized chunks and
+ *    filtered by their current ownerOf (burned tokens revert and are skipped)
+ * Token and image URIs are then loaded in one batch and returned as NFTToken[].
+ */
+
+import { ethers } from "ethers";
+import { scanEvents } from "@shared/logs";
+import { multicall, multicallValues } from "./multicall";
+import type { NFTToken } from "@/types/contracts";
+
+// ERC-165 interface ID of ERC721Enumerable
+export const ERC721_ENUMERABLE_INTERFACE_ID = '0x780e9d63';
+
+export type EnumerationStrategy = 'tokensOfOwner' | 'enumerable' | 'transferLogs';
+
+export interface OwnedTokenIds {
+  tokenIds: ethers.BigNumber[];
+  strategy: EnumerationStrategy;
+}
+
+export interface OwnedTokenOptions {
+  // First block scanned when falling back to Transfer logs
+  fromBlock?: number;
+}
+
+/**
+ * Check whether the contract's ABI declares a function
+ */
+export function hasFunction(contract: ethers.Contract, name: string): boolean {
+  return Object.values(contract.interface.functions).some(fragment => fragment.name === name);
+}
+
+/**
+ * Check whether the contract's ABI declares an event
+ */
+export function hasEvent(contract: ethers.Contract, name: string): boolean {
+  return Object.values(contract.interface.events).some(fragment => fragment.name === name);
+}
+
+/**
+ * A reverted or empty call means the contract does not implement the method
+ */
+function isUnsupported(error: any): boolean {
+  return error?.code === ethers.errors.CALL_EXCEPTION;
+}
+
+/**
+ * Enumerate token IDs via ERC721Enumerable indexing
+ */
+async function enumerableTokenIds(contract: ethers.Contract, owner: string): Promise<ethers.BigNumber[]> {
+  const balance: ethers.BigNumber = await contract.balanceOf(owner);
+
+  return multicallValues<ethers.BigNumber[]>(
+    contract.provider,
+    Array.from({ length: balance.toNumber() }, (_, index) => ({
+      contract,
+      method: 'tokenOfOwnerByIndex',
+      args: [owner, index]
+    }))
+  );
+}
+
+/**
+ * Reconstruct token IDs from Transfer logs, confirmed against ownerOf
+ */
+async function transferLogTokenIds(
+  contract: ethers.Contract,
+  owner: string,
+  fromBlock: number
+): Promise<ethers.BigNumber[]> {
+  const received = await scanEvents(contract, contract.filters.Transfer(null, owner), { fromBlock });
+
+  // A token may have been received more than once; keep each ID once
+  const candidates = new Map<string, ethers.BigNumber>();
+  for (const log of received) {
+    const tokenId: ethers.BigNumber = log.args!.tokenId;
+    candidates.set(tokenId.toString(), tokenId);
+  }
+
+  const tokenIds = Array.from(candidates.values());
+  const owners = await multicall(
+    contract.provider,
+    tokenIds.map(tokenId => ({ contract, method: 'ownerOf', args: [tokenId] }))
+  );
+
+  const owned = tokenIds.filter((_, index) => {
+    const result = owners[index];
+    if (result.success) return result.value.toLowerCase() === owner.toLowerCase();
+
+    // ownerOf reverts for burned tokens; anything else is a failed read
+    if (!isUnsupported(result.error)) throw result.error;
+    return false;
+  });
+
+  return owned.sort((a, b) => (a.lt(b) ? -1 : a.gt(b) ? 1 : 0));
+}
+
+/**
+ * Get the token IDs held by an address, trying each strategy in turn
+ */
+export async function getOwnedTokenIds(
+  contract: ethers.Contract,
+  owner: string,
+  { fromBlock = 0 }: OwnedTokenOptions = {}
+): Promise<OwnedTokenIds> {
+  if (hasFunction(contract, 'tokensOfOwner')) {
+    try {
+      const tokenIds: ethers.BigNumber[] = await contract.tokensOfOwner(owner);
+      return { tokenIds: [...tokenIds], strategy: 'tokensOfOwner' };
+    } catch (error) {
+      if (!isUnsupported(error)) throw error;
+    }
+  }
+
+  if (hasFunction(contract, 'tokenOfOwnerByIndex')) {
+    let enumerable = true;
+    if (hasFunction(contract, 'supportsInterface')) {
+      enumerable = await contract.supportsInterface(ERC721_ENUMERABLE_INTERFACE_ID).catch((error: any) => {
+        if (!isUnsupported(error)) throw error;
+        return false;
+      });
+    }
+
+    if (enumerable) {
+      return { tokenIds: await enumerableTokenIds(contract, owner), strategy: 'enumerable' };
+    }
+  }
+
+  if (!hasEvent(contract, 'Transfer') || !hasFunction(contract, 'ownerOf')) {
+    throw new Error('Contract does not support owned token enumeration');
+  }
+
+  return { tokenIds: await transferLogTokenIds(contract, owner, fromBlock), strategy: 'transferLogs' };
+}
+
+export interface TokenURIs {
+  // Shared image of the collection, null when it has none
+  imageURI: string | null;
+  tokenURIs: string[];
+}
+
+/**
+ * Load token URIs, plus the shared imageURI if requested, in one batch
+ */
+export async function loadTokenURIs(
+  contract: ethers.Contract,
+  tokenIds: ethers.BigNumberish[],
+  includeImage = true
+): Promise<TokenURIs> {
+  // Collections with a shared imageURI only need it fetched once
+  const sharedImage = includeImage && hasFunction(contract, 'imageURI');
+  if (!sharedImage && tokenIds.length === 0) return { imageURI: null, tokenURIs: [] };
+
+  const uris = await multicallValues<string[]>(contract.provider, [
+    ...(sharedImage ? [{ contract, method: 'imageURI' }] : []),
+    ...tokenIds.map(tokenId => ({ contract, method: 'tokenURI', args: [tokenId] }))
+  ]);
+  const imageURI = sharedImage ? uris.shift()! : null;
+
+  return { imageURI, tokenURIs: uris };
+}
+
+/**
+ * Load the NFTs held by an address, with their token and image URIs
+ * Tokens are named "<namePrefix> #<tokenId>".
+ */
+export async function loadOwnedTokens(
+  contract: ethers.Contract,
+  owner: string,
+  namePrefix: string,
+  options?: OwnedTokenOptions
+): Promise<NFTToken[]> {
+  const { tokenIds } = await getOwnedTokenIds(contract, owner, options);
+  if (tokenIds.length === 0) return [];
+
+  const { imageURI, tokenURIs } = await loadTokenURIs(contract, tokenIds);
+
+  return tokenIds.map((tokenId, index) => ({
+    tokenId: tokenId.toString(),
+    name: `${namePrefix} #${tokenId.toString()}`,
+    image: imageURI ?? '',
+    imageURI: imageURI ?? '',
+    tokenURI: tokenURIs[index],
+    contractAddress: contract.address
+  }));
+}
@@ -0,0 +1,189 @@
+/**
+ * Unit Tests for EIP-2612 Permits
+ *
+ * Runs permit detection, signing and submission against in-memory tokens:
+ * - Support is detected from nonces()/DOMAIN_SEPARATOR() and a matching domain
+ * - Tokens without permit, or with a non-standard domain, explain why
+ * - Signed permits recover to the owner and encode as permit() calls
+ * - Several permits go out as one Multicall3 transaction
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { FakeChain, fakeBlock } from '@/test/fakeChain';
+import { ERC20_PERMIT_ABI } from './contracts';
+import { MULTICALL3_ABI, MULTICALL3_ADDRESS } from './multicall';
+import {
+  PERMIT_TYPES,
+  encodePermit,
+  getPermitDeadline,
+  loadPermitSupport,
+  signPermit,
+  submitPermits
+} from './permit';
+
+const CHAIN_ID = 31337;
+const SPENDER = '0x9999999999999999999999999999999999999999';
+const owner = new ethers.Wallet('0x' + '11'.repeat(32));
+
+interface FakeToken {
+  name: string;
+  // Undefined when the token has no version() getter
+  version?: string;
+  // Version its DOMAIN_SEPARATOR was built with, null when it has no permit
+  domainVersion: string | null;
+  nonce: number;
+}
+
+const TOKENS: Record<string, FakeToken> = {
+  // OpenZeppelin ERC20Permit
+  '0xa000000000000000000000000000000000000001': { name: 'Hair', version: '1', domainVersion: '1', nonce: 3 },
+  // Permit without version(), domain version 2 (USDC style)
+  '0xa000000000000000000000000000000000000002': { name: 'Max', domainVersion: '2', nonce: 0 },
+  // Plain ERC20
+  '0xa000000000000000000000000000000000000003': { name: 'Plain', domainVersion: null, nonce: 0 },
+  // Domain built from a different name than name() returns
+  '0xa000000000000000000000000000000000000004': { name: 'Odd', version: '1', domainVersion: '1', nonce: 0 }
+};
+
+const token = new ethers.utils.Interface(ERC20_PERMIT_ABI);
+const multicall3 = new ethers.utils.Interface(MULTICALL3_ABI);
+
+class PermitChain extends FakeChain {
+  sent: ethers.Transaction[] = [];
+
+  constructor(private readonly multicallDeployed = true) {
+    super(CHAIN_ID);
+  }
+
+  /**
+   * Answer a view call on one of the fake tokens
+   */
+  callToken(address: string, data: string): string {
+    const fake = TOKENS[address.toLowerCase()];
+    const { name } = token.parseTransaction({ data });
+    const revert = () => { throw { code: -32000, message: 'execution reverted', data: '0x' }; };
+
+    switch (name) {
+      case 'name':
+        return token.encodeFunctionResult(name, [fake.name]);
+      case 'version':
+        return fake.version ? token.encodeFunctionResult(name, [fake.version]) : revert();
+      case 'nonces':
+        return fake.domainVersion ? token.encodeFunctionResult(name, [fake.nonce]) : revert();
+      case 'DOMAIN_SEPARATOR': {
+        if (!fake.domainVersion) return revert();
+        const domainName = fake.name === 'Odd' ? 'Odd Token' : fake.name;
+        return token.encodeFunctionResult(name, [ethers.utils._TypedDataEncoder.hashDomain({
+          name: domainName, version: fake.domainVersion, chainId: CHAIN_ID, verifyingContract: address
+        })]);
+      }
+      case 'permit':
+        return '0x';
+      default:
+        throw new Error(`unexpected call ${name}`);
+    }
+  }
+
+  async perform(method: string, params: any): Promise<any> {
+    switch (method) {
+      case 'getCode':
+        return this.multicallDeployed && params.address === MULTICALL3_ADDRESS ? '0x01' : '0x';
+      case 'call': {
+        const { to, data } = params.transaction;
+        if (to !== MULTICALL3_ADDRESS) return this.callToken(to, data);
+
+        const [calls] = multicall3.decodeFunctionData('aggregate3', data);
+        return multicall3.encodeFunctionResult('aggregate3', [calls.map((call: any) => {
+          try {
+            return [true, this.callToken(call.target, call.callData)];
+          } catch {
+            return [false, '0x'];
+          }
+        })]);
+      }
+      case 'getTransactionCount':
+        return '0x0';
+      case 'getBlockNumber':
+        return '0x64';
+      // Fee data for populateTransaction (pre-London, legacy gas price)
+      case 'getBlock':
+        return fakeBlock(100);
+      case 'getGasPrice':
+        return '0x3b9aca00';
+      case 'sendTransaction': {
+        this.sent.push(ethers.utils.parseTransaction(params.signedTransaction));
+        return ethers.utils.keccak256(params.signedTransaction);
+      }
+      default:
+        return super.perform(method, params);
+    }
+  }
+}
+
+const [HAIR, MAX, PLAIN, ODD] = Object.keys(TOKENS);
+
+describe('loadPermitSupport', () => {
+  it('detects permit support and the signing domain per token', async () => {
+    const support = await loadPermitSupport(new PermitChain(), [HAIR, MAX, PLAIN, ODD], owner.address);
+
+    expect(support[0]).toMatchObject({ supported: true, domain: { name: 'Hair', version: '1', chainId: CHAIN_ID } });
+    expect(support[0].supported && support[0].nonce.toNumber()).toBe(3);
+    expect(support[1]).toMatchObject({ supported: true, domain: { name: 'Max', version: '2' } });
+    expect(support[2]).toEqual({ supported: false, reason: 'Token does not implement EIP-2612 permit' });
+    expect(support[3]).toEqual({ supported: false, reason: 'Token uses a non-standard permit domain' });
+  });
+
+  it('works without Multicall3', async () => {
+    const support = await loadPermitSupport(new PermitChain(false), [HAIR, PLAIN], owner.address);
+
+    expect(support.map(entry => entry.supported)).toEqual([true, false]);
+  });
+});
+
+describe('signPermit', () => {
+  it('signs a permit that recovers to the owner', async () => {
+    const [support] = await loadPermitSupport(new PermitChain(), [HAIR], owner.address);
+    if (!support.supported) throw new Error('expected permit support');
+
+    const value = ethers.utils.parseEther('3000');
+    const deadline = getPermitDeadline(Date.UTC(2026, 0, 1));
+    const permit = await signPermit(owner, support, SPENDER, value, deadline);
+
+    expect(permit).toMatchObject({ token: HAIR, owner: owner.address, spender: SPENDER });
+    expect(deadline.toNumber()).toBe(Date.UTC(2026, 0, 1) / 1000 + 1800);
+    expect(ethers.utils.verifyTypedData(support.domain, PERMIT_TYPES, {
+      owner: owner.address, spender: SPENDER, value, nonce: 3, deadline
+    }, permit.signature)).toBe(owner.address);
+
+    const args = token.decodeFunctionData('permit', encodePermit(permit));
+    expect(args.v).toBe(permit.signature.v);
+    expect(args.value).toEqual(value);
+  });
+});
+
+describe('submitPermits', () => {
+  it('sends several permits as one Multicall3 transaction', async () => {
+    const provider = new PermitChain();
+    const signer = owner.connect(provider);
+    const support = await loadPermitSupport(provider, [HAIR, MAX], owner.address);
+    const deadline = getPermitDeadline();
+    const permits = await Promise.all(support.map(entry => {
+      if (!entry.supported) throw new Error('expected permit support');
+      return signPermit(signer, entry, SPENDER, ethers.utils.parseEther('1'), deadline);
+    }));
+
+    const transactions = await submitPermits(signer, permits, {
+      gasLimit: ethers.BigNumber.from(200000),
+      gasPrice: ethers.utils.parseUnits('1', 'gwei')
+    });
+
+    expect(transactions).toHaveLength(1);
+    expect(provider.sent).toHaveLength(1);
+    expect(provider.sent[0].to).toBe(MULTICALL3_ADDRESS);
+
+    const [calls] = multicall3.decodeFunctionData('aggregate3', provider.sent[0].data);
+    expect(calls.map((call: any) => call.target)).toEqual([HAIR, MAX].map(ethers.utils.getAddress));
+    expect(calls.every((call: any) => call.allowFailure === false)).toBe(true);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * EIP-2612 Permits
+ *
+ * Lets token-burn mints replace per-token approve transactions with signed
+ * permits. Support is detected from nonces() and DOMAIN_SEPARATOR(), and the
+ * EIP-712 domain is only trusted when it hashes to the token's own
+ * DOMAIN_SEPARATOR. Since mint() pulls the tokens with transferFrom, the
+ * signed permits still have to land on chain first; several are submitted
+ * together in one Multicall3 transaction.
+ */
+
+import { ethers } from "ethers";
+import { ERC20_PERMIT_ABI } from "./contracts";
+import {
+  MULTICALL3_ABI,
+  MULTICALL3_ADDRESS,
+  isMulticallAvailable,
+  multicall
+} from "./multicall";
+import { signTypedData } from "./web3";
+import type { GasOverrides, PermitSupport, SignedPermit } from "@/types/contracts";
+
+export const PERMIT_TYPES: Record<string, ethers.TypedDataField[]> = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+};
+
+// Signed permits stay valid this long
+const PERMIT_DEADLINE_SECONDS = 30 * 60;
+
+// Domain versions to try when the token has no version() getter
+const DEFAULT_DOMAIN_VERSIONS = ['1', '2'];
+
+const permitInterface = new ethers.utils.Interface(ERC20_PERMIT_ABI);
+
+/**
+ * Detect EIP-2612 support and the signing domain of each token for an owner
+ */
+export async function loadPermitSupport(
+  provider: ethers.providers.Provider,
+  tokens: string[],
+  owner: string
+): Promise<PermitSupport[]> {
+  if (tokens.length === 0) return [];
+
+  const { chainId } = await provider.getNetwork();
+  const contracts = tokens.map(token => new ethers.Contract(token, ERC20_PERMIT_ABI, provider));
+  const results = await multicall(provider, contracts.flatMap(contract => [
+    { contract, method: 'nonces', args: [owner] },
+    { contract, method: 'DOMAIN_SEPARATOR' },
+    { contract, method: 'name' },
+    { contract, method: 'version' }
+  ]));
+
+  return tokens.map((token, index): PermitSupport => {
+    const [nonce, separator, name, version] = results.slice(index * 4, index * 4 + 4);
+
+    if (!nonce.success || !separator.success) {
+      return { supported: false, reason: 'Token does not implement EIP-2612 permit' };
+    }
+    if (!name.success) {
+      return { supported: false, reason: 'Token has no name() to build its permit domain' };
+    }
+
+    const versions = version.success ? [version.value as string] : DEFAULT_DOMAIN_VERSIONS;
+    for (const candidate of versions) {
+      const domain = { name: name.value as string, version: candidate, chainId, verifyingContract: token };
+      if (ethers.utils._TypedDataEncoder.hashDomain(domain) === separator.value) {
+        return { supported: true, domain, nonce: nonce.value };
+      }
+    }
+
+    return { supported: false, reason: 'Token uses a non-standard permit domain' };
+  });
+}
+
+/**
+ * Deadline for a permit signed now
+ */
+export function getPermitDeadline(now = Date.now()): ethers.BigNumber {
+  return ethers.BigNumber.from(Math.floor(now / 1000) + PERMIT_DEADLINE_SECONDS);
+}
+
+/**
+ * Ask the wallet to sign a permit for one token
+ */
+export async function signPermit(
+  signer: ethers.Signer,
+  support: Extract<PermitSupport, { supported: true }>,
+  spender: string,
+  value: ethers.BigNumber,
+  deadline: ethers.BigNumber
+): Promise<SignedPermit> {
+  const owner = await signer.getAddress();
+  const signature = await signTypedData(signer, support.domain, PERMIT_TYPES, {
+    owner,
+    spender,
+    value,
+    nonce: support.nonce,
+    deadline
+  });
+
+  return {
+    token: support.domain.verifyingContract as string,
+    owner,
+    spender,
+    value,
+    deadline,
+    signature
+  };
+}
+
+/**
+ * Arguments of the token's permit() call for a signed permit
+ */
+function permitArgs({ owner, spender, value, deadline, signature }: SignedPermit) {
+  return [owner, spender, value, deadline, signature.v, signature.r, signature.s];
+}
+
+/**
+ * Encode a signed permit as permit() calldata
+ */
+export function encodePermit(permit: SignedPermit): string {
+  return permitInterface.encodeFunctionData('permit', permitArgs(permit));
+}
+
+/**
+ * Put signed permits on chain, batched into one Multicall3 transaction when possible
+ * Each submission is simulated first so a rejected permit fails before the wallet prompt.
+ */
+export async function submitPermits(
+  signer: ethers.Signer,
+  permits: SignedPermit[],
+  overrides: GasOverrides = {}
+): Promise<ethers.ContractTransaction[]> {
+  const from = await signer.getAddress();
+
+  if (permits.length > 1 && signer.provider && await isMulticallAvailable(signer.provider)) {
+    const multicallContract = new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, signer);
+    const calls = permits.map(permit => ({
+      target: permit.token,
+      allowFailure: false,
+      callData: encodePermit(permit)
+    }));
+
+    await multicallContract.callStatic.aggregate3(calls, { from });
+    return [await multicallContract.aggregate3(calls, overrides)];
+  }
+
+  const transactions: ethers.ContractTransaction[] = [];
+  for (const permit of permits) {
+    const token = new ethers.Contract(permit.token, ERC20_PERMIT_ABI, signer);
+    await token.callStatic.permit(...permitArgs(permit), { from });
+    transactions.push(await token.permit(...permitArgs(permit), overrides));
+  }
+  return transactions;
+}
@@ -0,0 +1,81 @@
+/**
+ * Unit Tests for Trait Rarity
+ *
+ * Scores small hand-built collections to ensure:
+ * - Trait values are counted per trait type, decimals and units included
+ * - Rarer trait values give higher scores and better (lower) ranks
+ * - Tied scores share a rank, and filters require every selected trait
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getRarity, getTraitFrequencies, matchesTraitFilters, traitValue } from './rarity';
+import type { NFTAttribute } from '@/types/contracts';
+
+function token(tokenId: string, mood: string, color: string) {
+  return {
+    tokenId,
+    attributes: [
+      { trait_type: 'Mood', value: mood },
+      { trait_type: 'Color', value: color }
+    ] as NFTAttribute[]
+  };
+}
+
+describe('traitValue', () => {
+  it('joins decimals and units onto the value', () => {
+    expect(traitValue({ trait_type: 'Paradox Resistance', value: 31, display_type: 'number', max_value: 100, decimals: 9 }, 'digit')).toBe('31.9');
+    expect(traitValue({ trait_type: 'Weight', value: 1500, decimals: 2, unit: 'kg' })).toBe('15 kg');
+    expect(traitValue({ trait_type: 'Resonance Frequency', value: 474, display_type: 'number', unit: 'Hz' })).toBe('474 Hz');
+    expect(traitValue({ trait_type: 'Mood', value: 'Serene' })).toBe('Serene');
+  });
+});
+
+describe('getTraitFrequencies', () => {
+  it('counts tokens per value of each trait', () => {
+    const frequencies = getTraitFrequencies([
+      token('1', 'Serene', 'Red'),
+      token('2', 'Serene', 'Blue'),
+      token('3', 'Curious', 'Red')
+    ]);
+
+    expect(frequencies).toEqual({
+      Mood: { Serene: 2, Curious: 1 },
+      Color: { Red: 2, Blue: 1 }
+    });
+  });
+});
+
+describe('getRarity', () => {
+  it('ranks tokens with rarer traits first and shares ranks on ties', () => {
+    const rarity = getRarity([
+      token('1', 'Serene', 'Red'),
+      token('2', 'Serene', 'Red'),
+      token('3', 'Serene', 'Blue'),
+      token('4', 'Curious', 'Red')
+    ]);
+
+    // Serene 3/4, Curious 1/4, Red 3/4, Blue 1/4
+    expect(rarity.get('3')).toEqual({ tokenId: '3', score: 4 / 3 + 4, rank: 1 });
+    expect(rarity.get('4')).toEqual({ tokenId: '4', score: 4 + 4 / 3, rank: 1 });
+    expect(rarity.get('1')!.rank).toBe(3);
+    expect(rarity.get('2')!.rank).toBe(3);
+  });
+
+  it('is empty for an empty supply', () => {
+    expect(getRarity([]).size).toBe(0);
+  });
+});
+
+describe('matchesTraitFilters', () => {
+  const attributes: NFTAttribute[] = [
+    { trait_type: 'Mood', value: 'Serene' },
+    { trait_type: 'Paradox Resistance', value: 31, decimals: 9 }
+  ];
+
+  it('matches every selected trait', () => {
+    expect(matchesTraitFilters(attributes, {})).toBe(true);
+    expect(matchesTraitFilters(attributes, { Mood: 'Serene', 'Paradox Resistance': '31.9' }, 'digit')).toBe(true);
+    expect(matchesTraitFilters(attributes, { Mood: 'Serene', 'Paradox Resistance': '31.8' }, 'digit')).toBe(false);
+    expect(matchesTraitFilters(attributes, { Color: 'Red' })).toBe(false);
+  });
+});
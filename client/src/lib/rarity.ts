@@ -0,0 +1,82 @@
+/**
+ * Trait Rarity
+ *
+ * Trait frequencies and statistical rarity across a collection's supply.
+ * A token's score is the sum, over its traits, of supply / tokens sharing
+ * that trait value, so rare values weigh more; rank 1 is the rarest token
+ * and tied scores share a rank. Also matches tokens against trait filters.
+ */
+
+import { scaledTraitValue } from "./traits";
+import type { NFTAttribute, TokenRarity, TraitDecimals, TraitFrequencies } from "@/types/contracts";
+
+export interface TokenTraits {
+  tokenId: string;
+  attributes: NFTAttribute[];
+}
+
+// Selected value per trait type
+export type TraitFilters = Record<string, string>;
+
+/**
+ * A trait's value as shown and compared, e.g. "12.3" for a decimal trait
+ */
+export function traitValue(attribute: NFTAttribute, decimals: TraitDecimals = 'scale'): string {
+  const value = scaledTraitValue(attribute, decimals);
+  return attribute.unit ? `${value} ${attribute.unit}` : value;
+}
+
+/**
+ * Count how many tokens carry each value of each trait
+ */
+export function getTraitFrequencies(tokens: TokenTraits[], decimals: TraitDecimals = 'scale'): TraitFrequencies {
+  const frequencies: TraitFrequencies = {};
+
+  for (const token of tokens) {
+    for (const attribute of token.attributes) {
+      const values = frequencies[attribute.trait_type] ??= {};
+      const value = traitValue(attribute, decimals);
+      values[value] = (values[value] ?? 0) + 1;
+    }
+  }
+
+  return frequencies;
+}
+
+/**
+ * Score and rank every token by trait rarity
+ */
+export function getRarity(tokens: TokenTraits[], decimals: TraitDecimals = 'scale'): Map<string, TokenRarity> {
+  const frequencies = getTraitFrequencies(tokens, decimals);
+
+  const scored = tokens.map(token => ({
+    tokenId: token.tokenId,
+    score: token.attributes.reduce(
+      (sum, attribute) => sum + tokens.length / frequencies[attribute.trait_type][traitValue(attribute, decimals)],
+      0
+    )
+  }));
+  scored.sort((a, b) => b.score - a.score);
+
+  const rarity = new Map<string, TokenRarity>();
+  scored.forEach((token, position) => {
+    const previous = position > 0 ? rarity.get(scored[position - 1].tokenId)! : null;
+    const rank = previous && previous.score === token.score ? previous.rank : position + 1;
+    rarity.set(token.tokenId, { ...token, rank });
+  });
+
+  return rarity;
+}
+
+/**
+ * Check whether a token has every selected trait value
+ */
+export function matchesTraitFilters(
+  attributes: NFTAttribute[],
+  filters: TraitFilters,
+  decimals: TraitDecimals = 'scale'
+): boolean {
+  return Object.entries(filters).every(([traitType, value]) =>
+    attributes.some(attribute => attribute.trait_type === traitType && traitValue(attribute, decimals) === value)
+  );
+}
@@ -0,0 +1,132 @@
+/**
+ * Unit Tests for the Token Requirements Engine
+ *
+ * Evaluates mint costs against an in-memory set of ERC20 tokens:
+ * - Any number of {token, amount, spender} requirements
+ * - Amounts formatted with each token's decimals() instead of 18
+ * - Missing approvals and insufficient balances
+ * - Decimals-only reads when no wallet is connected
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { FakeChain } from '@/test/fakeChain';
+import { ERC20_ABI } from './contracts';
+import {
+  formatRequirementAmount,
+  getInsufficientBalances,
+  getMissingApprovals,
+  loadRequirementStatus
+} from './requirements';
+import type { TokenRequirement } from '@/types/contracts';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+const SPENDER = '0x9999999999999999999999999999999999999999';
+
+interface FakeToken {
+  decimals: number;
+  balance: string;
+  allowance: string;
+}
+
+// USDC-style 6 decimals, classic 18 decimals and an 8 decimal token
+const TOKENS: Record<string, FakeToken> = {
+  '0xa000000000000000000000000000000000000001': { decimals: 6, balance: '250', allowance: '0' },
+  '0xa000000000000000000000000000000000000002': { decimals: 18, balance: '3000', allowance: '3000' },
+  '0xa000000000000000000000000000000000000003': { decimals: 8, balance: '0.5', allowance: '1' }
+};
+
+const erc20 = new ethers.utils.Interface(ERC20_ABI);
+
+class FakeTokens extends FakeChain {
+  methodCalls: string[] = [];
+
+  async perform(method: string, params: any): Promise<any> {
+    if (method !== 'call') return super.perform(method, params);
+
+    const token = TOKENS[params.transaction.to.toLowerCase()];
+    const { name } = erc20.parseTransaction({ data: params.transaction.data });
+    this.methodCalls.push(name);
+
+    switch (name) {
+      case 'decimals':
+        return erc20.encodeFunctionResult(name, [token.decimals]);
+      case 'balanceOf':
+        return erc20.encodeFunctionResult(name, [ethers.utils.parseUnits(token.balance, token.decimals)]);
+      case 'allowance':
+        return erc20.encodeFunctionResult(name, [ethers.utils.parseUnits(token.allowance, token.decimals)]);
+      default:
+        throw new Error(`unexpected call ${name}`);
+    }
+  }
+}
+
+/**
+ * Build a requirement for a fake token, amount given in whole tokens
+ */
+function requirement(token: string, amount: string, symbol: string): TokenRequirement {
+  return {
+    token,
+    amount: ethers.utils.parseUnits(amount, TOKENS[token].decimals),
+    spender: SPENDER,
+    symbol
+  };
+}
+
+const [USDC, HAIR, WBTC] = Object.keys(TOKENS);
+
+describe('loadRequirementStatus', () => {
+  it('evaluates any number of requirements with per-token decimals', async () => {
+    const provider = new FakeTokens();
+    const statuses = await loadRequirementStatus(provider, [
+      requirement(USDC, '100', 'USDC'),
+      requirement(HAIR, '3000', 'HAIR'),
+      requirement(WBTC, '1', 'WBTC')
+    ], OWNER);
+
+    expect(statuses.map(status => status.decimals)).toEqual([6, 18, 8]);
+    expect(statuses.map(status => formatRequirementAmount(status))).toEqual(['100.0', '3000.0', '1.0']);
+    expect(formatRequirementAmount(statuses[0], statuses[0].balance)).toBe('250.0');
+
+    expect(statuses.map(status => status.hasBalance)).toEqual([true, true, false]);
+    expect(statuses.map(status => status.hasAllowance)).toEqual([false, true, true]);
+  });
+
+  it('works with a single requirement', async () => {
+    const provider = new FakeTokens();
+    const [status] = await loadRequirementStatus(provider, [requirement(HAIR, '3000', 'HAIR')], OWNER);
+
+    expect(status).toMatchObject({ symbol: 'HAIR', spender: SPENDER, hasBalance: true, hasAllowance: true });
+  });
+
+  it('only reads decimals without a wallet', async () => {
+    const provider = new FakeTokens();
+    const statuses = await loadRequirementStatus(provider, [
+      requirement(USDC, '100', 'USDC'),
+      requirement(HAIR, '3000', 'HAIR')
+    ], null);
+
+    expect(provider.methodCalls).toEqual(['decimals', 'decimals']);
+    expect(statuses[0]).toMatchObject({ decimals: 6, balance: null, allowance: null, hasBalance: false });
+  });
+
+  it('returns nothing for no requirements', async () => {
+    const provider = new FakeTokens();
+    expect(await loadRequirementStatus(provider, [], OWNER)).toEqual([]);
+    expect(provider.methodCalls).toHaveLength(0);
+  });
+});
+
+describe('requirement selectors', () => {
+  it('lists missing approvals and insufficient balances', async () => {
+    const provider = new FakeTokens();
+    const statuses = await loadRequirementStatus(provider, [
+      requirement(USDC, '100', 'USDC'),
+      requirement(HAIR, '3000', 'HAIR'),
+      requirement(WBTC, '1', 'WBTC')
+    ], OWNER);
+
+    expect(getMissingApprovals(statuses).map(status => status.symbol)).toEqual(['USDC']);
+    expect(getInsufficientBalances(statuses).map(status => status.symbol)).toEqual(['WBTC']);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Token Requirements Engine
+ *
+ * Evaluates the ERC20 cost of a token-burn mint: any number of
+ * {token, amount, spender} entries are checked against a wallet's balances and
+ * allowances in a single batched read. Amounts are formatted with each token's
+ * own decimals() rather than assuming 18.
+ */
+
+import { ethers } from "ethers";
+import { ERC20_ABI } from "./contracts";
+import { multicallValues } from "./multicall";
+import type { TokenRequirement, TokenRequirementStatus } from "@/types/contracts";
+
+/**
+ * Read decimals for every requirement, plus balances and allowances when an owner is given
+ */
+export async function loadRequirementStatus(
+  provider: ethers.providers.Provider,
+  requirements: TokenRequirement[],
+  owner?: string | null
+): Promise<TokenRequirementStatus[]> {
+  if (requirements.length === 0) return [];
+
+  const tokens = requirements.map(requirement => new ethers.Contract(requirement.token, ERC20_ABI, provider));
+  const callsPerToken = owner ? 3 : 1;
+
+  const values = await multicallValues(provider, tokens.flatMap((contract, index) => [
+    { contract, method: 'decimals' },
+    ...(owner
+      ? [
+          { contract, method: 'balanceOf', args: [owner] },
+          { contract, method: 'allowance', args: [owner, requirements[index].spender] }
+        ]
+      : [])
+  ]));
+
+  return requirements.map((requirement, index) => {
+    const [decimals, balance = null, allowance = null] =
+      values.slice(index * callsPerToken, (index + 1) * callsPerToken);
+
+    return {
+      ...requirement,
+      decimals,
+      balance,
+      allowance,
+      hasBalance: balance !== null && balance.gte(requirement.amount),
+      hasAllowance: allowance !== null && allowance.gte(requirement.amount)
+    };
+  });
+}
+
+/**
+ * Requirements the wallet still has to approve
+ */
+export function getMissingApprovals(statuses: TokenRequirementStatus[]): TokenRequirementStatus[] {
+  return statuses.filter(status => !status.hasAllowance);
+}
+
+/**
+ * Requirements the wallet cannot cover with its current balance
+ */
+export function getInsufficientBalances(statuses: TokenRequirementStatus[]): TokenRequirementStatus[] {
+  return statuses.filter(status => !status.hasBalance);
+}
+
+/**
+ * Format an amount of a requirement's token using its decimals
+ */
+export function formatRequirementAmount(
+  status: TokenRequirementStatus,
+  value: ethers.BigNumber | null = status.amount
+): string {
+  return ethers.utils.formatUnits(value ?? 0, status.decimals);
+}
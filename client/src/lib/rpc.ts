@@ -0,0 +1,43 @@
+/**
+ * Read-Only RPC Providers
+ *
+ * Builds the JSON-RPC provider used for every view call, independent of the
+ * connected wallet, so collection stats and any address's NFTs can be browsed
+ * before (or without) connecting. Networks with fallback RPC URLs get an
+ * ethers FallbackProvider that fails over between endpoints in order.
+ */
+
+import { ethers } from "ethers";
+import type { NetworkDeployment } from "@/types/contracts";
+
+// Time to wait on an endpoint before also asking the next one
+const STALL_TIMEOUT_MS = 2500;
+
+const readProviders = new Map<number, ethers.providers.Provider>();
+
+/**
+ * Get the shared read-only provider for a network
+ */
+export function getReadProvider(network: NetworkDeployment): ethers.providers.Provider {
+  const cached = readProviders.get(network.chainId);
+  if (cached) return cached;
+
+  const staticNetwork = { chainId: network.chainId, name: network.name };
+  const urls = [network.rpcUrl, ...network.fallbackRpcUrls];
+
+  // StaticJsonRpcProvider skips the eth_chainId lookup before every request
+  const provider = urls.length === 1
+    ? new ethers.providers.StaticJsonRpcProvider(urls[0], staticNetwork)
+    : new ethers.providers.FallbackProvider(
+        urls.map((url, index) => ({
+          provider: new ethers.providers.StaticJsonRpcProvider(url, staticNetwork),
+          priority: index + 1,
+          stallTimeout: STALL_TIMEOUT_MS,
+          weight: 1
+        })),
+        1
+      );
+
+  readProviders.set(network.chainId, provider);
+  return provider;
+}
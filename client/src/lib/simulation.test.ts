@@ -0,0 +1,68 @@
+/**
+ * Unit Tests for Transaction Simulation
+ *
+ * Dry-runs a mint against an in-memory chain to ensure:
+ * - Calls are simulated from the user's address
+ * - Reverts surface their decoded reason instead of throwing
+ * - Successful simulations report the buffered gas limit
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { FakeChain } from '@/test/fakeChain';
+import { simulateTransaction } from './simulation';
+
+const MINTER = '0x1111111111111111111111111111111111111111';
+const MINTED = '0x2222222222222222222222222222222222222222';
+const NFT = '0x3333333333333333333333333333333333333333';
+
+const nftAbi = ["function mint()"];
+const ONE_PER_ADDRESS = '0x08c379a0' +
+  ethers.utils.defaultAbiCoder.encode(['string'], ['Only one NFT per address']).slice(2);
+
+class MintChain extends FakeChain {
+  callers: string[] = [];
+
+  async perform(method: string, params: any): Promise<any> {
+    switch (method) {
+      case 'call':
+      case 'estimateGas': {
+        const from = ethers.utils.getAddress(params.transaction.from);
+        this.callers.push(from);
+        if (from === MINTED) {
+          throw { code: -32000, message: 'execution reverted: Only one NFT per address', data: ONE_PER_ADDRESS };
+        }
+        return method === 'call' ? '0x' : '0x1d4c0';
+      }
+      default:
+        return super.perform(method, params);
+    }
+  }
+}
+
+describe('simulateTransaction', () => {
+  it('reports the gas limit for a mint that would succeed', async () => {
+    const provider = new MintChain();
+    const contract = new ethers.Contract(NFT, nftAbi, provider);
+
+    const result = await simulateTransaction(contract, 'mint', [], MINTER);
+
+    expect(provider.callers).toEqual([MINTER, MINTER]);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      // 120000 estimated plus the 20% buffer
+      expect(result.gasLimit.toNumber()).toBe(144000);
+    }
+  });
+
+  it('returns the decoded revert reason instead of throwing', async () => {
+    const contract = new ethers.Contract(NFT, nftAbi, new MintChain());
+
+    const result = await simulateTransaction(contract, 'mint', [], MINTED);
+
+    expect(result).toMatchObject({
+      success: false,
+      error: { type: 'revert', reason: 'Only one NFT per address' }
+    });
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Transaction Simulation
+ *
+ * Dry-runs a contract write with callStatic from the user's address before
+ * the wallet is prompted, so a mint that would revert (minting disabled,
+ * wallet limit reached, token transfer failing) is explained up front.
+ * Successful simulations also report the gas limit to send with.
+ */
+
+import { ethers } from "ethers";
+import { decodeError, type DecodedError } from "./errors";
+import { estimateGasLimit } from "./gas";
+
+export type SimulationResult =
+  | { success: true; gasLimit: ethers.BigNumber }
+  | { success: false; error: DecodedError };
+
+/**
+ * Simulate a contract write from an address without sending it
+ */
+export async function simulateTransaction(
+  contract: ethers.Contract,
+  method: string,
+  args: unknown[],
+  from: string
+): Promise<SimulationResult> {
+  try {
+    await contract.callStatic[method](...args, { from });
+    const gasLimit = await estimateGasLimit(contract, method, args, from);
+
+    return { success: true, gasLimit };
+  } catch (error) {
+    return { success: false, error: decodeError(error) };
+  }
+}
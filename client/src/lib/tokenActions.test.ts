@@ -0,0 +1,61 @@
+/**
+ * Unit Tests for Token Transfer Checks
+ *
+ * Vets recipients against the rules enforced before a transfer is signed:
+ * - Only 0x addresses with a valid checksum, never ENS names
+ * - No transfers to the zero address or to the current owner
+ * - Contracts are told apart from accounts, delegated EOAs included
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { FakeChain } from '@/test/fakeChain';
+import { getRecipientKind, validateRecipient } from './tokenActions';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+const RECIPIENT = '0x8ba1f109551bD432803012645Ac136ddd64DBA72';
+
+class FakeAccounts extends FakeChain {
+  constructor(private readonly code: Record<string, string>) {
+    super();
+  }
+
+  async perform(method: string, params: any): Promise<any> {
+    if (method !== 'getCode') return super.perform(method, params);
+    return this.code[params.address.toLowerCase()] ?? '0x';
+  }
+}
+
+describe('validateRecipient', () => {
+  it('accepts checksummed and lowercase addresses', () => {
+    expect(validateRecipient(RECIPIENT, OWNER)).toBeNull();
+    expect(validateRecipient(` ${RECIPIENT.toLowerCase()} `, OWNER)).toBeNull();
+  });
+
+  it('rejects ENS names, bad checksums and empty input', () => {
+    expect(validateRecipient('vitalik.eth', OWNER)).toBe('ENS names are not supported, enter a 0x address');
+    expect(validateRecipient('0x8ba1f109551bd432803012645Ac136ddd64DBA72', OWNER)).toBe(
+      'Invalid address, check for typos or a bad checksum'
+    );
+    expect(validateRecipient('  ', OWNER)).toBe('Enter a recipient address');
+    expect(validateRecipient('XE7338O073KYGTWWZN0F2WZ0R8PX5ZPPZS', OWNER)).toBe('Enter a 0x address');
+  });
+
+  it('rejects the zero address and the current owner', () => {
+    expect(validateRecipient(ethers.constants.AddressZero, OWNER)).toMatch(/^Use Burn/);
+    expect(validateRecipient(RECIPIENT.toLowerCase(), RECIPIENT)).toBe('That address already owns this token');
+  });
+});
+
+describe('getRecipientKind', () => {
+  it('tells contracts from accounts', async () => {
+    const chain = new FakeAccounts({
+      [RECIPIENT.toLowerCase()]: '0x6080604052',
+      [OWNER]: `0xef0100${'22'.repeat(20)}`
+    });
+
+    expect(await getRecipientKind(chain, RECIPIENT)).toBe('contract');
+    expect(await getRecipientKind(chain, OWNER)).toBe('account');
+    expect(await getRecipientKind(chain, '0x3333333333333333333333333333333333333333')).toBe('account');
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Token Transfer Checks
+ *
+ * Vets a transfer recipient before anything is signed. Recipients must be
+ * plain 0x addresses (ENS names are not resolved), not the zero address
+ * (burning is the way to destroy a token) and not the current owner.
+ * Contract recipients are flagged: safeTransferFrom reverts unless they
+ * implement onERC721Received, and even then the token is only as reachable
+ * as the contract allows.
+ */
+
+import { ethers } from "ethers";
+import { isValidAddress } from "./web3";
+
+export type RecipientKind = 'account' | 'contract';
+
+// EIP-7702 delegation designator: an externally owned account running delegated code
+const DELEGATION_PREFIX = '0xef0100';
+
+/**
+ * Explain why a recipient is unusable, or return null if it is fine
+ */
+export function validateRecipient(input: string, owner: string): string | null {
+  const recipient = input.trim();
+
+  if (!recipient) return 'Enter a recipient address';
+  if (!/^0x/i.test(recipient)) {
+    return recipient.includes('.')
+      ? 'ENS names are not supported, enter a 0x address'
+      : 'Enter a 0x address';
+  }
+  if (!isValidAddress(recipient)) return 'Invalid address, check for typos or a bad checksum';
+  if (ethers.utils.getAddress(recipient) === ethers.constants.AddressZero) {
+    return 'Use Burn to destroy a token instead of sending it to the zero address';
+  }
+  if (ethers.utils.getAddress(recipient) === ethers.utils.getAddress(owner)) {
+    return 'That address already owns this token';
+  }
+
+  return null;
+}
+
+/**
+ * Whether a recipient is an account or a contract, judged by its code
+ */
+export async function getRecipientKind(
+  provider: ethers.providers.Provider,
+  recipient: string
+): Promise<RecipientKind> {
+  const code = await provider.getCode(recipient);
+  return code === '0x' || code.toLowerCase().startsWith(DELEGATION_PREFIX) ? 'account' : 'contract';
+}
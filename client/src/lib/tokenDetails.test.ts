@@ -0,0 +1,167 @@
+/**
+ * Unit Tests for Token Details
+ *
+ * Reads single tokens from an in-memory collection to ensure:
+ * - Owner, URIs and the royalty quote arrive in one batch, rates capped at 100%
+ * - Burned tokens and contracts without royaltyInfo read as null, not errors
+ * - Unreachable chains still fail loudly
+ * - Ownership history holds only the token's transfers, oldest first
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { FakeChain, fakeEventLog } from '@/test/fakeChain';
+import { CONTRACTS, ERC721_ABI } from './contracts';
+import { ROYALTY_SALE_PRICE, getTransferHistory, loadTokenDetails, toRoyaltyInfo } from './tokenDetails';
+
+const NFT = '0x2222222222222222222222222222222222222222';
+const ALICE = '0x1111111111111111111111111111111111111111';
+const BOB = '0x3333333333333333333333333333333333333333';
+const RECEIVER = '0x4444444444444444444444444444444444444444';
+const ZERO = ethers.constants.AddressZero;
+const nft = new ethers.utils.Interface(CONTRACTS.FOOM.abi);
+
+/**
+ * Collection where token 1 went ALICE -> BOB and token 2 was minted then burned
+ */
+class FakeCollection extends FakeChain {
+  transfers: [string, string, number, number][] = [
+    // from, to, tokenId, block
+    [ZERO, ALICE, 1, 10],
+    [ZERO, ALICE, 2, 11],
+    [ALICE, BOB, 1, 15],
+    [ALICE, ZERO, 2, 16]
+  ];
+  royaltyBasisPoints = 0;
+  offline = false;
+
+  async perform(method: string, params: any): Promise<any> {
+    if (this.offline) throw new Error('network unreachable');
+
+    switch (method) {
+      case 'getBlockNumber':
+        return 20;
+      case 'getLogs':
+        return this.transferLogs(params.filter.topics[3]);
+      case 'call':
+        return this.viewCall(params.transaction.data);
+      default:
+        return super.perform(method, params);
+    }
+  }
+
+  viewCall(data: string) {
+    const { name, args } = nft.parseTransaction({ data });
+
+    switch (name) {
+      case 'ownerOf': {
+        // Burned tokens revert
+        const owner = this.ownerOf(args.tokenId.toNumber());
+        return owner ? nft.encodeFunctionResult(name, [owner]) : '0x';
+      }
+      case 'tokenURI':
+        return nft.encodeFunctionResult(name, [`data:application/json,{"name":"Foom #${args.tokenId}"}`]);
+      case 'imageURI':
+        return nft.encodeFunctionResult(name, ['data:image/jpeg;base64,/9j/']);
+      case 'royaltyInfo':
+        return nft.encodeFunctionResult(name, [RECEIVER, args.salePrice.mul(this.royaltyBasisPoints).div(10000)]);
+      default:
+        throw new Error(`unexpected call ${name}`);
+    }
+  }
+
+  ownerOf(tokenId: number): string | null {
+    const last = this.transfers.filter(([, , id]) => id === tokenId).pop();
+    return last && last[1] !== ZERO ? last[1] : null;
+  }
+
+  transferLogs(tokenTopic: string | null) {
+    return this.transfers
+      .map(([from, to, tokenId, blockNumber]) => fakeEventLog(nft, 'Transfer', [from, to, tokenId], {
+        address: NFT,
+        blockNumber
+      }))
+      .filter(log => !tokenTopic || log.topics[3] === tokenTopic)
+      // Nodes may return logs out of order
+      .reverse();
+  }
+}
+
+/**
+ * Read the collection through the given ABI, the full Foom one by default
+ */
+function setup(abi: string[] = CONTRACTS.FOOM.abi) {
+  const provider = new FakeCollection();
+  const contract = new ethers.Contract(NFT, abi, provider);
+  return { provider, contract };
+}
+
+describe('toRoyaltyInfo', () => {
+  it('expresses the quote in basis points of the sale price', () => {
+    const royalty = toRoyaltyInfo({ receiver: RECEIVER, royaltyAmount: ethers.utils.parseEther('0.05') });
+
+    expect(royalty.basisPoints).toBe(500);
+    expect(royalty.salePrice.eq(ROYALTY_SALE_PRICE)).toBe(true);
+  });
+
+  it('caps absurd quotes at 100% instead of overflowing', () => {
+    const royalty = toRoyaltyInfo({ receiver: RECEIVER, royaltyAmount: ethers.constants.MaxUint256 });
+
+    expect(royalty.basisPoints).toBe(10000);
+    expect(royalty.amount.eq(ethers.constants.MaxUint256)).toBe(true);
+  });
+});
+
+describe('loadTokenDetails', () => {
+  it('reads owner, URIs and the royalty quote', async () => {
+    const { provider, contract } = setup();
+    provider.royaltyBasisPoints = 250;
+
+    const details = await loadTokenDetails(contract, '1');
+
+    expect(details.owner).toBe(BOB);
+    expect(details.tokenURI).toBe('data:application/json,{"name":"Foom #1"}');
+    expect(details.imageURI).toBe('data:image/jpeg;base64,/9j/');
+    expect(details.royalty?.receiver).toBe(RECEIVER);
+    expect(details.royalty?.basisPoints).toBe(250);
+  });
+
+  it('reports burned tokens as ownerless', async () => {
+    const { contract } = setup();
+
+    const details = await loadTokenDetails(contract, '2');
+
+    expect(details.owner).toBeNull();
+    expect(details.royalty?.amount.isZero()).toBe(true);
+  });
+
+  it('skips calls the contract does not declare', async () => {
+    const abi = ERC721_ABI.filter(fragment => !fragment.includes('royaltyInfo'));
+    const { contract } = setup(abi);
+
+    const details = await loadTokenDetails(contract, '1');
+
+    expect(details.imageURI).toBeNull();
+    expect(details.royalty).toBeNull();
+  });
+
+  it('fails when the chain is unreachable', async () => {
+    const { provider, contract } = setup();
+    provider.offline = true;
+
+    await expect(loadTokenDetails(contract, '1')).rejects.toThrow();
+  });
+});
+
+describe('getTransferHistory', () => {
+  it('returns only the token\'s transfers, oldest first', async () => {
+    const { contract } = setup();
+
+    const history = await getTransferHistory(contract, '1');
+
+    expect(history.map(transfer => [transfer.from, transfer.to, transfer.blockNumber])).toEqual([
+      [ZERO, ALICE, 10],
+      [ALICE, BOB, 15]
+    ]);
+  });
+});
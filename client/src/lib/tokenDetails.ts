@@ -0,0 +1,86 @@
+/**
+ * Token Details
+ *
+ * Reads what the NFT detail page shows about a single token: its current
+ * owner, tokenURI, the collection's shared image and an EIP-2981 royalty
+ * quote in one batch, plus its ownership history from Transfer logs.
+ * Reverting calls (ownerOf for a burned token, royaltyInfo on a contract
+ * without royalties) come back as null instead of failing the page.
+ */
+
+import { ethers } from "ethers";
+import { scanEvents, type LogScanOptions } from "@shared/logs";
+import { multicall, type ContractCall } from "./multicall";
+import { toIndexedTransfer } from "./holders";
+import { hasFunction } from "./ownedTokens";
+import type { IndexedTransfer, RoyaltyInfo, TokenDetails } from "@/types/contracts";
+
+// Sale price royalty quotes are requested for
+export const ROYALTY_SALE_PRICE = ethers.constants.WeiPerEther;
+
+// 100% of the sale price
+const MAX_BASIS_POINTS = 10000;
+
+/**
+ * Convert a royaltyInfo result to a quote with its rate
+ * The rate is capped at 100%, as any contract may answer with an absurd amount.
+ */
+export function toRoyaltyInfo(
+  result: { receiver: string; royaltyAmount: ethers.BigNumber },
+  salePrice: ethers.BigNumber = ROYALTY_SALE_PRICE
+): RoyaltyInfo {
+  return {
+    receiver: result.receiver,
+    amount: result.royaltyAmount,
+    salePrice,
+    basisPoints: result.royaltyAmount.gte(salePrice)
+      ? MAX_BASIS_POINTS
+      : result.royaltyAmount.mul(MAX_BASIS_POINTS).div(salePrice).toNumber()
+  };
+}
+
+/**
+ * Load a token's owner, URIs and royalty quote in one batch
+ */
+export async function loadTokenDetails(contract: ethers.Contract, tokenId: string): Promise<TokenDetails> {
+  const sharedImage = hasFunction(contract, 'imageURI');
+  const royalties = hasFunction(contract, 'royaltyInfo');
+
+  const calls: ContractCall[] = [
+    { contract, method: 'ownerOf', args: [tokenId] },
+    { contract, method: 'tokenURI', args: [tokenId] },
+    ...(sharedImage ? [{ contract, method: 'imageURI' }] : []),
+    ...(royalties ? [{ contract, method: 'royaltyInfo', args: [tokenId, ROYALTY_SALE_PRICE] }] : [])
+  ];
+  const [owner, tokenURI, ...rest] = await multicall(contract.provider, calls);
+  const image = sharedImage ? rest.shift() : undefined;
+  const royalty = royalties ? rest.shift() : undefined;
+
+  // A revert means the token does not exist; anything else is a failed read
+  if (!owner.success && !('code' in owner.error && owner.error.code === ethers.errors.CALL_EXCEPTION)) {
+    throw owner.error;
+  }
+
+  return {
+    tokenId,
+    owner: owner.success ? owner.value : null,
+    tokenURI: tokenURI.success ? tokenURI.value : null,
+    imageURI: image?.success ? image.value : null,
+    royalty: royalty?.success ? toRoyaltyInfo(royalty.value) : null
+  };
+}
+
+/**
+ * Every Transfer of a token, oldest first
+ */
+export async function getTransferHistory(
+  contract: ethers.Contract,
+  tokenId: string,
+  options: LogScanOptions<ethers.Event> = {}
+): Promise<IndexedTransfer[]> {
+  const events = await scanEvents(contract, contract.filters.Transfer(null, null, tokenId), options);
+
+  return events
+    .map(toIndexedTransfer)
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
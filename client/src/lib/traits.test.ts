@@ -0,0 +1,83 @@
+/**
+ * Unit Tests for Trait Display
+ *
+ * Describes attributes of every OpenSea display type to ensure:
+ * - decimals scale values by 10^decimals, unless read Foom-style as the
+ *   digit after the point, so Foom's traits read as 31.9 of 100 and 474 Hz
+ * - Rankings and stats fill against max_value, boosts are signed
+ * - Dates format from Unix seconds in UTC, out-of-range ones stay raw
+ * - Text values stay text whatever display_type claims
+ */
+
+import { describe, it, expect } from 'vitest';
+import { describeTrait, scaledTraitValue } from './traits';
+import { generateFoomAttributes } from './foomAttributes';
+
+describe('scaledTraitValue', () => {
+  it('scales by 10^decimals by default', () => {
+    expect(scaledTraitValue({ trait_type: 'Weight', value: 1500, decimals: 2 })).toBe('15');
+    expect(scaledTraitValue({ trait_type: 'Weight', value: '1505', decimals: 2 })).toBe('15.05');
+    expect(scaledTraitValue({ trait_type: 'Level', value: 4 })).toBe('4');
+    expect(scaledTraitValue({ trait_type: 'Mood', value: 'Serene', decimals: 2 })).toBe('Serene');
+  });
+
+  it('joins decimals on as the digit after the point for Foom-style collections', () => {
+    expect(scaledTraitValue({ trait_type: 'Paradox Resistance', value: 31, decimals: 9 }, 'digit')).toBe('31.9');
+    expect(scaledTraitValue({ trait_type: 'Level', value: 4 }, 'digit')).toBe('4');
+  });
+});
+
+describe('describeTrait', () => {
+  it('renders Foom traits as the contract means them', () => {
+    const views = generateFoomAttributes(42).map(attribute => describeTrait(attribute, 'digit'));
+
+    expect(views).toEqual([
+      { label: 'Cosmic Energy', display: 'ranking', text: '15', progress: null },
+      { label: 'Mood', display: 'text', text: 'Mischievous', progress: null },
+      { label: 'Resonance Frequency', display: 'stat', text: '474 Hz', progress: null },
+      { label: 'Paradox Resistance', display: 'stat', text: '31.9 of 100', progress: expect.closeTo(31.9) },
+      { label: 'Mineral Composition', display: 'text', text: '60% Cosmic Copper / 40% Singularity Sapphire', progress: null }
+    ]);
+  });
+
+  it('fills scaled stats against max_value', () => {
+    expect(describeTrait({ trait_type: 'Weight', value: 1500, display_type: 'number', max_value: 60, decimals: 2, unit: 'kg' })).toEqual({
+      label: 'Weight', display: 'stat', text: '15 of 60 kg', progress: 25
+    });
+  });
+
+  it('fills rankings against max_value, clamped', () => {
+    expect(describeTrait({ trait_type: 'Level', value: 3, max_value: 12 })).toEqual({
+      label: 'Level', display: 'ranking', text: '3 of 12', progress: 25
+    });
+    expect(describeTrait({ trait_type: 'Level', value: 20, max_value: 12 }).progress).toBe(100);
+  });
+
+  it('signs boosts and rings percentages out of 100', () => {
+    expect(describeTrait({ trait_type: 'Stamina', value: 10, display_type: 'boost_number' })).toEqual({
+      label: 'Stamina', display: 'boost_number', text: '+10', progress: null
+    });
+    expect(describeTrait({ trait_type: 'Stamina', value: 10, display_type: 'boost_number', max_value: 40 }).progress).toBe(25);
+    expect(describeTrait({ trait_type: 'Speed', value: 15, display_type: 'boost_percentage' })).toEqual({
+      label: 'Speed', display: 'boost_percentage', text: '+15%', progress: 15
+    });
+    expect(describeTrait({ trait_type: 'Speed', value: -5, display_type: 'boost_percentage' }).text).toBe('-5%');
+  });
+
+  it('formats dates from Unix seconds in UTC', () => {
+    expect(describeTrait({ trait_type: 'Birthday', value: 1546360800, display_type: 'date' }, 'scale', 'en-US')).toEqual({
+      label: 'Birthday', display: 'date', text: 'Jan 1, 2019', progress: null
+    });
+  });
+
+  it('shows out-of-range dates as their raw value instead of throwing', () => {
+    expect(describeTrait({ trait_type: 'Birthday', value: 1e16, display_type: 'date' }).text).toBe('10000000000000000');
+  });
+
+  it('keeps text values as text', () => {
+    expect(describeTrait({ trait_type: 'Rank', value: 'Captain', display_type: 'number', max_value: 10 })).toEqual({
+      label: 'Rank', display: 'text', text: 'Captain', progress: null
+    });
+    expect(describeTrait({ trait_type: 'Weight', value: 'heavy', unit: 'kg' }).text).toBe('heavy kg');
+  });
+});
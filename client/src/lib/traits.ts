@@ -0,0 +1,117 @@
+/**
+ * Trait Display
+ *
+ * Interprets NFT attributes the way OpenSea's metadata standard defines
+ * them, so every view renders a trait the same way:
+ * - text traits as plain values
+ * - numeric traits without a display_type as rankings, and display_type
+ *   "number" as stats; both get a progress fill against max_value
+ * - boost_number and boost_percentage as signed boosts, drawn as rings
+ * - date as a calendar date from a Unix timestamp
+ * Units are appended, and values are scaled by the decimals field: by
+ * 10^decimals unless the collection reads it Foom-style, as the digit after
+ * the decimal point (see TraitDecimals).
+ */
+
+import type { NFTAttribute, TraitDecimals } from "@/types/contracts";
+
+export type TraitDisplay = 'text' | 'ranking' | 'stat' | 'boost_number' | 'boost_percentage' | 'date';
+
+export interface TraitView {
+  label: string;
+  display: TraitDisplay;
+  // Formatted value, e.g. "31.9 of 100", "+5%" or "474 Hz"
+  text: string;
+  // Fill of the bar or ring as a percentage, null when there is nothing to fill
+  progress: number | null;
+}
+
+/**
+ * An attribute's value with its decimals applied, e.g. "15" or "31.9"
+ */
+export function scaledTraitValue(attribute: NFTAttribute, decimals: TraitDecimals = 'scale'): string {
+  const text = String(attribute.value);
+  if (attribute.decimals === undefined) return text;
+  if (decimals === 'digit') return `${text}.${attribute.decimals}`;
+
+  // Text values have nothing to scale
+  const value = Number(attribute.value);
+  return text.trim() !== '' && Number.isFinite(value) ? String(value / 10 ** attribute.decimals) : text;
+}
+
+/**
+ * Numeric value of an attribute, or null for text values
+ */
+function traitNumber(attribute: NFTAttribute, decimals: TraitDecimals): number | null {
+  if (typeof attribute.value === 'string' && attribute.value.trim() === '') return null;
+
+  const value = Number(scaledTraitValue(attribute, decimals));
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Percentage of max, clamped to 0-100
+ */
+function percentOf(value: number, max: number | undefined): number | null {
+  if (!max || max <= 0) return null;
+  return Math.min(100, Math.max(0, (value / max) * 100));
+}
+
+/**
+ * Append the attribute's unit to a formatted value
+ */
+function withUnit(text: string, attribute: NFTAttribute): string {
+  return attribute.unit ? `${text} ${attribute.unit}` : text;
+}
+
+/**
+ * Format a Unix timestamp (seconds) as a date, in UTC, or null when out of range
+ */
+function formatDate(seconds: number, locale?: string): string | null {
+  const date = new Date(seconds * 1000);
+  if (!Number.isFinite(date.getTime())) return null;
+  return new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeZone: 'UTC' }).format(date);
+}
+
+/**
+ * Work out how to display an attribute
+ */
+export function describeTrait(attribute: NFTAttribute, decimals: TraitDecimals = 'scale', locale?: string): TraitView {
+  const label = attribute.trait_type;
+  const value = traitNumber(attribute, decimals);
+  const scaled = scaledTraitValue(attribute, decimals);
+  const text = withUnit(scaled, attribute);
+
+  // Text values are shown as-is, whatever display_type claims
+  if (value === null) return { label, display: 'text', text, progress: null };
+
+  switch (attribute.display_type) {
+    case 'date':
+      // Metadata is untrusted: a timestamp no Date can hold shows as it is
+      return { label, display: 'date', text: formatDate(value, locale) ?? text, progress: null };
+
+    case 'boost_number':
+      return {
+        label,
+        display: 'boost_number',
+        text: withUnit(`${value >= 0 ? '+' : ''}${scaled}`, attribute),
+        progress: percentOf(value, attribute.max_value)
+      };
+
+    case 'boost_percentage':
+      return {
+        label,
+        display: 'boost_percentage',
+        text: `${value >= 0 ? '+' : ''}${scaled}%`,
+        progress: percentOf(Math.abs(value), attribute.max_value ?? 100)
+      };
+
+    default:
+      return {
+        label,
+        display: attribute.display_type === 'number' ? 'stat' : 'ranking',
+        text: withUnit(attribute.max_value ? `${scaled} of ${attribute.max_value}` : scaled, attribute),
+        progress: percentOf(value, attribute.max_value)
+      };
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Unit Tests for Transaction Tracking
+ *
+ * Checks the tracked-transaction lifecycle without a live chain:
+ * - Persisting and reloading the history from localStorage
+ * - Confirmed and reverted receipts
+ * - Sped-up, replaced and cancelled transactions (TRANSACTION_REPLACED)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  loadTransactions,
+  saveTransactions,
+  toReplaceable,
+  toTrackedTransaction,
+  upsertTransaction,
+  watchTransaction
+} from './transactions';
+import type { TrackedTransaction } from '@/types/contracts';
+import { FakeChain } from '@/test/fakeChain';
+
+const FROM = '0x1111111111111111111111111111111111111111';
+const NFT = '0x2222222222222222222222222222222222222222';
+const HASH = `0x${'aa'.repeat(32)}`;
+const REPLACEMENT_HASH = `0x${'bb'.repeat(32)}`;
+
+/**
+ * Minimal receipt carrying the fields the tracker reads
+ */
+function receipt(status: number, hash = HASH): ethers.providers.TransactionReceipt {
+  return {
+    transactionHash: hash,
+    status,
+    blockNumber: 120,
+    gasUsed: ethers.BigNumber.from(21000),
+    effectiveGasPrice: ethers.BigNumber.from(1_000_000_000)
+  } as ethers.providers.TransactionReceipt;
+}
+
+/**
+ * Provider whose wait either mines a receipt or reports a replacement
+ */
+class FakeProvider extends FakeChain {
+  replaceableSeen: unknown = null;
+
+  constructor(private outcome: () => Promise<ethers.providers.TransactionReceipt>) {
+    super();
+  }
+
+  async _waitForTransaction(_hash: string, _confirmations: number, _timeout: number, replaceable: unknown) {
+    this.replaceableSeen = replaceable;
+    return this.outcome();
+  }
+}
+
+/**
+ * TRANSACTION_REPLACED error as raised by ethers
+ */
+function replacedError(reason: 'repriced' | 'replaced' | 'cancelled', status = 1) {
+  return ethers.utils.Logger.globalLogger().makeError('transaction was replaced', ethers.errors.TRANSACTION_REPLACED, {
+    cancelled: reason !== 'repriced',
+    reason,
+    replacement: { hash: REPLACEMENT_HASH },
+    hash: HASH,
+    receipt: receipt(status, REPLACEMENT_HASH)
+  });
+}
+
+function pendingTransaction(overrides: Partial<TrackedTransaction> = {}): TrackedTransaction {
+  return {
+    hash: HASH,
+    chainId: 31337,
+    from: FROM,
+    to: NFT,
+    nonce: 7,
+    data: '0x1249c58b',
+    value: '0',
+    startBlock: 100,
+    kind: 'mint',
+    purpose: 'Mint Foom NFT',
+    status: 'pending',
+    submittedAt: 1_700_000_000_000,
+    ...overrides
+  };
+}
+
+describe('transaction history storage', () => {
+  beforeEach(() => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => { store.set(key, value); },
+      removeItem: (key: string) => { store.delete(key); }
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('round-trips tracked transactions', () => {
+    const transactions = [pendingTransaction()];
+    saveTransactions(transactions);
+    expect(loadTransactions()).toEqual(transactions);
+  });
+
+  it('ignores corrupt storage', () => {
+    localStorage.setItem('web3playground.transactions', '{not json');
+    expect(loadTransactions()).toEqual([]);
+  });
+
+  it('upserts by hash, newest first', () => {
+    const older = pendingTransaction({ hash: REPLACEMENT_HASH, submittedAt: 1 });
+    let transactions = upsertTransaction([], older);
+    transactions = upsertTransaction(transactions, pendingTransaction());
+    transactions = upsertTransaction(transactions, pendingTransaction({ status: 'confirmed' }));
+
+    expect(transactions.map(tx => [tx.hash, tx.status])).toEqual([
+      [HASH, 'confirmed'],
+      [REPLACEMENT_HASH, 'pending']
+    ]);
+  });
+});
+
+describe('toTrackedTransaction', () => {
+  it('records what is needed to resume and detect replacements', () => {
+    const tx = {
+      hash: HASH,
+      chainId: 31337,
+      from: FROM,
+      to: NFT,
+      nonce: 7,
+      data: '0x1249c58b',
+      value: ethers.BigNumber.from(0)
+    } as ethers.providers.TransactionResponse;
+
+    const tracked = toTrackedTransaction(tx, { kind: 'mint', purpose: 'Mint Foom NFT' }, 100);
+
+    expect(tracked).toMatchObject({ hash: HASH, nonce: 7, value: '0', startBlock: 100, status: 'pending' });
+    expect(toReplaceable(tracked)).toEqual({
+      data: '0x1249c58b',
+      from: FROM,
+      nonce: 7,
+      to: NFT,
+      value: ethers.BigNumber.from(0),
+      startBlock: 100
+    });
+  });
+});
+
+describe('watchTransaction', () => {
+  it('marks a mined transaction confirmed with its gas', async () => {
+    const provider = new FakeProvider(async () => receipt(1));
+
+    const { transaction } = await watchTransaction(provider, pendingTransaction());
+
+    expect(transaction).toMatchObject({ status: 'confirmed', blockNumber: 120, gasUsed: '21000', effectiveGasPrice: '1000000000' });
+    expect(provider.replaceableSeen).toMatchObject({ from: FROM, nonce: 7, startBlock: 100 });
+  });
+
+  it('marks a reverted transaction failed', async () => {
+    const provider = new FakeProvider(async () => receipt(0));
+    const { transaction } = await watchTransaction(provider, pendingTransaction());
+    expect(transaction.status).toBe('failed');
+  });
+
+  it('follows a sped-up transaction to its replacement', async () => {
+    const provider = new FakeProvider(async () => { throw replacedError('repriced'); });
+
+    const { transaction, receipt: mined } = await watchTransaction(provider, pendingTransaction());
+
+    expect(transaction.status).toBe('confirmed');
+    expect(transaction.replacement).toEqual({ hash: REPLACEMENT_HASH, reason: 'repriced' });
+    expect(mined.transactionHash).toBe(REPLACEMENT_HASH);
+  });
+
+  it('reports cancelled and replaced transactions', async () => {
+    const cancelled = await watchTransaction(new FakeProvider(async () => { throw replacedError('cancelled'); }), pendingTransaction());
+    const replaced = await watchTransaction(new FakeProvider(async () => { throw replacedError('replaced'); }), pendingTransaction());
+
+    expect(cancelled.transaction.status).toBe('cancelled');
+    expect(replaced.transaction.status).toBe('replaced');
+    expect(replaced.transaction.replacement?.reason).toBe('replaced');
+  });
+
+  it('rethrows other errors so the entry stays pending', async () => {
+    const provider = new FakeProvider(async () => { throw new Error('network down'); });
+    await expect(watchTransaction(provider, pendingTransaction())).rejects.toThrow('network down');
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Transaction Tracking
+ *
+ * Records every submitted playground transaction (hash, purpose, chain, nonce)
+ * in localStorage and resolves its outcome, so a pending transaction survives
+ * a page reload. Waiting uses ethers' replacement detection, which reports a
+ * transaction the wallet sped up, replaced or cancelled instead of waiting on
+ * a hash that will never be mined.
+ */
+
+import { ethers } from "ethers";
+import { waitForTransaction } from "./web3";
+import type {
+  ReplaceableTransaction,
+  TrackedTransaction,
+  TrackedTransactionKind
+} from "@/types/contracts";
+
+const STORAGE_KEY = 'web3playground.transactions';
+
+// Oldest entries are dropped beyond this many
+const MAX_STORED_TRANSACTIONS = 100;
+
+export interface TransactionDetails {
+  kind: TrackedTransactionKind;
+  purpose: string;
+}
+
+export interface TransactionOutcome {
+  transaction: TrackedTransaction;
+  receipt: ethers.providers.TransactionReceipt;
+}
+
+/**
+ * Read tracked transactions from localStorage, newest first
+ */
+export function loadTransactions(): TrackedTransaction[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn('Unable to read tracked transactions:', error);
+    return [];
+  }
+}
+
+/**
+ * Persist tracked transactions to localStorage
+ */
+export function saveTransactions(transactions: TrackedTransaction[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions));
+  } catch (error) {
+    console.warn('Unable to save tracked transactions:', error);
+  }
+}
+
+/**
+ * Insert or update a transaction by hash, keeping newest first
+ */
+export function upsertTransaction(
+  transactions: TrackedTransaction[],
+  transaction: TrackedTransaction
+): TrackedTransaction[] {
+  const others = transactions.filter(existing => existing.hash !== transaction.hash);
+  return [transaction, ...others]
+    .sort((a, b) => b.submittedAt - a.submittedAt)
+    .slice(0, MAX_STORED_TRANSACTIONS);
+}
+
+/**
+ * Build the tracked record for a freshly submitted transaction
+ */
+export function toTrackedTransaction(
+  tx: ethers.providers.TransactionResponse,
+  details: TransactionDetails,
+  startBlock: number
+): TrackedTransaction {
+  return {
+    hash: tx.hash,
+    chainId: tx.chainId,
+    from: tx.from,
+    to: tx.to ?? null,
+    nonce: tx.nonce,
+    data: tx.data,
+    value: tx.value.toString(),
+    startBlock,
+    kind: details.kind,
+    purpose: details.purpose,
+    status: 'pending',
+    submittedAt: Date.now()
+  };
+}
+
+/**
+ * Fields ethers compares to recognise a replacement transaction
+ */
+export function toReplaceable(transaction: TrackedTransaction): ReplaceableTransaction {
+  return {
+    data: transaction.data,
+    from: transaction.from,
+    nonce: transaction.nonce,
+    to: transaction.to ?? '',
+    value: ethers.BigNumber.from(transaction.value),
+    startBlock: transaction.startBlock
+  };
+}
+
+/**
+ * Fold a mined receipt into the tracked record
+ */
+function applyReceipt(
+  transaction: TrackedTransaction,
+  receipt: ethers.providers.TransactionReceipt
+): TrackedTransaction {
+  return {
+    ...transaction,
+    status: receipt.status === 0 ? 'failed' : 'confirmed',
+    blockNumber: receipt.blockNumber,
+    gasUsed: receipt.gasUsed.toString(),
+    effectiveGasPrice: receipt.effectiveGasPrice?.toString()
+  };
+}
+
+/**
+ * Wait for a tracked transaction to be mined, replaced or cancelled
+ * A sped-up (repriced) transaction takes the outcome of its replacement.
+ */
+export async function watchTransaction(
+  provider: ethers.providers.Provider,
+  transaction: TrackedTransaction,
+  confirmations = 1
+): Promise<TransactionOutcome> {
+  try {
+    const receipt = await waitForTransaction(provider, transaction.hash, confirmations, 0, toReplaceable(transaction));
+    return { transaction: applyReceipt(transaction, receipt), receipt };
+  } catch (error: any) {
+    if (error?.code !== ethers.errors.TRANSACTION_REPLACED) throw error;
+
+    const { reason, replacement, receipt } = error as {
+      reason: 'repriced' | 'replaced' | 'cancelled';
+      replacement: ethers.providers.TransactionResponse;
+      receipt: ethers.providers.TransactionReceipt;
+    };
+    const replaced = applyReceipt(
+      { ...transaction, replacement: { hash: replacement.hash, reason } },
+      receipt
+    );
+
+    if (reason === 'repriced') return { transaction: replaced, receipt };
+    return { transaction: { ...replaced, status: reason === 'cancelled' ? 'cancelled' : 'replaced' }, receipt };
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Unit Tests for WalletConnect Session Management
+ *
+ * Drives the WalletConnect flow against a mocked relay so the tests run offline:
+ * - Pairing URI delivery and session approval
+ * - accountsChanged / chainChanged / session_delete mapping onto handlers
+ * - Session restoration after a page reload
+ * - Clean teardown on disconnect
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NETWORKS } from './networks';
+
+const WALLET_ADDRESS = '0x1111111111111111111111111111111111111111';
+const PAIRING_URI = 'wc:7f6e504bfad60b485450578e05678ed3e8e8c4751d3c6160be17160d63ec90f9@2?relay-protocol=irn&symKey=587d5484ce2a2a6ee3ba1962fdd7e8588e06200c46823bd18fbd67def96ad303';
+
+// Mocked relay: holds the session the real provider would persist in storage
+const relay = vi.hoisted(() => ({
+  persisted: null as null | { accounts: string[]; chainId: number },
+  approve: true,
+  instances: [] as any[]
+}));
+
+vi.mock('@walletconnect/ethereum-provider', () => {
+  class FakeEthereumProvider {
+    opts: any;
+    accounts: string[] = [];
+    chainId = 0;
+    session: { topic: string } | undefined;
+    listeners = new Map<string, Set<(...args: any[]) => void>>();
+
+    constructor(opts: any) {
+      this.opts = opts;
+      this.chainId = opts.optionalChains[0];
+    }
+
+    static async init(opts: any) {
+      const provider = new FakeEthereumProvider(opts);
+      if (relay.persisted) {
+        provider.session = { topic: 'persisted-topic' };
+        provider.accounts = relay.persisted.accounts;
+        provider.chainId = relay.persisted.chainId;
+      }
+      relay.instances.push(provider);
+      return provider;
+    }
+
+    on(event: string, listener: (...args: any[]) => void) {
+      if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+      this.listeners.get(event)!.add(listener);
+      return this;
+    }
+
+    removeListener(event: string, listener: (...args: any[]) => void) {
+      this.listeners.get(event)?.delete(listener);
+      return this;
+    }
+
+    emit(event: string, ...args: any[]) {
+      this.listeners.get(event)?.forEach(listener => listener(...args));
+    }
+
+    listenerCount() {
+      return Array.from(this.listeners.values()).reduce((sum, set) => sum + set.size, 0);
+    }
+
+    async enable() {
+      this.emit('display_uri', PAIRING_URI);
+      if (!relay.approve) {
+        throw new Error('User rejected.');
+      }
+      this.session = { topic: 'new-topic' };
+      this.accounts = [WALLET_ADDRESS];
+      relay.persisted = { accounts: this.accounts, chainId: this.chainId };
+      return this.accounts;
+    }
+
+    async disconnect() {
+      this.session = undefined;
+      this.accounts = [];
+      relay.persisted = null;
+    }
+  }
+
+  return { default: FakeEthereumProvider };
+});
+
+function createHandlers() {
+  return {
+    onDisplayUri: vi.fn(),
+    onAccountsChanged: vi.fn(),
+    onChainChanged: vi.fn(),
+    onDisconnect: vi.fn()
+  };
+}
+
+async function loadModule() {
+  return import('./walletConnect');
+}
+
+describe('WalletConnect session management', () => {
+
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubEnv('VITE_WALLETCONNECT_PROJECT_ID', 'test-project-id');
+    relay.persisted = null;
+    relay.approve = true;
+    relay.instances = [];
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should deliver the pairing URI and resolve once the wallet approves', async () => {
+    const { connectWalletConnect } = await loadModule();
+    const handlers = createHandlers();
+
+    const session = await connectWalletConnect(NETWORKS.hemi, handlers);
+
+    expect(handlers.onDisplayUri).toHaveBeenCalledWith(PAIRING_URI);
+    expect(session.accounts).toEqual([WALLET_ADDRESS]);
+    expect(session.chainId).toBe(43111);
+  });
+
+  it('should request the selected network first and disable the bundled QR modal', async () => {
+    const { connectWalletConnect } = await loadModule();
+
+    await connectWalletConnect(NETWORKS.hemiSepolia, createHandlers());
+
+    const opts = relay.instances[0].opts;
+    expect(opts.projectId).toBe('test-project-id');
+    expect(opts.showQrModal).toBe(false);
+    expect(opts.optionalChains[0]).toBe(743111);
+    expect(opts.optionalChains).toContain(43111);
+    expect(opts.rpcMap['43111']).toBe(NETWORKS.hemi.rpcUrl);
+  });
+
+  it('should map accountsChanged and chainChanged onto the handlers', async () => {
+    const { connectWalletConnect } = await loadModule();
+    const handlers = createHandlers();
+    await connectWalletConnect(NETWORKS.hemi, handlers);
+    const provider = relay.instances[0];
+
+    provider.emit('accountsChanged', ['0x2222222222222222222222222222222222222222']);
+    provider.emit('chainChanged', '0xb56c7');
+    provider.emit('chainChanged', 43111);
+
+    expect(handlers.onAccountsChanged).toHaveBeenCalledWith(['0x2222222222222222222222222222222222222222']);
+    expect(handlers.onChainChanged).toHaveBeenNthCalledWith(1, 743111);
+    expect(handlers.onChainChanged).toHaveBeenNthCalledWith(2, 43111);
+  });
+
+  it('should report a wallet-initiated session deletion as a disconnect', async () => {
+    const { connectWalletConnect } = await loadModule();
+    const handlers = createHandlers();
+    await connectWalletConnect(NETWORKS.hemi, handlers);
+
+    relay.instances[0].emit('session_delete', { topic: 'new-topic' });
+
+    expect(handlers.onDisconnect).toHaveBeenCalledTimes(1);
+  });
+
+  it('should restore a persisted session after a reload', async () => {
+    const first = await loadModule();
+    await first.connectWalletConnect(NETWORKS.hemi, createHandlers());
+
+    // Simulate a page reload: fresh module state, same relay storage
+    vi.resetModules();
+    const reloaded = await loadModule();
+    const handlers = createHandlers();
+    const session = await reloaded.restoreWalletConnect(NETWORKS.hemi, handlers);
+
+    expect(session).not.toBeNull();
+    expect(session!.accounts).toEqual([WALLET_ADDRESS]);
+    expect(handlers.onDisplayUri).not.toHaveBeenCalled();
+
+    relay.instances[1].emit('chainChanged', '0xa867');
+    expect(handlers.onChainChanged).toHaveBeenCalledWith(43111);
+  });
+
+  it('should not restore anything when no session was persisted', async () => {
+    const { restoreWalletConnect } = await loadModule();
+
+    const session = await restoreWalletConnect(NETWORKS.hemi, createHandlers());
+
+    expect(session).toBeNull();
+    expect(relay.instances[0].listenerCount()).toBe(0);
+  });
+
+  it('should tear the session down and remove every listener on disconnect', async () => {
+    const { connectWalletConnect, disconnectWalletConnect, restoreWalletConnect } = await loadModule();
+    const handlers = createHandlers();
+    const session = await connectWalletConnect(NETWORKS.hemi, handlers);
+    const provider = relay.instances[0];
+
+    await disconnectWalletConnect(session);
+
+    expect(provider.listenerCount()).toBe(0);
+    expect(provider.session).toBeUndefined();
+    expect(relay.persisted).toBeNull();
+    expect(handlers.onDisconnect).not.toHaveBeenCalled();
+
+    // A fresh provider is created afterwards, with nothing to restore
+    expect(await restoreWalletConnect(NETWORKS.hemi, createHandlers())).toBeNull();
+    expect(relay.instances).toHaveLength(2);
+  });
+
+  it('should unsubscribe and reject when the wallet rejects the pairing', async () => {
+    const { connectWalletConnect } = await loadModule();
+    relay.approve = false;
+
+    await expect(connectWalletConnect(NETWORKS.hemi, createHandlers())).rejects.toThrow('User rejected.');
+    expect(relay.instances[0].listenerCount()).toBe(0);
+  });
+
+  it('should refuse to start without a project ID', async () => {
+    vi.stubEnv('VITE_WALLETCONNECT_PROJECT_ID', '');
+    const { connectWalletConnect } = await loadModule();
+
+    await expect(connectWalletConnect(NETWORKS.hemi, createHandlers()))
+      .rejects.toThrow('VITE_WALLETCONNECT_PROJECT_ID');
+    expect(relay.instances).toHaveLength(0);
+  });
+
+  it('should render the pairing URI as a QR code image', async () => {
+    const { toQrDataUrl } = await loadModule();
+
+    const dataUrl = await toQrDataUrl(PAIRING_URI);
+
+    expect(dataUrl.startsWith('data:image/png;base64,')).toBe(true);
+  });
+});
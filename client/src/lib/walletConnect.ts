@@ -0,0 +1,175 @@
+/**
+ * WalletConnect v2 Session Management
+ *
+ * Wraps @walletconnect/ethereum-provider for the wallet hook: creates a single
+ * EIP-1193 provider for every network in the registry, exposes the pairing
+ * URI for our own QR dialog (the bundled modal is disabled), restores
+ * persisted sessions after a reload, maps session events onto plain callbacks
+ * and tears the session down on disconnect.
+ */
+
+import EthereumProvider from "@walletconnect/ethereum-provider";
+import QRCode from "qrcode";
+import { NETWORKS } from "./networks";
+import type { NetworkDeployment } from "@/types/contracts";
+
+export interface WalletConnectHandlers {
+  onDisplayUri?: (uri: string) => void;
+  onAccountsChanged: (accounts: string[]) => void;
+  onChainChanged: (chainId: number) => void;
+  onDisconnect: () => void;
+}
+
+export interface WalletConnectSession {
+  provider: EthereumProvider;
+  accounts: string[];
+  chainId: number;
+  unsubscribe: () => void;
+}
+
+let providerPromise: Promise<EthereumProvider> | null = null;
+
+/**
+ * Get (or lazily create) the shared WalletConnect provider
+ */
+export function getWalletConnectProvider(network: NetworkDeployment): Promise<EthereumProvider> {
+  const projectId: string | undefined = import.meta.env.VITE_WALLETCONNECT_PROJECT_ID;
+  if (!projectId) {
+    return Promise.reject(
+      new Error('WalletConnect is not configured (missing VITE_WALLETCONNECT_PROJECT_ID)')
+    );
+  }
+
+  if (!providerPromise) {
+    const otherChains = Object.values(NETWORKS)
+      .filter(entry => entry.chainId !== network.chainId)
+      .map(entry => entry.chainId);
+
+    const rpcMap = Object.fromEntries(
+      Object.values(NETWORKS).map(entry => [String(entry.chainId), entry.rpcUrl])
+    );
+
+    const origin = typeof window !== 'undefined' ? window.location.origin : '';
+
+    providerPromise = EthereumProvider.init({
+      projectId,
+      optionalChains: [network.chainId, ...otherChains],
+      rpcMap,
+      showQrModal: false,
+      metadata: {
+        name: "Jeff's Hacker Haven",
+        description: 'Web3 Development Playground',
+        url: origin,
+        icons: [`${origin}/favicon.svg`]
+      }
+    }).catch(error => {
+      providerPromise = null;
+      throw error;
+    });
+  }
+
+  return providerPromise;
+}
+
+/**
+ * Parse a chain ID reported by the wallet (hex string, decimal string or number)
+ */
+export function parseChainId(chainId: string | number): number {
+  if (typeof chainId === 'number') return chainId;
+  return chainId.startsWith('0x') ? parseInt(chainId, 16) : parseInt(chainId, 10);
+}
+
+/**
+ * Map WalletConnect session events onto the given handlers
+ * Returns a function that removes every listener it added.
+ */
+export function bindWalletConnectEvents(
+  provider: EthereumProvider,
+  handlers: WalletConnectHandlers
+): () => void {
+  const handleDisplayUri = (uri: string) => handlers.onDisplayUri?.(uri);
+  const handleAccountsChanged = (accounts: string[]) => handlers.onAccountsChanged(accounts);
+  const handleChainChanged = (chainId: string | number) => handlers.onChainChanged(parseChainId(chainId));
+  const handleDisconnect = () => handlers.onDisconnect();
+
+  provider.on('display_uri', handleDisplayUri);
+  provider.on('accountsChanged', handleAccountsChanged);
+  provider.on('chainChanged', handleChainChanged);
+  provider.on('disconnect', handleDisconnect);
+  provider.on('session_delete', handleDisconnect);
+
+  return () => {
+    provider.removeListener('display_uri', handleDisplayUri);
+    provider.removeListener('accountsChanged', handleAccountsChanged);
+    provider.removeListener('chainChanged', handleChainChanged);
+    provider.removeListener('disconnect', handleDisconnect);
+    provider.removeListener('session_delete', handleDisconnect);
+  };
+}
+
+/**
+ * Start a new pairing and wait for the wallet to approve the session
+ * The pairing URI is delivered through handlers.onDisplayUri.
+ */
+export async function connectWalletConnect(
+  network: NetworkDeployment,
+  handlers: WalletConnectHandlers
+): Promise<WalletConnectSession> {
+  const provider = await getWalletConnectProvider(network);
+  const unsubscribe = bindWalletConnectEvents(provider, handlers);
+
+  try {
+    const accounts = provider.session ? provider.accounts : await provider.enable();
+
+    if (accounts.length === 0) {
+      throw new Error('No accounts approved in WalletConnect session');
+    }
+
+    return { provider, accounts, chainId: provider.chainId, unsubscribe };
+  } catch (error) {
+    unsubscribe();
+    throw error;
+  }
+}
+
+/**
+ * Resume a session persisted by a previous page load, if one exists
+ */
+export async function restoreWalletConnect(
+  network: NetworkDeployment,
+  handlers: WalletConnectHandlers
+): Promise<WalletConnectSession | null> {
+  const provider = await getWalletConnectProvider(network);
+
+  if (!provider.session || provider.accounts.length === 0) {
+    return null;
+  }
+
+  const unsubscribe = bindWalletConnectEvents(provider, handlers);
+  return { provider, accounts: provider.accounts, chainId: provider.chainId, unsubscribe };
+}
+
+/**
+ * End the session with the wallet and drop the cached provider
+ */
+export async function disconnectWalletConnect(session: WalletConnectSession | null): Promise<void> {
+  if (!session) return;
+
+  session.unsubscribe();
+  try {
+    if (session.provider.session) {
+      await session.provider.disconnect();
+    }
+  } catch (error) {
+    console.warn('Error ending WalletConnect session:', error);
+  } finally {
+    providerPromise = null;
+  }
+}
+
+/**
+ * Render a pairing URI as a QR code image
+ */
+export function toQrDataUrl(uri: string): Promise<string> {
+  return QRCode.toDataURL(uri, { margin: 1, width: 256 });
+}
@@ -6,11 +6,15 @@
  * - Precise decimal truncation (no rounding)
  * - Consistent 2-decimal place display
  * - Edge cases and error handling
+ *
+ * Also guards the internal ethers API used for replacement-aware waiting.
  */
 
 import { describe, it, expect } from 'vitest';
-import { formatTokenAmountWithCommas } from './web3';
+import { ethers } from 'ethers';
+import { formatTokenAmountWithCommas, waitForReplaceableTransaction } from './web3';
 import { FOOM_REQUIREMENTS } from './contracts';
+import { FakeChain, fakeBlockHash } from '@/test/fakeChain';
 
 describe('formatTokenAmountWithCommas', () => {
   
@@ -99,4 +103,45 @@ describe('formatTokenAmountWithCommas', () => {
     expect(formatTokenAmountWithCommas(FOOM_REQUIREMENTS.HAIR_AMOUNT_RAW, 2)).toBe('3,000.00');
     expect(formatTokenAmountWithCommas(FOOM_REQUIREMENTS.MAX_AMOUNT_RAW, 2)).toBe('100.00');
   });
-});
\ No newline at end of file
+});
+
+/**
+ * Chain at block 12 where the watched transaction was mined in block 10
+ */
+class MinedChain extends FakeChain {
+  async perform(method: string, params: any): Promise<any> {
+    switch (method) {
+      case 'getBlockNumber':
+        return 12;
+      case 'getTransactionReceipt':
+        return {
+          to: '0x2222222222222222222222222222222222222222', from: '0x1111111111111111111111111111111111111111',
+          contractAddress: null, transactionIndex: '0x0', gasUsed: '0x5208', logsBloom: '0x', logs: [],
+          blockHash: fakeBlockHash(10), transactionHash: params.transactionHash, blockNumber: '0xa',
+          cumulativeGasUsed: '0x5208', effectiveGasPrice: '0x3b9aca00', status: '0x1', type: '0x2'
+        };
+      default:
+        return super.perform(method, params);
+    }
+  }
+}
+
+describe('waitForReplaceableTransaction', () => {
+  it('should still find the internal ethers watcher', () => {
+    // Breaks loudly if an ethers upgrade renames or reshapes the internal method
+    expect(typeof ethers.providers.BaseProvider.prototype._waitForTransaction).toBe('function');
+    expect(ethers.providers.BaseProvider.prototype._waitForTransaction.length).toBe(4);
+  });
+
+  it('should resolve with the receipt once confirmed', async () => {
+    const hash = `0x${'aa'.repeat(32)}`;
+
+    const receipt = await waitForReplaceableTransaction(new MinedChain(), hash, 3, {
+      data: '0x', from: '0x1111111111111111111111111111111111111111', nonce: 4,
+      to: '0x2222222222222222222222222222222222222222', value: ethers.constants.Zero, startBlock: 9
+    });
+
+    expect(receipt.transactionHash).toBe(hash);
+    expect(receipt.confirmations).toBe(3);
+  });
+});
@@ -3,11 +3,14 @@
  * 
  * Comprehensive utility functions for blockchain interactions in Jeff's Hacker Haven.
  * Provides address formatting, token amount conversion, transaction monitoring,
- * error parsing, and direct integration with Hemi mainnet explorer URLs.
- * All functions are optimized for Hemi blockchain (Chain ID 43111) operations.
+ * error parsing, EIP-712 signing, and block explorer URLs for any network in the registry
+ * (defaulting to the configured default network, Hemi mainnet).
  */
 
 import { ethers } from "ethers";
+import { DEFAULT_NETWORK } from "./networks";
+import { decodeError } from "./errors";
+import type { NetworkConfig, ReplaceableTransaction } from "@/types/contracts";
 
 /**
  * Format address for display (0x1234...5678)
@@ -88,22 +91,32 @@ export function isValidAddress(address: string): boolean {
 /**
  * Get transaction explorer URL
  */
-export function getTransactionUrl(txHash: string): string {
-  return `https://explorer.hemi.xyz/tx/${txHash}`;
+export function getTransactionUrl(
+  txHash: string,
+  network: NetworkConfig = DEFAULT_NETWORK
+): string {
+  return `${network.blockExplorer}/tx/${txHash}`;
 }
 
 /**
  * Get address explorer URL
  */
-export function getAddressUrl(address: string): string {
-  return `https://explorer.hemi.xyz/address/${address}`;
+export function getAddressUrl(
+  address: string,
+  network: NetworkConfig = DEFAULT_NETWORK
+): string {
+  return `${network.blockExplorer}/address/${address}`;
 }
 
 /**
  * Get token explorer URL
  */
-export function getTokenUrl(contractAddress: string, tokenId?: string): string {
-  const baseUrl = `https://explorer.hemi.xyz/token/${contractAddress}`;
+export function getTokenUrl(
+  contractAddress: string,
+  tokenId?: string,
+  network: NetworkConfig = DEFAULT_NETWORK
+): string {
+  const baseUrl = `${network.blockExplorer}/token/${contractAddress}`;
   return tokenId ? `${baseUrl}/instance/${tokenId}` : baseUrl;
 }
 
@@ -116,77 +129,87 @@ export function chainIdToHex(chainId: number): string {
 
 /**
  * Parse error messages from contract calls
+ * Thin wrapper over decodeError (lib/errors.ts) for callers that only need text.
  */
 export function parseContractError(error: any): string {
-  if (error.code === 4001) {
-    return 'Transaction was cancelled by user';
-  }
-  
-  if (error.code === -32603) {
-    return 'Internal JSON-RPC error';
-  }
-  
-  if (error.message?.includes('insufficient funds')) {
-    return 'Insufficient funds for transaction';
-  }
-  
-  if (error.message?.includes('gas required exceeds allowance')) {
-    return 'Transaction requires more gas than allowed';
-  }
-  
-  if (error.message?.includes('nonce too low')) {
-    return 'Transaction nonce too low';
-  }
-  
-  if (error.reason) {
-    return error.reason;
-  }
-  
-  if (error.message) {
-    return error.message;
-  }
-  
-  return 'Unknown error occurred';
+  return decodeError(error).message;
 }
 
 /**
- * Wait for transaction confirmation with timeout
+ * Wait for a transaction with ethers' replacement detection
+ * tx.wait() only detects replacements for a TransactionResponse from this
+ * session, while a transaction restored after a reload has just its hash and
+ * the fields ethers compares. ethers v5 runs the same detection in the typed
+ * but internal BaseProvider._waitForTransaction; this is the only caller, and
+ * web3.test.ts fails if an ethers upgrade drops it.
+ */
+export function waitForReplaceableTransaction(
+  provider: ethers.providers.BaseProvider,
+  txHash: string,
+  confirmations: number,
+  replaceable: ReplaceableTransaction
+): Promise<ethers.providers.TransactionReceipt> {
+  return provider._waitForTransaction(txHash, confirmations, 0, replaceable);
+}
+
+/**
+ * Wait for transaction confirmation with timeout (0 waits indefinitely)
+ * With replaceable details, rejects with TRANSACTION_REPLACED when the
+ * wallet speeds up, replaces or cancels the transaction.
  */
 export async function waitForTransaction(
   provider: ethers.providers.Provider,
   txHash: string,
   confirmations = 1,
-  timeout = 300000 // 5 minutes
+  timeout = 300000, // 5 minutes
+  replaceable?: ReplaceableTransaction
 ): Promise<ethers.providers.TransactionReceipt> {
   return new Promise((resolve, reject) => {
-    const timeoutId = setTimeout(() => {
-      reject(new Error('Transaction confirmation timeout'));
-    }, timeout);
+    const timeoutId = timeout > 0
+      ? setTimeout(() => {
+          reject(new Error('Transaction confirmation timeout'));
+        }, timeout)
+      : undefined;
+
+    // Replacement detection is only available on ethers' BaseProvider
+    const wait = replaceable && provider instanceof ethers.providers.BaseProvider
+      ? waitForReplaceableTransaction(provider, txHash, confirmations, replaceable)
+      : provider.waitForTransaction(txHash, confirmations);
 
-    provider.waitForTransaction(txHash, confirmations)
+    wait
       .then(receipt => {
         clearTimeout(timeoutId);
         resolve(receipt);
       })
-      .catch(error => {
+      .catch((error: unknown) => {
         clearTimeout(timeoutId);
         reject(error);
       });
   });
 }
 
+// Signers that implement EIP-712 (JsonRpcSigner, Wallet)
+interface TypedDataSigner extends ethers.Signer {
+  _signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string>;
+}
+
 /**
- * Estimate gas for contract transaction
+ * Sign EIP-712 typed data and split the signature into v, r, s
  */
-export async function estimateGas(
-  contract: ethers.Contract,
-  method: string,
-  args: any[] = []
-): Promise<ethers.BigNumber> {
-  try {
-    return await contract.estimateGas[method](...args);
-  } catch (error) {
-    // Return a default gas limit if estimation fails
-    return ethers.BigNumber.from('200000');
+export async function signTypedData(
+  signer: ethers.Signer,
+  domain: ethers.TypedDataDomain,
+  types: Record<string, ethers.TypedDataField[]>,
+  value: Record<string, any>
+): Promise<ethers.Signature> {
+  if (typeof (signer as TypedDataSigner)._signTypedData !== 'function') {
+    throw new Error('Connected wallet cannot sign typed data');
   }
+
+  const signature = await (signer as TypedDataSigner)._signTypedData(domain, types, value);
+  return ethers.utils.splitSignature(signature);
 }
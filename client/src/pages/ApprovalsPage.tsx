@@ -0,0 +1,257 @@
+/**
+ * Approvals Page Component
+ *
+ * Allowance manager at /approvals. Lists every outstanding ERC20 allowance
+ * the connected address has granted on the selected network, found from its
+ * Approval events, and revokes any of them in one click (approve to 0).
+ * Playground contracts are labelled by name.
+ */
+
+import { useState, useMemo } from "react";
+import { Link } from "wouter";
+import { ethers } from "ethers";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { ArrowLeftIcon, ExternalLinkIcon, ShieldIcon } from "@/components/SVGIcons";
+import { useWallet } from "@/hooks/useWallet";
+import { useNetwork } from "@/hooks/useNetwork";
+import { useToast } from "@/hooks/use-toast";
+import { useTransactions } from "@/hooks/useTransactions";
+import { useApprovals } from "@/hooks/useApprovals";
+import WalletConnection from "@/components/WalletConnection";
+import { COLLECTIONS } from "@/lib/collections";
+import { ERC20_ABI } from "@/lib/contracts";
+import { isUnlimitedAllowance } from "@/lib/approvals";
+import { decodeError } from "@/lib/errors";
+import {
+  formatAddress,
+  formatTokenAmountWithCommas,
+  getAddressUrl,
+  getTokenUrl
+} from "@/lib/web3";
+import type { TokenApproval } from "@/types/contracts";
+
+/**
+ * Key identifying a token/spender pair
+ */
+function approvalKey(approval: TokenApproval): string {
+  return `${approval.token}:${approval.spender}`;
+}
+
+export default function ApprovalsPage() {
+  const { isConnected, address, chainId, signer } = useWallet();
+  const { network, contracts } = useNetwork();
+  const { toast } = useToast();
+  const { trackTransaction } = useTransactions();
+  const { approvals, loading, progress, error, scan, removeApproval } = useApprovals();
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  // Names for the playground's own contracts on this network
+  const knownContracts = useMemo(() => {
+    const names = new Map<string, string>();
+    Object.entries(contracts).forEach(([name, contractAddress]) => {
+      if (!contractAddress) return;
+      const collection = COLLECTIONS.find(entry => entry.contract === name);
+      names.set(ethers.utils.getAddress(contractAddress), collection?.name ?? name);
+    });
+    return names;
+  }, [contracts]);
+
+  /**
+   * Label a spender by name when it is a playground contract
+   */
+  const spenderLabel = (spender: string) => knownContracts.get(spender) ?? formatAddress(spender);
+
+  /**
+   * Format an allowance in the token's units
+   */
+  const formatAllowance = (approval: TokenApproval) =>
+    isUnlimitedAllowance(approval.allowance)
+      ? 'Unlimited'
+      : formatTokenAmountWithCommas(ethers.utils.formatUnits(approval.allowance, approval.decimals), 2);
+
+  /**
+   * Revoke an allowance by approving zero
+   */
+  const handleRevoke = async (approval: TokenApproval) => {
+    if (!signer) return;
+
+    if (chainId !== network.chainId) {
+      toast({
+        title: "Wrong Network",
+        description: `Please switch to ${network.name} (${network.chainId})`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setRevoking(approvalKey(approval));
+
+      const token = new ethers.Contract(approval.token, ERC20_ABI, signer);
+      const tx = await token.approve(approval.spender, 0);
+      await trackTransaction(tx, {
+        kind: 'approve',
+        purpose: `Revoke ${approval.symbol} for ${spenderLabel(approval.spender)}`
+      });
+
+      removeApproval(approval);
+    } catch (error) {
+      console.error("Revoke error:", error);
+      const decoded = decodeError(error);
+
+      toast({
+        title: decoded.type === 'user-rejected' ? "Transaction Cancelled" : "Revoke Failed",
+        description: decoded.type === 'user-rejected' ? "You cancelled the revoke" : decoded.message,
+        variant: "destructive",
+      });
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-slate-900">
+      {/* Navigation Header */}
+      <header className="bg-card/50 backdrop-blur-xl border-b border-border sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link href="/">
+                <Button variant="ghost" size="sm" className="p-2">
+                  <ArrowLeftIcon className="w-4 h-4" size={16} />
+                </Button>
+              </Link>
+              <div className="flex items-center space-x-3">
+                <div className="w-10 h-10 bg-gradient-to-br from-primary to-secondary rounded-xl flex items-center justify-center">
+                  <ShieldIcon className="w-5 h-5 text-white" size={20} />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold text-foreground">Token Approvals</h1>
+                  <p className="text-xs text-muted-foreground">Review and revoke ERC20 allowances</p>
+                </div>
+              </div>
+            </div>
+
+            <WalletConnection />
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-4 flex-wrap">
+            <CardTitle>
+              {address ? `Allowances granted by ${formatAddress(address)}` : 'Allowances'}
+            </CardTitle>
+            {isConnected && (
+              <Button variant="outline" size="sm" onClick={scan} disabled={loading}>
+                {loading ? 'Scanning...' : 'Rescan'}
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!isConnected ? (
+              <p className="text-muted-foreground text-center py-8">
+                Connect your wallet to review the allowances it has granted on {network.name}.
+              </p>
+            ) : loading ? (
+              <div className="space-y-3 py-8 text-center">
+                <p className="text-muted-foreground">Scanning Approval events on {network.name}...</p>
+                {progress !== null && <Progress value={progress} className="w-full max-w-md mx-auto" />}
+              </div>
+            ) : error ? (
+              <p className="text-red-400 text-center py-8">{error}</p>
+            ) : approvals.length === 0 ? (
+              <p className="text-muted-foreground text-center py-8">
+                No outstanding allowances on {network.name}.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Token</TableHead>
+                    <TableHead>Spender</TableHead>
+                    <TableHead className="text-right">Allowance</TableHead>
+                    <TableHead className="text-right">Last Approved</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {approvals.map(approval => {
+                    const key = approvalKey(approval);
+                    const unlimited = isUnlimitedAllowance(approval.allowance);
+
+                    return (
+                      <TableRow key={key}>
+                        <TableCell>
+                          <a
+                            href={getTokenUrl(approval.token, undefined, network)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center space-x-1 font-medium text-foreground hover:text-primary"
+                          >
+                            <span>{approval.symbol}</span>
+                            <ExternalLinkIcon className="w-3 h-3" size={12} />
+                          </a>
+                          <div className="font-mono text-xs text-muted-foreground">{formatAddress(approval.token)}</div>
+                        </TableCell>
+                        <TableCell>
+                          <a
+                            href={getAddressUrl(approval.spender, network)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center space-x-1 text-foreground hover:text-primary"
+                          >
+                            <span className={knownContracts.has(approval.spender) ? '' : 'font-mono'}>
+                              {spenderLabel(approval.spender)}
+                            </span>
+                            <ExternalLinkIcon className="w-3 h-3" size={12} />
+                          </a>
+                        </TableCell>
+                        <TableCell className={`text-right font-mono ${unlimited ? 'text-yellow-400' : 'text-foreground'}`}>
+                          {formatAllowance(approval)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-muted-foreground">
+                          #{approval.blockNumber}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() => handleRevoke(approval)}
+                            disabled={revoking !== null}
+                          >
+                            {revoking === key ? (
+                              <>
+                                <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                                Revoking...
+                              </>
+                            ) : (
+                              'Revoke'
+                            )}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
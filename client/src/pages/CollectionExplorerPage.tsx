@@ -0,0 +1,263 @@
+/**
+ * Collection Explorer Page Component
+ *
+ * Lists every token minted in a registered collection at
+ * /collection/:slug/explorer, newest first, from the cached Minted event
+ * index: token, current owner, original minter, mint block and time, and
+ * the mint transaction. Owners and block times are read for the visible
+ * page only.
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import { Link, useParams } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { ArrowLeftIcon, ExternalLinkIcon, Loader2Icon } from "@/components/SVGIcons";
+import { useNetwork } from "@/hooks/useNetwork";
+import { useContract } from "@/hooks/useContract";
+import { useMintIndex } from "@/hooks/useMintIndex";
+import WalletConnection from "@/components/WalletConnection";
+import NotFound from "@/pages/not-found";
+import { getCollection } from "@/lib/collections";
+import { multicall } from "@/lib/multicall";
+import {
+  formatAddress,
+  getAddressUrl,
+  getTokenUrl,
+  getTransactionUrl
+} from "@/lib/web3";
+import type { CollectionConfig } from "@/types/contracts";
+
+const PAGE_SIZE = 25;
+
+export default function CollectionExplorerPage() {
+  const { slug } = useParams<{ slug: string }>();
+  const collection = getCollection(slug);
+
+  if (!collection) return <NotFound />;
+
+  // Remount on navigation so state never leaks between collections
+  return <CollectionExplorer key={collection.slug} collection={collection} />;
+}
+
+function CollectionExplorer({ collection }: { collection: CollectionConfig }) {
+  const { network, contracts } = useNetwork();
+  const [page, setPage] = useState(0);
+  const [owners, setOwners] = useState<Record<string, string | null>>({});
+
+  const { branding } = collection;
+  const Icon = branding.icon;
+  const contractAddress = contracts[collection.contract];
+  const { contract } = useContract(contractAddress, collection.abi);
+  const { index, indexing, progress, error, refresh, loadTimestamps } = useMintIndex(contract);
+
+  const mints = index?.mints ?? [];
+  const pageCount = Math.max(1, Math.ceil(mints.length / PAGE_SIZE));
+
+  // Newest first
+  const visible = useMemo(
+    () => [...mints].reverse().slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE),
+    [mints, page]
+  );
+  const visibleTokenIds = visible.map(mint => mint.tokenId).join(',');
+
+  /**
+   * Read current owners of the visible tokens (null for burned tokens)
+   */
+  useEffect(() => {
+    if (!contract || visible.length === 0) return;
+
+    let cancelled = false;
+    multicall(contract.provider, visible.map(mint => ({
+      contract,
+      method: 'ownerOf',
+      args: [mint.tokenId]
+    })))
+      .then(results => {
+        if (cancelled) return;
+        setOwners(prev => {
+          const next = { ...prev };
+          visible.forEach((mint, position) => {
+            const result = results[position];
+            next[mint.tokenId] = result.success ? result.value : null;
+          });
+          return next;
+        });
+      })
+      .catch(err => console.error("Error loading owners:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [contract, visibleTokenIds]);
+
+  // Block times for the visible page, once indexing has settled
+  useEffect(() => {
+    if (!indexing && visible.some(mint => mint.timestamp === null)) {
+      loadTimestamps(visible);
+    }
+  }, [indexing, visibleTokenIds]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-slate-900">
+      {/* Navigation Header */}
+      <header className="bg-card/50 backdrop-blur-xl border-b border-border sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link href={`/collection/${collection.slug}`}>
+                <Button variant="ghost" size="sm" className="p-2">
+                  <ArrowLeftIcon className="w-4 h-4" size={16} />
+                </Button>
+              </Link>
+              <div className="flex items-center space-x-3">
+                <div className={`w-10 h-10 bg-gradient-to-br ${branding.gradient} rounded-xl flex items-center justify-center`}>
+                  <Icon className="text-white text-lg" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold text-foreground">{collection.name} Explorer</h1>
+                  <p className="text-xs text-muted-foreground">Every {collection.name} minted on {network.shortName}</p>
+                </div>
+              </div>
+            </div>
+
+            <WalletConnection />
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-4 flex-wrap">
+            <CardTitle>
+              {mints.length} Minted
+              {index && index.scannedTo >= 0 && (
+                <span className="ml-2 text-sm font-normal text-muted-foreground">
+                  indexed to block #{index.scannedTo}
+                </span>
+              )}
+            </CardTitle>
+            <Button variant="outline" size="sm" onClick={refresh} disabled={indexing || !contract}>
+              {indexing ? 'Indexing...' : 'Refresh'}
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!contractAddress ? (
+              <p className="text-muted-foreground text-center py-8">
+                {collection.name} is not deployed on {network.name}.
+              </p>
+            ) : (
+              <>
+                {indexing && (
+                  <div className="space-y-2">
+                    <p className="text-sm text-muted-foreground">Scanning Minted events...</p>
+                    {progress !== null && <Progress value={progress} className="w-full" />}
+                  </div>
+                )}
+
+                {error && <p className="text-sm text-red-400">{error}</p>}
+
+                {mints.length === 0 ? (
+                  !indexing && (
+                    <p className="text-muted-foreground text-center py-8">No {collection.name}s minted yet.</p>
+                  )
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Token</TableHead>
+                        <TableHead>Owner</TableHead>
+                        <TableHead>Minted To</TableHead>
+                        <TableHead>Minted</TableHead>
+                        <TableHead className="text-right">Transaction</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visible.map(mint => {
+                        const owner = owners[mint.tokenId];
+
+                        return (
+                          <TableRow key={`${mint.transactionHash}:${mint.logIndex}`}>
+                            <TableCell>
+                              <a
+                                href={getTokenUrl(contractAddress, mint.tokenId, network)}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="inline-flex items-center space-x-1 font-medium text-foreground hover:text-primary"
+                              >
+                                <span>{collection.tokenName} #{mint.tokenId}</span>
+                                <ExternalLinkIcon className="w-3 h-3" size={12} />
+                              </a>
+                            </TableCell>
+                            <TableCell className="font-mono text-sm">
+                              {owner === undefined ? (
+                                <Loader2Icon className="w-3 h-3 animate-spin text-muted-foreground" size={12} />
+                              ) : owner === null ? (
+                                <span className="text-muted-foreground">Burned</span>
+                              ) : (
+                                <a href={getAddressUrl(owner, network)} target="_blank" rel="noopener noreferrer" className="hover:text-primary">
+                                  {formatAddress(owner)}
+                                </a>
+                              )}
+                            </TableCell>
+                            <TableCell className="font-mono text-sm">
+                              <a href={getAddressUrl(mint.to, network)} target="_blank" rel="noopener noreferrer" className="hover:text-primary">
+                                {formatAddress(mint.to)}
+                              </a>
+                            </TableCell>
+                            <TableCell className="text-sm">
+                              <div className="font-mono">#{mint.blockNumber}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {mint.timestamp !== null ? new Date(mint.timestamp * 1000).toLocaleString() : '—'}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <a
+                                href={getTransactionUrl(mint.transactionHash, network)}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="inline-flex items-center space-x-1 font-mono text-sm text-primary hover:text-primary/80"
+                              >
+                                <span>{formatAddress(mint.transactionHash, 6)}</span>
+                                <ExternalLinkIcon className="w-3 h-3" size={12} />
+                              </a>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+
+                {/* Pagination */}
+                {pageCount > 1 && (
+                  <div className="flex items-center justify-between">
+                    <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+                      Newer
+                    </Button>
+                    <span className="text-sm text-muted-foreground">
+                      Page {page + 1} of {pageCount}
+                    </span>
+                    <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount - 1}>
+                      Older
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+/**
+ * Collection Holders Page Component
+ *
+ * Holder analytics for a registered collection at /collection/:slug/holders,
+ * built from its cached Transfer history: unique holders, tokens in
+ * circulation and burned, how many tokens each holder has, and the top
+ * holders. Token-burn collections also chart the cumulative mint cost burned
+ * per cost token, one mint fee per mint.
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import { Link, useParams } from "wouter";
+import { ethers } from "ethers";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from "@/components/ui/chart";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { ArrowLeftIcon } from "@/components/SVGIcons";
+import { useNetwork } from "@/hooks/useNetwork";
+import { useContract } from "@/hooks/useContract";
+import { useHolders } from "@/hooks/useHolders";
+import WalletConnection from "@/components/WalletConnection";
+import NotFound from "@/pages/not-found";
+import { getCollection } from "@/lib/collections";
+import { ERC20_ABI } from "@/lib/contracts";
+import { getCumulativeBurns } from "@/lib/holders";
+import { multicallValues } from "@/lib/multicall";
+import { formatAddress, formatTokenAmountWithCommas, getAddressUrl } from "@/lib/web3";
+import type { BurnFee, CollectionConfig } from "@/types/contracts";
+
+const TOP_HOLDERS = 25;
+
+// Line colours of the burn charts, by cost token position
+const BURN_COLORS = ["#a855f7", "#3b82f6", "#f97316", "#22c55e"];
+
+const distributionConfig = {
+  holders: { label: "Holders", color: "hsl(var(--primary))" }
+} satisfies ChartConfig;
+
+export default function CollectionHoldersPage() {
+  const { slug } = useParams<{ slug: string }>();
+  const collection = getCollection(slug);
+
+  if (!collection) return <NotFound />;
+
+  // Remount on navigation so state never leaks between collections
+  return <CollectionHolders key={collection.slug} collection={collection} />;
+}
+
+function CollectionHolders({ collection }: { collection: CollectionConfig }) {
+  const { network, contracts } = useNetwork();
+  const [burnFees, setBurnFees] = useState<BurnFee[]>([]);
+
+  const { branding, mint } = collection;
+  const Icon = branding.icon;
+  const contractAddress = contracts[collection.contract];
+  const { contract } = useContract(contractAddress, collection.abi);
+  const { transfers, stats, indexing, progress, error, refresh } = useHolders(contract);
+
+  const burns = useMemo(() => getCumulativeBurns(transfers, burnFees), [transfers, burnFees]);
+  const latestBurn = burns.length > 0 ? burns[burns.length - 1] : null;
+
+  /**
+   * Read the fixed mint fees in whole token units
+   */
+  useEffect(() => {
+    if (!contract || mint.cost.length === 0) return;
+
+    const tokens = mint.cost.map(token => new ethers.Contract(contracts[token.contract], ERC20_ABI, contract.provider));
+    multicallValues(contract.provider, [
+      ...mint.cost.map(token => ({ contract, method: token.feeMethod })),
+      ...tokens.map(token => ({ contract: token, method: 'decimals' }))
+    ])
+      .then(values => {
+        setBurnFees(mint.cost.map((token, index) => ({
+          symbol: token.symbol,
+          amount: Number(ethers.utils.formatUnits(values[index], values[mint.cost.length + index]))
+        })));
+      })
+      .catch(err => console.error("Error loading mint fees:", err));
+  }, [contract, contracts, mint.cost]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-slate-900">
+      {/* Navigation Header */}
+      <header className="bg-card/50 backdrop-blur-xl border-b border-border sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link href={`/collection/${collection.slug}`}>
+                <Button variant="ghost" size="sm" className="p-2">
+                  <ArrowLeftIcon className="w-4 h-4" size={16} />
+                </Button>
+              </Link>
+              <div className="flex items-center space-x-3">
+                <div className={`w-10 h-10 bg-gradient-to-br ${branding.gradient} rounded-xl flex items-center justify-center`}>
+                  <Icon className="text-white text-lg" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold text-foreground">{collection.name} Holders</h1>
+                  <p className="text-xs text-muted-foreground">Who holds {collection.name} on {network.shortName}</p>
+                </div>
+              </div>
+            </div>
+
+            <WalletConnection />
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {!contractAddress ? (
+          <Card>
+            <CardContent className="p-6">
+              <p className="text-muted-foreground text-center py-8">
+                {collection.name} is not deployed on {network.name}.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {(indexing || error) && (
+              <Card>
+                <CardContent className="p-6 space-y-2">
+                  {indexing && (
+                    <>
+                      <p className="text-sm text-muted-foreground">Scanning Transfer events...</p>
+                      {progress !== null && <Progress value={progress} className="w-full" />}
+                    </>
+                  )}
+                  {error && <p className="text-sm text-red-400">{error}</p>}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Summary */}
+            <div className="grid md:grid-cols-3 gap-6">
+              <Card>
+                <CardContent className="p-6">
+                  <p className="text-sm text-muted-foreground">Unique Holders</p>
+                  <p className="text-2xl font-bold text-foreground">{stats.uniqueHolders}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-6">
+                  <p className="text-sm text-muted-foreground">In Circulation</p>
+                  <p className="text-2xl font-bold text-foreground">{stats.supply}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-6">
+                  <p className="text-sm text-muted-foreground">Burned</p>
+                  <p className="text-2xl font-bold text-foreground">{stats.burned}</p>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Tokens per holder */}
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-4 flex-wrap">
+                <CardTitle>Tokens per Holder</CardTitle>
+                <Button variant="outline" size="sm" onClick={refresh} disabled={indexing || !contract}>
+                  {indexing ? 'Indexing...' : 'Refresh'}
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={distributionConfig} className="h-64 w-full aspect-auto">
+                  <BarChart data={stats.distribution}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={label => `${label} ${collection.tokenName}`} />} />
+                    <Bar dataKey="holders" fill="var(--color-holders)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            {/* Mint cost burned over time */}
+            {burnFees.length > 0 && (
+              <div className="grid md:grid-cols-2 gap-6">
+                {burnFees.map((fee, index) => {
+                  const config = {
+                    [fee.symbol]: { label: `${fee.symbol} burned`, color: BURN_COLORS[index % BURN_COLORS.length] }
+                  } satisfies ChartConfig;
+
+                  return (
+                    <Card key={fee.symbol}>
+                      <CardHeader>
+                        <CardTitle>
+                          {formatTokenAmountWithCommas(String(latestBurn?.burned[fee.symbol] ?? 0), 0)} {fee.symbol} Burned
+                        </CardTitle>
+                        <p className="text-sm text-muted-foreground">
+                          {formatTokenAmountWithCommas(String(fee.amount), 0)} {fee.symbol} per mint, by block
+                        </p>
+                      </CardHeader>
+                      <CardContent>
+                        <ChartContainer config={config} className="h-56 w-full aspect-auto">
+                          <LineChart data={burns.map(point => ({ blockNumber: point.blockNumber, [fee.symbol]: point.burned[fee.symbol] }))}>
+                            <CartesianGrid vertical={false} />
+                            <XAxis dataKey="blockNumber" type="number" domain={['dataMin', 'dataMax']} tickLine={false} axisLine={false} />
+                            <YAxis tickLine={false} axisLine={false} width={64} />
+                            <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `Block #${payload?.[0]?.payload.blockNumber}`} />} />
+                            <Line type="stepAfter" dataKey={fee.symbol} stroke={`var(--color-${fee.symbol})`} strokeWidth={2} dot={false} />
+                          </LineChart>
+                        </ChartContainer>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Top holders */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Top Holders</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {stats.holders.length === 0 ? (
+                  !indexing && (
+                    <p className="text-muted-foreground text-center py-8">No {collection.name} holders yet.</p>
+                  )
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">#</TableHead>
+                        <TableHead>Holder</TableHead>
+                        <TableHead className="text-right">Tokens</TableHead>
+                        <TableHead className="text-right">Share</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {stats.holders.slice(0, TOP_HOLDERS).map((holder, rank) => (
+                        <TableRow key={holder.address}>
+                          <TableCell className="text-muted-foreground">{rank + 1}</TableCell>
+                          <TableCell className="font-mono text-sm">
+                            <a href={getAddressUrl(holder.address, network)} target="_blank" rel="noopener noreferrer" className="hover:text-primary">
+                              {formatAddress(holder.address)}
+                            </a>
+                          </TableCell>
+                          <TableCell className="text-right font-mono">{holder.tokens}</TableCell>
+                          <TableCell className="text-right font-mono text-muted-foreground">
+                            {((holder.tokens / stats.supply) * 100).toFixed(1)}%
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
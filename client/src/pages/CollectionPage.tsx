@@ -0,0 +1,433 @@
+/**
+ * Collection Page Component
+ *
+ * Renders any collection registered in lib/collections.ts at
+ * /collection/:slug. Features include:
+ * - Collection description, stats and contract information
+ * - Free or token-burn minting, depending on the collection's mint cost
+ * - Display of any address's NFTs, readable without a wallet, served from the
+ *   content cache first so revisits render instantly and work offline
+ * - Transfer and burn actions on the connected wallet's own NFTs
+ * - Rarity ranks, trait filters and a next-mint trait preview for
+ *   collections with ID-derived traits
+ * - Links to the collection explorer listing every mint and to holder analytics
+ * - Direct links to the network's block explorer
+ */
+
+import { useState, useEffect, useMemo, useRef } from "react";
+import { Link, useParams } from "wouter";
+import { ethers } from "ethers";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ExternalLink } from "lucide-react";
+import { ArrowLeftIcon } from "@/components/SVGIcons";
+import { useWallet } from "@/hooks/useWallet";
+import { useNetwork } from "@/hooks/useNetwork";
+import { useContract } from "@/hooks/useContract";
+import { useToast } from "@/hooks/use-toast";
+import { useTokenRequirements } from "@/hooks/useTokenRequirements";
+import { useRarity } from "@/hooks/useRarity";
+import WalletConnection from "@/components/WalletConnection";
+import NFTCard from "@/components/NFTCard";
+import AddressLookup from "@/components/AddressLookup";
+import FreeMintPanel from "@/components/FreeMintPanel";
+import TokenBurnMintPanel from "@/components/TokenBurnMintPanel";
+import TraitFilters from "@/components/TraitFilters";
+import NextTokenPreview from "@/components/NextTokenPreview";
+import NotFound from "@/pages/not-found";
+import { getCollection } from "@/lib/collections";
+import { multicallValues } from "@/lib/multicall";
+import { formatRequirementAmount } from "@/lib/requirements";
+import {
+  cacheTokenMetadata,
+  getContentScope,
+  loadCachedTokens,
+  readCachedTokens,
+  syncContentScope,
+  type ContentScope
+} from "@/lib/contentCache";
+import { matchesTraitFilters, type TraitFilters as TraitFilterSelection } from "@/lib/rarity";
+import { formatAddress, formatTokenAmountWithCommas, getAddressUrl } from "@/lib/web3";
+import type { CollectionConfig, NFTMetadata, NFTToken, TokenRequirement } from "@/types/contracts";
+
+export default function CollectionPage() {
+  const { slug } = useParams<{ slug: string }>();
+  const collection = getCollection(slug);
+
+  if (!collection) return <NotFound />;
+
+  // Remount on navigation so state never leaks between collections
+  return <CollectionView key={collection.slug} collection={collection} />;
+}
+
+function CollectionView({ collection }: { collection: CollectionConfig }) {
+  const { isConnected, address } = useWallet();
+  const { network, contracts } = useNetwork();
+  const { toast } = useToast();
+  const [userNFTs, setUserNFTs] = useState<NFTToken[]>([]);
+  const [totalSupply, setTotalSupply] = useState<string | null>(null);
+  const [mintingEnabled, setMintingEnabled] = useState<boolean | null>(null);
+  const [mintFees, setMintFees] = useState<ethers.BigNumber[]>([]);
+  const [viewAddress, setViewAddress] = useState<string | null>(null);
+  const [traitFilters, setTraitFilters] = useState<TraitFilterSelection>({});
+  const [contentScope, setContentScope] = useState<ContentScope | null>(null);
+  // Only the latest NFT load may update the list
+  const nftRequestRef = useRef(0);
+
+  const { mint, branding } = collection;
+  const Icon = branding.icon;
+  const contractAddress = contracts[collection.contract];
+
+  // NFTs shown for a looked-up address, or the connected wallet otherwise
+  const ownerAddress = viewAddress ?? address;
+  const viewingOwnWallet = isConnected && !!address && ownerAddress?.toLowerCase() === address.toLowerCase();
+
+  const {
+    contract,
+    writeContract,
+    loading: contractLoading
+  } = useContract(contractAddress, collection.abi);
+
+  // Each cost token must be held and approved for the collection to burn
+  const requirements = useMemo<TokenRequirement[]>(
+    () => mintFees.map((amount, index) => ({
+      token: contracts[mint.cost[index].contract],
+      amount,
+      spender: contractAddress,
+      symbol: mint.cost[index].symbol
+    })),
+    [mintFees, contracts, mint.cost, contractAddress]
+  );
+  const tokenRequirements = useTokenRequirements(requirements);
+  const rarity = useRarity(collection, contract);
+
+  const visibleNFTs = useMemo(
+    () => userNFTs.filter(nft => matchesTraitFilters(rarity.getAttributes(nft.tokenId), traitFilters, collection.traitDecimals)),
+    [userNFTs, traitFilters, rarity.getAttributes, collection.traitDecimals]
+  );
+
+  /**
+   * Load supply, minting status and mint fees in one batch (no wallet required)
+   */
+  const loadCollectionStats = async () => {
+    if (!contract) return;
+
+    try {
+      const [supply, ...rest] = await multicallValues(contract.provider, [
+        { contract, method: 'totalSupply' },
+        ...(mint.enabledMethod ? [{ contract, method: mint.enabledMethod }] : []),
+        ...mint.cost.map(token => ({ contract, method: token.feeMethod }))
+      ]);
+      const enabled = mint.enabledMethod ? rest.shift() : null;
+
+      setTotalSupply(supply.toString());
+      setMintingEnabled(enabled);
+      setMintFees(rest);
+    } catch (error) {
+      console.error("Error loading collection stats:", error);
+    }
+  };
+
+  /**
+   * Load NFTs held by the connected or looked-up address, cached copies first,
+   * reloading them if the content version changed meanwhile. Results of a load
+   * superseded by a newer one (another address, a confirmed transaction) are dropped.
+   */
+  const loadUserNFTs = async () => {
+    if (!contract) return;
+    const request = ++nftRequestRef.current;
+    const isStale = () => request !== nftRequestRef.current;
+
+    if (!ownerAddress) {
+      setUserNFTs([]);
+      return;
+    }
+
+    try {
+      const cachedScope = await getContentScope(contract, network.chainId);
+      const cached = await readCachedTokens(cachedScope, ownerAddress, collection.tokenName);
+      if (isStale()) return;
+      if (cached) {
+        setContentScope(cachedScope);
+        setUserNFTs(cached);
+      }
+
+      // Load under the known version while image updates are scanned, so a
+      // first visit does not wait for a scan of the whole chain
+      const syncing = syncContentScope(contract, network.chainId);
+      const nfts = await loadCachedTokens(contract, cachedScope, ownerAddress, collection.tokenName);
+      if (isStale()) return;
+      setContentScope(cachedScope);
+      setUserNFTs(nfts);
+
+      // An image update moves the content to new cache keys
+      const scope = await syncing;
+      if (scope.version !== cachedScope.version) {
+        const updated = await loadCachedTokens(contract, scope, ownerAddress, collection.tokenName);
+        if (isStale()) return;
+        setContentScope(scope);
+        setUserNFTs(updated);
+      }
+    } catch (error) {
+      if (isStale()) return;
+      console.error("Error loading NFTs:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load your NFTs",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Cache metadata a card resolved itself (off-chain tokenURIs)
+   */
+  const handleMetadata = (nft: NFTToken, metadata: NFTMetadata) => {
+    if (contentScope) {
+      cacheTokenMetadata(contentScope, nft.tokenId, nft.tokenURI, metadata);
+    }
+  };
+
+  /**
+   * Refresh stats and NFTs after a confirmed mint, transfer or burn
+   */
+  const handleConfirmed = async () => {
+    await loadCollectionStats();
+    await loadUserNFTs();
+  };
+
+  // Load collection stats as soon as the contract is ready
+  useEffect(() => {
+    if (contract && !contractLoading) {
+      loadCollectionStats();
+    }
+  }, [contract, contractLoading]);
+
+  // Load NFTs for the connected or looked-up address
+  useEffect(() => {
+    if (contract && !contractLoading) {
+      loadUserNFTs();
+    }
+  }, [contract, contractLoading, ownerAddress]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-slate-900">
+      {/* Navigation Header */}
+      <header className="bg-card/50 backdrop-blur-xl border-b border-border sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link href="/">
+                <Button variant="ghost" size="sm" className="p-2">
+                  <ArrowLeftIcon className="w-4 h-4" size={16} />
+                </Button>
+              </Link>
+              <div className="flex items-center space-x-3">
+                <div className={`w-10 h-10 bg-gradient-to-br ${branding.gradient} rounded-xl flex items-center justify-center`}>
+                  <Icon className="text-white text-lg" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold text-foreground">{collection.name}</h1>
+                  <p className="text-xs text-muted-foreground">{collection.tagline}</p>
+                </div>
+              </div>
+            </div>
+            
+            <WalletConnection />
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        
+        {/* About the collection */}
+        <Card>
+          <CardContent className="p-6">
+            <h2 className="text-xl font-semibold text-foreground mb-4">About {collection.name}</h2>
+            <div className="prose prose-invert max-w-none">
+              <p className="text-muted-foreground mb-4">{collection.description}</p>
+              <div className="grid md:grid-cols-2 gap-4">
+                {collection.details.map((list) => (
+                  <div key={list.title}>
+                    <h3 className="text-foreground font-medium mb-2">{list.title}:</h3>
+                    <ul className="text-muted-foreground space-y-1 text-sm">
+                      {list.items.map((item) => (
+                        <li key={item}>• {item}</li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Collection Stats */}
+        <div className="grid md:grid-cols-2 gap-6">
+          <Card>
+            <CardContent className="p-6">
+              <p className="text-sm text-muted-foreground">Total Minted</p>
+              <p className="text-2xl font-bold text-foreground">
+                {totalSupply ?? '—'}
+              </p>
+              <div className="flex flex-wrap gap-x-4">
+                <Link href={`/collection/${collection.slug}/explorer`} className={`text-sm ${branding.accentClass} hover:underline`}>
+                  Explore all mints →
+                </Link>
+                <Link href={`/collection/${collection.slug}/holders`} className={`text-sm ${branding.accentClass} hover:underline`}>
+                  View holders →
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+          {mint.enabledMethod && (
+            <Card>
+              <CardContent className="p-6">
+                <p className="text-sm text-muted-foreground">Minting Status</p>
+                <div className="mt-1">
+                  {mintingEnabled === null ? (
+                    <span className="text-2xl font-bold text-foreground">—</span>
+                  ) : (
+                    <Badge variant={mintingEnabled ? "default" : "destructive"}>
+                      {mintingEnabled ? 'Open' : 'Disabled'}
+                    </Badge>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+          {mint.cost.length > 0 && (
+            <Card>
+              <CardContent className="p-6">
+                <p className="text-sm text-muted-foreground">Mint Fee (burned)</p>
+                <p className="text-2xl font-bold text-foreground">
+                  {tokenRequirements.statuses.length > 0
+                    ? tokenRequirements.statuses
+                        .map(status => `${formatTokenAmountWithCommas(formatRequirementAmount(status), 0)} ${status.symbol}`)
+                        .join(' + ')
+                    : '—'}
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        {/* Mint Section */}
+        {mint.cost.length > 0 ? (
+          <TokenBurnMintPanel
+            collection={collection}
+            contract={contract}
+            writeContract={writeContract}
+            requirements={tokenRequirements}
+            onMinted={handleConfirmed}
+          />
+        ) : (
+          <FreeMintPanel
+            collection={collection}
+            contract={contract}
+            writeContract={writeContract}
+            contractLoading={contractLoading}
+            mintingEnabled={mintingEnabled}
+            onMinted={handleConfirmed}
+          />
+        )}
+
+        {rarity.nextTokenId && (
+          <NextTokenPreview
+            tokenName={collection.tokenName}
+            tokenId={rarity.nextTokenId}
+            attributes={rarity.nextAttributes}
+            frequencies={rarity.frequencies}
+            supply={rarity.supply}
+            traitDecimals={collection.traitDecimals}
+          />
+        )}
+
+        {/* Owned NFTs */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-4 flex-wrap">
+            <CardTitle>
+              {viewAddress ? `${collection.name}s of ${formatAddress(viewAddress)}` : `Your ${collection.name}s`}
+            </CardTitle>
+            <AddressLookup value={viewAddress} onLookup={setViewAddress} />
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {userNFTs.length > 0 && (
+              <TraitFilters frequencies={rarity.frequencies} filters={traitFilters} onChange={setTraitFilters} />
+            )}
+            {visibleNFTs.length > 0 ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {visibleNFTs.map((nft) => (
+                  <NFTCard
+                    key={nft.tokenId}
+                    tokenId={nft.tokenId}
+                    name={nft.name}
+                    imageURI={nft.imageURI}
+                    tokenURI={nft.tokenURI}
+                    contractAddress={nft.contractAddress}
+                    rarity={rarity.rarity.get(nft.tokenId)}
+                    raritySupply={rarity.supply}
+                    traitDecimals={collection.traitDecimals}
+                    cachedMetadata={nft.metadata}
+                    onMetadata={(metadata) => handleMetadata(nft, metadata)}
+                    writeContract={viewingOwnWallet ? writeContract : null}
+                    owner={address ?? undefined}
+                    onTransactionConfirmed={handleConfirmed}
+                  />
+                ))}
+              </div>
+            ) : userNFTs.length > 0 ? (
+              <p className="text-center py-12 text-muted-foreground">
+                No {collection.name}s match the selected traits
+              </p>
+            ) : (
+              <div className="text-center py-12 text-muted-foreground">
+                <Icon className="w-16 h-16 mx-auto mb-4 text-muted/50" />
+                <p className="text-lg">No {collection.name}s found</p>
+                <p className="text-sm">
+                  {viewAddress
+                    ? `This address does not hold any ${collection.name}s`
+                    : isConnected 
+                      ? collection.emptyHint 
+                      : 'Connect your wallet or look up an address to view NFTs'
+                  }
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Contract Information */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <span>Contract Information</span>
+              <a 
+                href={getAddressUrl(contractAddress, network)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary hover:text-primary/80"
+              >
+                <ExternalLink className="w-4 h-4" />
+              </a>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid md:grid-cols-2 gap-4 text-sm">
+              <div>
+                <span className="text-muted-foreground">Contract Address:</span>
+                <p className="font-mono text-primary break-all">{contractAddress}</p>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Network:</span>
+                <p className="text-foreground">{network.shortName} ({network.chainId})</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
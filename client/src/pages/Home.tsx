@@ -12,10 +12,14 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import WalletConnection from "@/components/WalletConnection";
 import { useWallet } from "@/hooks/useWallet";
-import { Gem, Flame, Wallet, Palette, Star, Shield, Database, Coins } from "lucide-react";
+import { useNetwork } from "@/hooks/useNetwork";
+import { COLLECTIONS } from "@/lib/collections";
+import { formatAddress } from "@/lib/web3";
+import { Wallet, Palette, Star, Shield, Database, Coins } from "lucide-react";
 
 export default function Home() {
   const { isConnected, chainId } = useWallet();
+  const { network, contracts } = useNetwork();
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background to-slate-900">
@@ -39,10 +43,10 @@ export default function Home() {
             {/* Wallet Connection */}
             <div className="flex items-center space-x-4">
               {/* Network Status */}
-              {isConnected && chainId === 43111 && (
+              {isConnected && chainId === network.chainId && (
                 <div className="hidden sm:flex items-center space-x-2 px-3 py-1.5 bg-green-500/10 text-green-400 rounded-lg border border-green-500/20">
                   <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse-slow"></div>
-                  <span className="text-sm font-mono">Hemi Network</span>
+                  <span className="text-sm font-mono">{network.name}</span>
                 </div>
               )}
               
@@ -67,87 +71,62 @@ export default function Home() {
           {/* Network Indicator */}
           <div className="mt-8 inline-flex items-center space-x-3 px-6 py-3 bg-card/80 backdrop-blur-sm rounded-2xl border border-border">
             <div className="w-3 h-3 bg-green-400 rounded-full animate-pulse"></div>
-            <span className="text-muted-foreground">Connected to Hemi Network</span>
-            <Badge variant="secondary" className="font-mono text-sm">43111</Badge>
+            <span className="text-muted-foreground">Connected to {network.name}</span>
+            <Badge variant="secondary" className="font-mono text-sm">{network.chainId}</Badge>
           </div>
         </div>
 
         {/* Project Cards */}
         <div className="grid md:grid-cols-2 gap-8 mb-12">
           
-          {/* WENTGE Card */}
-          <Link href="/wentge">
-            <Card className="gradient-card group cursor-pointer hover:shadow-2xl transition-all duration-300">
-              <CardContent className="p-8">
-                <div className="flex items-start justify-between mb-6">
-                  <div className="w-14 h-14 bg-gradient-to-br from-primary to-blue-600 rounded-2xl flex items-center justify-center group-hover:scale-110 transition-transform duration-300">
-                    <Gem className="text-white text-xl" />
-                  </div>
-                  <div className="text-right">
-                    <div className="text-sm text-muted-foreground">Free Mint</div>
-                    <div className="text-lg font-bold text-green-400">1 per wallet</div>
-                  </div>
-                </div>
-                
-                <h3 className="text-2xl font-bold text-foreground mb-3 group-hover:text-primary transition-colors">
-                  WENTGE NFT
-                </h3>
-                <p className="text-muted-foreground mb-6 leading-relaxed">
-                  Commemorative NFT celebrating the Hemi blockchain ecosystem. Each wallet can mint one free WENTGE NFT with unique metadata stored entirely on-chain.
-                </p>
-                
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-4">
-                    <div className="text-sm">
-                      <div className="text-muted-foreground">Contract</div>
-                      <div className="font-mono text-xs text-primary">0x005E...F791</div>
-                    </div>
-                  </div>
-                  <div className="flex items-center space-x-2 text-primary group-hover:text-white transition-colors">
-                    <span className="font-medium">Explore</span>
-                    <div className="group-hover:translate-x-1 transition-transform">→</div>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          </Link>
+          {COLLECTIONS.map((collection) => {
+            const Icon = collection.branding.icon;
+            const { cost, walletLimit } = collection.mint;
 
-          {/* Foom Card */}
-          <Link href="/foom">
-            <Card className="gradient-card group cursor-pointer hover:shadow-2xl transition-all duration-300">
-              <CardContent className="p-8">
-                <div className="flex items-start justify-between mb-6">
-                  <div className="w-14 h-14 bg-gradient-to-br from-secondary to-purple-600 rounded-2xl flex items-center justify-center group-hover:scale-110 transition-transform duration-300">
-                    <Flame className="text-white text-xl" />
-                  </div>
-                  <div className="text-right">
-                    <div className="text-sm text-muted-foreground">Token Burn</div>
-                    <div className="text-lg font-bold text-yellow-400">HAIR + MAX</div>
-                  </div>
-                </div>
-                
-                <h3 className="text-2xl font-bold text-foreground mb-3 group-hover:text-secondary transition-colors">
-                  Foom NFT
-                </h3>
-                <p className="text-muted-foreground mb-6 leading-relaxed">
-                  Premium NFT requiring HAIR and MAX token burns. Features dynamic attributes including cosmic energy, mood states, and mineral compositions generated deterministically.
-                </p>
-                
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-4">
-                    <div className="text-sm">
-                      <div className="text-muted-foreground">Cost</div>
-                      <div className="font-mono text-xs text-secondary">3K HAIR + 100 MAX</div>
+            return (
+              <Link key={collection.slug} href={`/collection/${collection.slug}`}>
+                <Card className="gradient-card group cursor-pointer hover:shadow-2xl transition-all duration-300">
+                  <CardContent className="p-8">
+                    <div className="flex items-start justify-between mb-6">
+                      <div className={`w-14 h-14 bg-gradient-to-br ${collection.branding.cardGradient} rounded-2xl flex items-center justify-center group-hover:scale-110 transition-transform duration-300`}>
+                        <Icon className="text-white text-xl" />
+                      </div>
+                      <div className="text-right">
+                        <div className="text-sm text-muted-foreground">{cost.length > 0 ? 'Token Burn' : 'Free Mint'}</div>
+                        {cost.length > 0 ? (
+                          <div className="text-lg font-bold text-yellow-400">{cost.map(token => token.symbol).join(' + ')}</div>
+                        ) : (
+                          <div className="text-lg font-bold text-green-400">{walletLimit ? `${walletLimit} per wallet` : 'Open'}</div>
+                        )}
+                      </div>
                     </div>
-                  </div>
-                  <div className="flex items-center space-x-2 text-secondary group-hover:text-white transition-colors">
-                    <span className="font-medium">Explore</span>
-                    <div className="group-hover:translate-x-1 transition-transform">→</div>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          </Link>
+                    
+                    <h3 className={`text-2xl font-bold text-foreground mb-3 ${collection.branding.hoverAccentClass} transition-colors`}>
+                      {collection.name}
+                    </h3>
+                    <p className="text-muted-foreground mb-6 leading-relaxed">
+                      {collection.summary}
+                    </p>
+                    
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-4">
+                        <div className="text-sm">
+                          <div className="text-muted-foreground">Contract</div>
+                          <div className={`font-mono text-xs ${collection.branding.accentClass}`}>
+                            {contracts[collection.contract] ? formatAddress(contracts[collection.contract]) : 'Not deployed'}
+                          </div>
+                        </div>
+                      </div>
+                      <div className={`flex items-center space-x-2 ${collection.branding.accentClass} group-hover:text-white transition-colors`}>
+                        <span className="font-medium">Explore</span>
+                        <div className="group-hover:translate-x-1 transition-transform">→</div>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              </Link>
+            );
+          })}
         </div>
 
         {/* Getting Started Section */}
@@ -0,0 +1,342 @@
+/**
+ * NFT Detail Page Component
+ *
+ * Everything known about one token at /nft/:contract/:tokenId, for registered
+ * collections and any other ERC-721 contract on the selected network:
+ * - The full-size image, on the metadata's background colour
+ * - Name, description, attributes, animation and external links
+ * - Current owner and EIP-2981 royalty quote
+ * - A metadata inspector with the decoded JSON and the raw tokenURI
+ * - Ownership history from the token's Transfer logs
+ */
+
+import { useState } from "react";
+import { Link, useParams } from "wouter";
+import { ethers } from "ethers";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { ArrowLeftIcon, ExternalLinkIcon, GemIcon, Loader2Icon } from "@/components/SVGIcons";
+import { useNetwork } from "@/hooks/useNetwork";
+import { useContract } from "@/hooks/useContract";
+import { useTokenDetails } from "@/hooks/useTokenDetails";
+import WalletConnection from "@/components/WalletConnection";
+import TraitList from "@/components/TraitList";
+import NotFound from "@/pages/not-found";
+import { getCollectionByAddress } from "@/lib/collections";
+import { ERC721_ABI } from "@/lib/contracts";
+import { resolveLinkUri } from "@/lib/metadata";
+import { formatAddress, getAddressUrl, getTokenUrl, getTransactionUrl } from "@/lib/web3";
+import type { IndexedTransfer } from "@/types/contracts";
+
+export default function NFTDetailPage() {
+  const { contract, tokenId } = useParams<{ contract: string; tokenId: string }>();
+
+  if (!ethers.utils.isAddress(contract) || !/^\d+$/.test(tokenId)) return <NotFound />;
+
+  // Remount on navigation so state never leaks between tokens
+  const address = ethers.utils.getAddress(contract);
+  return <NFTDetail key={`${address}:${tokenId}`} contractAddress={address} tokenId={tokenId} />;
+}
+
+/**
+ * Describe a Transfer as a mint, burn or plain transfer
+ */
+function transferKind(transfer: IndexedTransfer): string {
+  if (transfer.from === ethers.constants.AddressZero) return 'Mint';
+  if (transfer.to === ethers.constants.AddressZero) return 'Burn';
+  return 'Transfer';
+}
+
+/**
+ * Labelled metadata URL, linked only when it resolves to http(s)
+ */
+function MetadataLink({ label, uri, tokenId }: { label: string; uri: string; tokenId: string }) {
+  const href = resolveLinkUri(uri, { tokenId });
+
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <span className="text-muted-foreground">{label}</span>
+      {href ? (
+        <a href={href} target="_blank" rel="noopener noreferrer" className="truncate text-primary hover:text-primary/80">
+          {uri}
+        </a>
+      ) : (
+        <span className="truncate font-mono">{uri}</span>
+      )}
+    </div>
+  );
+}
+
+function NFTDetail({ contractAddress, tokenId }: { contractAddress: string; tokenId: string }) {
+  const { network, contracts } = useNetwork();
+  const [imageError, setImageError] = useState(false);
+
+  const collection = getCollectionByAddress(contractAddress, contracts);
+  const { contract } = useContract(contractAddress, collection?.abi ?? ERC721_ABI);
+  const {
+    details,
+    metadataJson,
+    metadata,
+    metadataError,
+    history,
+    historyError,
+    loading,
+    error
+  } = useTokenDetails(contract, tokenId);
+
+  const Icon = collection?.branding.icon ?? GemIcon;
+  const gradient = collection?.branding.gradient ?? 'from-primary to-secondary';
+  const name = metadata?.name || `${collection?.tokenName ?? formatAddress(contractAddress)} #${tokenId}`;
+  const image = details?.imageURI || metadata?.image;
+  const background = metadata?.background_color?.replace(/^#/, '');
+  const attributes = metadata?.attributes ?? [];
+  const royalty = details?.royalty;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-slate-900">
+      {/* Navigation Header */}
+      <header className="bg-card/50 backdrop-blur-xl border-b border-border sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <Link href={collection ? `/collection/${collection.slug}` : '/'}>
+                <Button variant="ghost" size="sm" className="p-2">
+                  <ArrowLeftIcon className="w-4 h-4" size={16} />
+                </Button>
+              </Link>
+              <div className="flex items-center space-x-3">
+                <div className={`w-10 h-10 bg-gradient-to-br ${gradient} rounded-xl flex items-center justify-center`}>
+                  <Icon className="text-white text-lg" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold text-foreground">{name}</h1>
+                  <p className="text-xs text-muted-foreground">
+                    {collection?.name ?? formatAddress(contractAddress)} on {network.shortName}
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            <WalletConnection />
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {error && (
+          <Card>
+            <CardContent className="p-6">
+              <p className="text-sm text-red-400">{error}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {/* Full image */}
+          <Card className="overflow-hidden">
+            <CardContent className="p-0">
+              <div
+                className="aspect-square bg-gradient-to-br from-primary/10 to-secondary/10 flex items-center justify-center"
+                style={background ? { backgroundColor: `#${background}` } : undefined}
+              >
+                {image && !imageError ? (
+                  <img src={image} alt={name} className="w-full h-full object-contain" onError={() => setImageError(true)} />
+                ) : loading ? (
+                  <Loader2Icon className="w-8 h-8 animate-spin text-muted-foreground" size={32} />
+                ) : (
+                  <p className="text-sm text-muted-foreground">Image not available</p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Token details */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{name}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+              {metadata?.description && <p className="text-muted-foreground">{metadata.description}</p>}
+              {metadataError && <p className="text-red-400 break-words">Metadata unavailable: {metadataError}</p>}
+
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Token ID</span>
+                <Badge variant="secondary" className="font-mono">#{tokenId}</Badge>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Owner</span>
+                {!details ? (
+                  <Loader2Icon className="w-3 h-3 animate-spin text-muted-foreground" size={12} />
+                ) : details.owner ? (
+                  <a href={getAddressUrl(details.owner, network)} target="_blank" rel="noopener noreferrer" className="font-mono hover:text-primary">
+                    {formatAddress(details.owner)}
+                  </a>
+                ) : (
+                  <span className="text-muted-foreground">{history?.length ? 'Burned' : 'Not minted'}</span>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Royalty</span>
+                {!details ? (
+                  <Loader2Icon className="w-3 h-3 animate-spin text-muted-foreground" size={12} />
+                ) : !royalty ? (
+                  <span className="text-muted-foreground">Not supported</span>
+                ) : royalty.amount.isZero() ? (
+                  <span className="text-foreground">Royalty-free</span>
+                ) : (
+                  <span className="text-foreground">
+                    {(royalty.basisPoints / 100).toFixed(2)}% to{' '}
+                    <a href={getAddressUrl(royalty.receiver, network)} target="_blank" rel="noopener noreferrer" className="font-mono hover:text-primary">
+                      {formatAddress(royalty.receiver)}
+                    </a>
+                  </span>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Contract</span>
+                <a href={getTokenUrl(contractAddress, tokenId, network)} target="_blank" rel="noopener noreferrer" className="inline-flex items-center space-x-1 font-mono hover:text-primary">
+                  <span>{formatAddress(contractAddress)}</span>
+                  <ExternalLinkIcon className="w-3 h-3" size={12} />
+                </a>
+              </div>
+
+              {metadata?.background_color && (
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Background</span>
+                  <span className="inline-flex items-center space-x-2 font-mono">
+                    <span className="w-4 h-4 rounded border border-border" style={{ backgroundColor: `#${background}` }} />
+                    <span>#{background}</span>
+                  </span>
+                </div>
+              )}
+
+              {metadata?.animation_url && (
+                <MetadataLink label="Animation" uri={metadata.animation_url} tokenId={tokenId} />
+              )}
+
+              {metadata?.external_url && (
+                <MetadataLink label="External URL" uri={metadata.external_url} tokenId={tokenId} />
+              )}
+
+              {attributes.length > 0 && (
+                <TraitList attributes={attributes} decimals={collection?.traitDecimals} className="p-4 bg-muted/30 rounded-lg" />
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Metadata inspector */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Metadata</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="decoded">
+              <TabsList>
+                <TabsTrigger value="decoded">Decoded JSON</TabsTrigger>
+                <TabsTrigger value="raw">Raw tokenURI</TabsTrigger>
+              </TabsList>
+              <TabsContent value="decoded">
+                {metadataJson !== null ? (
+                  <pre className="max-h-96 overflow-auto rounded-lg bg-muted/30 p-4 text-xs font-mono whitespace-pre-wrap break-all">
+                    {JSON.stringify(metadataJson, null, 2)}
+                  </pre>
+                ) : (
+                  <p className="text-sm text-muted-foreground py-4">{metadataError ?? 'Loading metadata...'}</p>
+                )}
+              </TabsContent>
+              <TabsContent value="raw">
+                {details?.tokenURI ? (
+                  <pre className="max-h-96 overflow-auto rounded-lg bg-muted/30 p-4 text-xs font-mono whitespace-pre-wrap break-all">
+                    {details.tokenURI}
+                  </pre>
+                ) : (
+                  <p className="text-sm text-muted-foreground py-4">
+                    {details ? 'The contract returned no tokenURI' : 'Loading tokenURI...'}
+                  </p>
+                )}
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+
+        {/* Ownership history */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Ownership History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {historyError ? (
+              <p className="text-sm text-red-400">{historyError}</p>
+            ) : !history ? (
+              <p className="text-sm text-muted-foreground">Scanning Transfer events...</p>
+            ) : history.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No transfers found.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Event</TableHead>
+                    <TableHead>From</TableHead>
+                    <TableHead>To</TableHead>
+                    <TableHead>Block</TableHead>
+                    <TableHead className="text-right">Transaction</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...history].reverse().map(transfer => (
+                    <TableRow key={`${transfer.transactionHash}:${transfer.logIndex}`}>
+                      <TableCell>
+                        <Badge variant="outline">{transferKind(transfer)}</Badge>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">
+                        {transfer.from === ethers.constants.AddressZero ? '—' : (
+                          <a href={getAddressUrl(transfer.from, network)} target="_blank" rel="noopener noreferrer" className="hover:text-primary">
+                            {formatAddress(transfer.from)}
+                          </a>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">
+                        {transfer.to === ethers.constants.AddressZero ? '—' : (
+                          <a href={getAddressUrl(transfer.to, network)} target="_blank" rel="noopener noreferrer" className="hover:text-primary">
+                            {formatAddress(transfer.to)}
+                          </a>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">#{transfer.blockNumber}</TableCell>
+                      <TableCell className="text-right">
+                        <a
+                          href={getTransactionUrl(transfer.transactionHash, network)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center space-x-1 font-mono text-sm text-primary hover:text-primary/80"
+                        >
+                          <span>{formatAddress(transfer.transactionHash, 6)}</span>
+                          <ExternalLinkIcon className="w-3 h-3" size={12} />
+                        </a>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
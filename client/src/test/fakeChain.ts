@@ -0,0 +1,102 @@
+/**
+ * Fake Chain for Unit Tests
+ *
+ * In-memory stand-in for a JSON-RPC node that tests extend with the methods
+ * they need. The base answers eth_getCode with empty code, so Multicall3 is
+ * absent and every view call arrives individually, and rejects anything else.
+ * Block and log builders produce the shapes ethers' formatter accepts, with
+ * deterministic hashes derived from the block number.
+ */
+
+import { ethers } from "ethers";
+
+export const DEVNET_CHAIN_ID = 31337;
+
+export interface FakeBlockOptions {
+  hash?: string;
+  parentHash?: string;
+  timestamp?: number;
+}
+
+export interface FakeLogOptions {
+  address: string;
+  blockNumber: number;
+  logIndex?: number;
+  // Defaults to the block's hash on the default fork
+  blockHash?: string;
+  transactionHash?: string;
+}
+
+export class FakeChain extends ethers.providers.BaseProvider {
+  private readonly fakeNetwork: ethers.providers.Network;
+
+  constructor(chainId = DEVNET_CHAIN_ID) {
+    super({ chainId, name: 'devnet' });
+    this.fakeNetwork = { chainId, name: 'devnet' };
+  }
+
+  async detectNetwork() {
+    return this.fakeNetwork;
+  }
+
+  async perform(method: string, _params: any): Promise<any> {
+    if (method === 'getCode') return '0x';
+    throw new Error(`unexpected ${method}`);
+  }
+}
+
+/**
+ * Deterministic hash of a block on a named fork
+ */
+export function fakeBlockHash(number: number, fork = 'block'): string {
+  return ethers.utils.id(`${fork}:${number}`);
+}
+
+/**
+ * Raw eth_getBlock result, chained to the previous block's default hash
+ */
+export function fakeBlock(number: number, options: FakeBlockOptions = {}) {
+  return {
+    number: ethers.utils.hexValue(number),
+    hash: options.hash ?? fakeBlockHash(number),
+    parentHash: options.parentHash ?? (number > 0 ? fakeBlockHash(number - 1) : ethers.constants.HashZero),
+    timestamp: ethers.utils.hexValue(options.timestamp ?? 0),
+    nonce: '0x0000000000000000',
+    difficulty: '0x0',
+    gasLimit: '0x1c9c380',
+    gasUsed: '0x0',
+    miner: ethers.constants.AddressZero,
+    extraData: '0x',
+    transactions: []
+  };
+}
+
+/**
+ * Raw eth_getLogs entry for an encoded event
+ */
+export function fakeLog(event: { topics: string[]; data: string }, options: FakeLogOptions) {
+  const logIndex = options.logIndex ?? 0;
+
+  return {
+    ...event,
+    address: options.address,
+    blockNumber: options.blockNumber,
+    blockHash: options.blockHash ?? fakeBlockHash(options.blockNumber),
+    transactionHash: options.transactionHash ?? ethers.utils.id(`tx:${options.blockNumber}:${logIndex}`),
+    transactionIndex: 0,
+    logIndex,
+    removed: false
+  };
+}
+
+/**
+ * Raw eth_getLogs entry for an event of a contract interface
+ */
+export function fakeEventLog(
+  contractInterface: ethers.utils.Interface,
+  eventName: string,
+  args: unknown[],
+  options: FakeLogOptions
+) {
+  return fakeLog(contractInterface.encodeEventLog(contractInterface.getEvent(eventName), args), options);
+}
@@ -5,6 +5,7 @@
  * NFT metadata, and blockchain data structures.
  */
 
+import type { ComponentType } from "react";
 import { ethers } from "ethers";
 
 // Basic contract types
@@ -25,6 +26,86 @@ export interface NetworkConfig {
   };
 }
 
+// Network registry types
+export type NetworkKey = 'hemi' | 'hemiSepolia' | 'devnet';
+
+export type ContractName = 'WENTGE' | 'FOOM' | 'HAIR' | 'MAX';
+
+export type NetworkContracts = Record<ContractName, string>;
+
+export interface NetworkDeployment extends NetworkConfig {
+  key: NetworkKey;
+  shortName: string;
+  testnet: boolean;
+  fallbackRpcUrls: string[];
+  contracts: NetworkContracts;
+}
+
+// Collection registry types
+export interface MintCostToken {
+  contract: ContractName;
+  symbol: string;
+  // Collection view function returning the amount burned per mint
+  feeMethod: string;
+  gradient: string;
+}
+
+export interface CollectionMintConfig {
+  method: string;
+  label: string;
+  cost: MintCostToken[];
+  walletLimit?: number;
+  // Revert reason returned once the wallet limit is reached
+  walletLimitReason?: string;
+  // View function reporting whether minting is open
+  enabledMethod?: string;
+}
+
+export interface CollectionBranding {
+  icon: ComponentType<{ className?: string }>;
+  gradient: string;
+  cardGradient: string;
+  accentClass: string;
+  hoverAccentClass: string;
+}
+
+export interface CollectionDetailList {
+  title: string;
+  items: string[];
+}
+
+// Traits computed from the token ID, mirroring the contract's tokenURI
+export interface CollectionTraitsConfig {
+  generate: (tokenId: string) => NFTAttribute[];
+  // ID of the first token minted
+  firstTokenId: number;
+}
+
+// How an attribute's decimals field is read: 'scale' divides the value by
+// 10^decimals (1500 with 2 is 15), 'digit' appends it as the digit after the
+// point (31 with 9 is 31.9)
+export type TraitDecimals = 'scale' | 'digit';
+
+export interface CollectionConfig {
+  slug: string;
+  contract: ContractName;
+  abi: string[];
+  name: string;
+  // Prefix for token display names, e.g. "Foom #12"
+  tokenName: string;
+  tagline: string;
+  summary: string;
+  description: string;
+  details: CollectionDetailList[];
+  emptyHint: string;
+  mint: CollectionMintConfig;
+  branding: CollectionBranding;
+  // Enables rarity ranks, trait filters and next-token previews
+  traits?: CollectionTraitsConfig;
+  // Defaults to 'scale'
+  traitDecimals?: TraitDecimals;
+}
+
 // NFT-related types
 export interface NFTMetadata {
   name: string;
@@ -45,6 +126,16 @@ export interface NFTAttribute {
   unit?: string;
 }
 
+// Tokens per value, per trait type
+export type TraitFrequencies = Record<string, Record<string, number>>;
+
+export interface TokenRarity {
+  tokenId: string;
+  score: number;
+  // 1 is the rarest; tied scores share a rank
+  rank: number;
+}
+
 export interface NFTToken {
   tokenId: string;
   name: string;
@@ -73,6 +164,49 @@ export interface TokenAllowance {
   owner: string;
 }
 
+// Mint cost requirement types
+export interface TokenRequirement {
+  token: string;
+  // Amount in the token's base units
+  amount: ethers.BigNumber;
+  spender: string;
+  symbol: string;
+}
+
+export interface TokenRequirementStatus extends TokenRequirement {
+  decimals: number;
+  // Null until checked against a wallet
+  balance: ethers.BigNumber | null;
+  allowance: ethers.BigNumber | null;
+  hasBalance: boolean;
+  hasAllowance: boolean;
+}
+
+// EIP-2612 permit support of a cost token for one owner
+export type PermitSupport =
+  | { supported: true; domain: ethers.TypedDataDomain; nonce: ethers.BigNumber }
+  | { supported: false; reason: string };
+
+export interface SignedPermit {
+  token: string;
+  owner: string;
+  spender: string;
+  value: ethers.BigNumber;
+  deadline: ethers.BigNumber;
+  signature: ethers.Signature;
+}
+
+// Current ERC20 allowance granted by an owner, found from its Approval events
+export interface TokenApproval {
+  token: string;
+  spender: string;
+  symbol: string;
+  decimals: number;
+  allowance: ethers.BigNumber;
+  // Block of the latest Approval event for this token and spender
+  blockNumber: number;
+}
+
 // Transaction types
 export interface TransactionRequest {
   to: string;
@@ -80,9 +214,65 @@ export interface TransactionRequest {
   data?: string;
   gasLimit?: ethers.BigNumber;
   gasPrice?: ethers.BigNumber;
+  maxFeePerGas?: ethers.BigNumber;
+  maxPriorityFeePerGas?: ethers.BigNumber;
   nonce?: number;
 }
 
+// Gas and fee fields passed as overrides to contract writes
+export type GasOverrides = Pick<TransactionRequest, 'gasLimit' | 'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas'>;
+
+export type GasSpeed = 'slow' | 'normal' | 'fast';
+
+export interface FeePreset {
+  maxFeePerGas: ethers.BigNumber;
+  maxPriorityFeePerGas: ethers.BigNumber;
+}
+
+// Fee presets for the next block; baseFeePerGas is null on pre-London chains
+export interface FeeEstimate {
+  baseFeePerGas: ethers.BigNumber | null;
+  presets: Record<GasSpeed, FeePreset>;
+}
+
+// Fields ethers needs to detect a replaced (sped-up or cancelled) transaction
+export interface ReplaceableTransaction {
+  data: string;
+  from: string;
+  nonce: number;
+  to: string;
+  value: ethers.BigNumber;
+  startBlock: number;
+}
+
+export type TrackedTransactionKind = 'mint' | 'approve' | 'transfer' | 'burn' | 'other';
+
+export type TrackedTransactionStatus = 'pending' | 'confirmed' | 'failed' | 'replaced' | 'cancelled';
+
+// Submitted transaction as persisted by the transaction manager
+export interface TrackedTransaction {
+  hash: string;
+  chainId: number;
+  from: string;
+  to: string | null;
+  nonce: number;
+  data: string;
+  value: string;
+  startBlock: number;
+  kind: TrackedTransactionKind;
+  purpose: string;
+  status: TrackedTransactionStatus;
+  submittedAt: number;
+  // Set when the wallet sped up, replaced or cancelled the transaction
+  replacement?: {
+    hash: string;
+    reason: 'repriced' | 'replaced' | 'cancelled';
+  };
+  blockNumber?: number;
+  gasUsed?: string;
+  effectiveGasPrice?: string;
+}
+
 export interface TransactionResponse {
   hash: string;
   blockNumber?: number;
@@ -118,6 +308,30 @@ export interface FoomContractData {
 }
 
 // Wallet types
+// 'metamask' is the legacy window.ethereum injection; discovered EIP-6963
+// wallets are addressed by their reverse-DNS identifier.
+export type InjectedWalletType = `eip6963:${string}`;
+
+export type WalletType = 'metamask' | 'walletconnect' | InjectedWalletType;
+
+export interface EIP1193Provider {
+  request(args: { method: string; params?: unknown[] | object }): Promise<any>;
+  on(event: string, listener: (...args: any[]) => void): unknown;
+  removeListener(event: string, listener: (...args: any[]) => void): unknown;
+}
+
+export interface EIP6963ProviderInfo {
+  uuid: string;
+  name: string;
+  icon: string;
+  rdns: string;
+}
+
+export interface EIP6963ProviderDetail {
+  info: EIP6963ProviderInfo;
+  provider: EIP1193Provider;
+}
+
 export interface WalletState {
   isConnected: boolean;
   address: string | null;
@@ -153,6 +367,120 @@ export interface MintEvent extends ContractEvent {
   };
 }
 
+// Minted event as stored in the collection explorer's index
+export interface IndexedMint {
+  tokenId: string;
+  to: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  // Block time in seconds, filled in when first displayed
+  timestamp: number | null;
+}
+
+// Cached scan of a collection's Minted events on one chain
+export interface MintIndex {
+  chainId: number;
+  contract: string;
+  // Last block scanned, -1 before the first scan
+  scannedTo: number;
+  mints: IndexedMint[];
+}
+
+// ERC721 Transfer as stored in a collection's holders index
+export interface IndexedTransfer {
+  tokenId: string;
+  from: string;
+  to: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface HolderSummary {
+  address: string;
+  tokens: number;
+}
+
+// Holders owning a range of token counts, e.g. "3-5"
+export interface HolderDistributionBucket {
+  label: string;
+  holders: number;
+}
+
+export interface HolderStats {
+  // Tokens in circulation (minted less burned)
+  supply: number;
+  burned: number;
+  uniqueHolders: number;
+  // Largest holders first
+  holders: HolderSummary[];
+  distribution: HolderDistributionBucket[];
+}
+
+// Mint cost token burned by a collection, in whole token units per mint
+export interface BurnFee {
+  symbol: string;
+  amount: number;
+}
+
+// Cumulative mint-cost burns after the mints of one block
+export interface BurnPoint {
+  blockNumber: number;
+  mints: number;
+  // Total burned per cost token symbol
+  burned: Record<string, number>;
+}
+
+// EIP-2981 royalty quote for a token
+export interface RoyaltyInfo {
+  receiver: string;
+  // Royalty owed on the quoted sale price, in wei
+  amount: ethers.BigNumber;
+  salePrice: ethers.BigNumber;
+  // Royalty rate in basis points of the sale price
+  basisPoints: number;
+}
+
+// On-chain state of a single token, as shown on its detail page
+export interface TokenDetails {
+  tokenId: string;
+  // Null for burned or never-minted tokens
+  owner: string | null;
+  tokenURI: string | null;
+  // Collection-wide image, for contracts exposing imageURI()
+  imageURI: string | null;
+  // Null when the contract does not implement royaltyInfo
+  royalty: RoyaltyInfo | null;
+}
+
+// Activity feed types
+export interface ActivityItem {
+  hash: string;
+  chainId: number;
+  kind: TrackedTransactionKind;
+  purpose: string;
+  status: TrackedTransactionStatus;
+  timestamp: number | null;
+  blockNumber: number | null;
+  // Wei paid for gas, once mined
+  gasPaid: string | null;
+  replacement?: TrackedTransaction['replacement'];
+  // Where the entry came from: this browser, chain events, or both
+  source: 'local' | 'chain' | 'both';
+}
+
+// Minted event read back from a collection
+export interface MintedEventActivity {
+  hash: string;
+  chainId: number;
+  collectionName: string;
+  tokenId: string;
+  blockNumber: number;
+  timestamp: number | null;
+  gasPaid: string | null;
+}
+
 // API response types
 export interface APIResponse<T = any> {
   success: boolean;
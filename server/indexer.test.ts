@@ -0,0 +1,219 @@
+/**
+ * Unit Tests for the Contract Event Indexer
+ *
+ * Indexes a collection on a fake chain that can grow and reorganise, into
+ * MemStorage, to ensure:
+ * - Events are stored once and token ownership follows Transfer events
+ * - A reorg rolls back events from the fork point, rebuilds the affected
+ *   tokens (dropping tokens whose mint vanished) and indexes the new fork
+ * - Environment configuration rejects malformed numbers instead of guessing
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { ethers } from "ethers";
+import { FakeChain, fakeBlock, fakeBlockHash, fakeEventLog } from "@/test/fakeChain";
+import { EventIndexer, INDEXED_EVENTS_ABI, getIndexerConfig, toContractEvent } from "./indexer";
+import { MemStorage } from "./storage";
+
+vi.mock("./vite", () => ({ log: () => {} }));
+
+const NFT = "0x2222222222222222222222222222222222222222";
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x3333333333333333333333333333333333333333";
+const CAROL = "0x4444444444444444444444444444444444444444";
+const ZERO = ethers.constants.AddressZero;
+const CHAIN_ID = 31337;
+
+const events = new ethers.utils.Interface(INDEXED_EVENTS_ABI);
+
+interface ChainEvent {
+  blockNumber: number;
+  name: string;
+  args: unknown[];
+}
+
+/**
+ * Chain with the collection's events placed in blocks; a reorg replaces
+ * the blocks and events from the fork point onwards
+ */
+class CollectionChain extends FakeChain {
+  forks: string[] = [];
+  events: ChainEvent[] = [];
+
+  constructor(length: number, chainEvents: ChainEvent[]) {
+    super(CHAIN_ID);
+    this.grow(length, "main");
+    this.events = chainEvents;
+  }
+
+  get head(): number {
+    return this.forks.length - 1;
+  }
+
+  grow(blocks: number, fork: string) {
+    for (let count = 0; count < blocks; count++) this.forks.push(fork);
+  }
+
+  reorg(fromBlock: number, fork: string, chainEvents: ChainEvent[], extraBlocks = 0) {
+    const length = this.forks.length + extraBlocks;
+    this.forks = this.forks.slice(0, fromBlock);
+    this.grow(length - fromBlock, fork);
+    this.events = [...this.events.filter((event) => event.blockNumber < fromBlock), ...chainEvents];
+  }
+
+  hash(blockNumber: number): string {
+    return fakeBlockHash(blockNumber, this.forks[blockNumber]);
+  }
+
+  async perform(method: string, params: any): Promise<any> {
+    switch (method) {
+      case "getBlockNumber":
+        return this.head;
+      case "getBlock": {
+        const number = params.blockTag === "latest" ? this.head : Number(params.blockTag);
+        if (number > this.head) return null;
+        return fakeBlock(number, {
+          hash: this.hash(number),
+          parentHash: number > 0 ? this.hash(number - 1) : undefined,
+        });
+      }
+      case "getLogs":
+        return this.logs(Number(params.filter.fromBlock), Number(params.filter.toBlock));
+      default:
+        return super.perform(method, params);
+    }
+  }
+
+  logs(fromBlock: number, toBlock: number) {
+    return this.events
+      .filter((event) => event.blockNumber >= fromBlock && event.blockNumber <= toBlock)
+      .map((event, logIndex) => fakeEventLog(events, event.name, event.args, {
+        address: NFT,
+        blockNumber: event.blockNumber,
+        blockHash: this.hash(event.blockNumber),
+        transactionHash: ethers.utils.id(`${this.forks[event.blockNumber]}:${event.blockNumber}:${logIndex}`),
+        logIndex,
+      }));
+  }
+}
+
+/**
+ * Events of a mint: Minted plus the Transfer from the zero address
+ */
+function mint(blockNumber: number, to: string, tokenId: number): ChainEvent[] {
+  return [
+    { blockNumber, name: "Minted", args: [to, tokenId] },
+    { blockNumber, name: "Transfer", args: [ZERO, to, tokenId] },
+  ];
+}
+
+/**
+ * Index a chain into fresh storage, waiting 3 blocks for finality
+ */
+function setup(chain: CollectionChain) {
+  const storage = new MemStorage();
+  const indexer = new EventIndexer(chain, [{ address: NFT, fromBlock: 0 }], storage, 1000, 3);
+  return { storage, indexer };
+}
+
+const owners = async (storage: MemStorage) =>
+  (await storage.getTokens(NFT, CHAIN_ID)).map((token) => [token.tokenId, token.owner]);
+
+describe("EventIndexer", () => {
+  it("stores events once and tracks token owners", async () => {
+    const chain = new CollectionChain(21, [
+      ...mint(5, ALICE, 1),
+      ...mint(8, BOB, 2),
+      { blockNumber: 15, name: "Transfer", args: [ALICE, BOB, 1] },
+      { blockNumber: 18, name: "MintingDisabled", args: [] },
+    ]);
+    const { storage, indexer } = setup(chain);
+
+    await indexer.sync();
+    await indexer.sync();
+
+    expect(await storage.getEvents({ chainId: CHAIN_ID })).toHaveLength(6);
+    expect(await owners(storage)).toEqual([["1", BOB], ["2", BOB]]);
+    expect((await storage.getTokens(NFT))[0]).toMatchObject({ mintedTo: ALICE, mintedBlock: 5 });
+  });
+
+  it("rolls back a reorged fork and indexes the new one", async () => {
+    const chain = new CollectionChain(11, [
+      ...mint(5, ALICE, 1),
+      ...mint(8, BOB, 2),
+      ...mint(12, CAROL, 3),
+      { blockNumber: 15, name: "Transfer", args: [ALICE, BOB, 1] },
+      { blockNumber: 18, name: "MintingDisabled", args: [] },
+    ]);
+    const { storage, indexer } = setup(chain);
+    await indexer.sync();
+    chain.grow(10, "main");
+    await indexer.sync();
+    expect(await owners(storage)).toEqual([["1", BOB], ["2", BOB], ["3", CAROL]]);
+
+    // Blocks 12 onwards are replaced: token 3 was never minted, token 1 went
+    // to CAROL instead and token 2 was burned
+    chain.reorg(12, "fork", [
+      { blockNumber: 16, name: "Transfer", args: [ALICE, CAROL, 1] },
+      { blockNumber: 17, name: "Transfer", args: [BOB, ZERO, 2] },
+    ], 2);
+    await indexer.sync();
+
+    expect(await owners(storage)).toEqual([["1", CAROL], ["2", null]]);
+    const stored = await storage.getEvents({ chainId: CHAIN_ID, fromBlock: 11 });
+    expect(stored.map((event) => [event.blockNumber, event.event])).toEqual([[16, "Transfer"], [17, "Transfer"]]);
+    expect(stored.every((event) => event.blockHash === chain.hash(event.blockNumber))).toBe(true);
+  });
+
+  it("starts over from the configured block when the reorg is deeper than its checkpoints", async () => {
+    const chain = new CollectionChain(21, [...mint(5, ALICE, 1), ...mint(8, BOB, 2)]);
+    const { storage, indexer } = setup(chain);
+    await indexer.sync();
+
+    chain.reorg(3, "fork", mint(6, CAROL, 1), 1);
+    await indexer.sync();
+
+    expect(await owners(storage)).toEqual([["1", CAROL]]);
+    expect(await storage.getEvents({ chainId: CHAIN_ID })).toHaveLength(2);
+  });
+});
+
+describe("toContractEvent", () => {
+  it("ignores logs that share a topic but not the shape", () => {
+    // ERC20 Transfer: same signature, value in the data instead of an indexed token id
+    const erc20 = new ethers.utils.Interface(["event Transfer(address indexed from, address indexed to, uint256 value)"]);
+    const eventLog = fakeEventLog(erc20, "Transfer", [ALICE, BOB, 5], { address: NFT, blockNumber: 1 });
+
+    expect(toContractEvent(CHAIN_ID, eventLog)).toBeNull();
+  });
+});
+
+describe("getIndexerConfig", () => {
+  const env = {
+    INDEXER_RPC_URL: "http://127.0.0.1:8545",
+    INDEXER_CONTRACTS: `${NFT}:120000, ${ALICE.toLowerCase()}`,
+  };
+
+  it("is disabled without an RPC URL or contracts", () => {
+    expect(getIndexerConfig({})).toBeNull();
+    expect(getIndexerConfig({ INDEXER_RPC_URL: env.INDEXER_RPC_URL })).toBeNull();
+  });
+
+  it("reads contracts with optional start blocks", () => {
+    expect(getIndexerConfig({ ...env, INDEXER_CONFIRMATIONS: "0", INDEXER_POLL_INTERVAL: "5000" })).toEqual({
+      rpcUrl: env.INDEXER_RPC_URL,
+      contracts: [{ address: NFT, fromBlock: 120000 }, { address: ALICE, fromBlock: 0 }],
+      pollInterval: 5000,
+      confirmations: 0,
+    });
+  });
+
+  it("rejects malformed numbers", () => {
+    expect(() => getIndexerConfig({ ...env, INDEXER_CONTRACTS: `${NFT}:latest` })).toThrow("Invalid start block");
+    expect(() => getIndexerConfig({ ...env, INDEXER_CONTRACTS: `${NFT}:` })).toThrow("Invalid start block");
+    expect(() => getIndexerConfig({ ...env, INDEXER_CONTRACTS: `${NFT}:12e3` })).toThrow("Invalid start block");
+    expect(() => getIndexerConfig({ ...env, INDEXER_CONFIRMATIONS: "twelve" })).toThrow("Invalid INDEXER_CONFIRMATIONS");
+    expect(() => getIndexerConfig({ ...env, INDEXER_CONFIRMATIONS: "-1" })).toThrow("Invalid INDEXER_CONFIRMATIONS");
+    expect(() => getIndexerConfig({ ...env, INDEXER_POLL_INTERVAL: "0" })).toThrow("Invalid INDEXER_POLL_INTERVAL");
+  });
+});
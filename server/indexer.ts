@@ -0,0 +1,263 @@
+/**
+ * Contract Event Indexer
+ *
+ * Follows the Minted, Transfer, MintingEnabled/Disabled and ImageDataUpdated
+ * events of the configured NFT contracts, stores them through IStorage and
+ * keeps per-token ownership up to date. Each contract has its own block
+ * cursor (stored in IStorage too); when the cursor detects a reorg, events
+ * from the fork point are rolled back, affected tokens rebuilt and the range
+ * indexed again.
+ */
+
+import { ethers } from "ethers";
+import { scanLogs } from "@shared/logs";
+import { BlockCursor, DEFAULT_CONFIRMATIONS } from "@shared/blockCursor";
+import type { InsertContractEvent } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { log } from "./vite";
+
+const DEFAULT_POLL_INTERVAL = 15000;
+
+export const INDEXED_EVENTS_ABI = [
+  "event Minted(address indexed to, uint256 tokenId)",
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+  "event MintingEnabled()",
+  "event MintingDisabled()",
+  "event ImageDataUpdated(string newImageData)",
+];
+
+const eventsInterface = new ethers.utils.Interface(INDEXED_EVENTS_ABI);
+
+const EVENT_TOPICS = Object.values(eventsInterface.events).map((fragment) =>
+  eventsInterface.getEventTopic(fragment),
+);
+
+export interface IndexedContract {
+  address: string;
+  // First block scanned when nothing has been indexed yet
+  fromBlock: number;
+}
+
+export interface IndexerConfig {
+  rpcUrl: string;
+  contracts: IndexedContract[];
+  pollInterval?: number;
+  confirmations?: number;
+}
+
+/**
+ * Parse a whole, non-negative number from the configuration, rejecting
+ * anything parseInt would silently misread
+ */
+function parseCount(name: string, value: string, minimum = 0): number {
+  if (!/^\d+$/.test(value.trim()) || Number(value) < minimum) {
+    throw new Error(`Invalid ${name}: ${JSON.stringify(value)} (expected a whole number of at least ${minimum})`);
+  }
+  return Number(value);
+}
+
+/**
+ * Read the indexer configuration from the environment, or null when disabled
+ * Throws when a value is malformed, so a typo never indexes from the wrong block.
+ *
+ * INDEXER_RPC_URL: JSON-RPC endpoint of the chain to follow
+ * INDEXER_CONTRACTS: comma-separated addresses, each optionally followed by
+ *   :startBlock (e.g. 0xabc...:120000,0xdef...)
+ * INDEXER_POLL_INTERVAL: milliseconds between polls
+ * INDEXER_CONFIRMATIONS: blocks before indexed events are final
+ */
+export function getIndexerConfig(env: NodeJS.ProcessEnv = process.env): IndexerConfig | null {
+  if (!env.INDEXER_RPC_URL || !env.INDEXER_CONTRACTS) return null;
+
+  const contracts = env.INDEXER_CONTRACTS.split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [address, fromBlock] = entry.split(":");
+      return {
+        address: ethers.utils.getAddress(address),
+        fromBlock: fromBlock === undefined ? 0 : parseCount(`start block for ${address}`, fromBlock),
+      };
+    });
+
+  return {
+    rpcUrl: env.INDEXER_RPC_URL,
+    contracts,
+    pollInterval: env.INDEXER_POLL_INTERVAL
+      ? parseCount("INDEXER_POLL_INTERVAL", env.INDEXER_POLL_INTERVAL, 1)
+      : undefined,
+    confirmations: env.INDEXER_CONFIRMATIONS
+      ? parseCount("INDEXER_CONFIRMATIONS", env.INDEXER_CONFIRMATIONS)
+      : undefined,
+  };
+}
+
+/**
+ * Storage key of a contract's block cursor
+ */
+export function cursorKey(chainId: number, contract: string): string {
+  return `indexer.${chainId}.${contract.toLowerCase()}`;
+}
+
+/**
+ * Convert a log to its stored form, or null if it is not an indexed event
+ */
+export function toContractEvent(chainId: number, eventLog: ethers.providers.Log): InsertContractEvent | null {
+  let parsed: ethers.utils.LogDescription;
+  try {
+    parsed = eventsInterface.parseLog(eventLog);
+  } catch {
+    // Same topic, different shape (e.g. an ERC20 Transfer)
+    return null;
+  }
+
+  const args: Record<string, string> = {};
+  parsed.eventFragment.inputs.forEach((input, position) => {
+    args[input.name] = parsed.args[position].toString();
+  });
+
+  return {
+    chainId,
+    contract: ethers.utils.getAddress(eventLog.address),
+    event: parsed.name,
+    tokenId: args.tokenId ?? null,
+    args,
+    blockNumber: eventLog.blockNumber,
+    blockHash: eventLog.blockHash,
+    transactionHash: eventLog.transactionHash,
+    logIndex: eventLog.logIndex,
+  };
+}
+
+export class EventIndexer {
+  private timer: NodeJS.Timeout | null = null;
+  private syncing = false;
+  private chainId: number | null = null;
+
+  constructor(
+    private provider: ethers.providers.Provider,
+    private contracts: IndexedContract[],
+    private storage: IStorage,
+    private pollInterval = DEFAULT_POLL_INTERVAL,
+    private confirmations = DEFAULT_CONFIRMATIONS,
+  ) {}
+
+  /**
+   * Index all contracts now, then keep polling
+   */
+  start() {
+    if (this.timer) return;
+
+    const poll = async () => {
+      await this.sync();
+      this.timer = setTimeout(poll, this.pollInterval);
+    };
+    this.timer = setTimeout(poll, 0);
+  }
+
+  stop() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Bring every contract up to the latest block
+   */
+  async sync() {
+    if (this.syncing) return;
+
+    try {
+      this.syncing = true;
+      this.chainId ??= (await this.provider.getNetwork()).chainId;
+
+      for (const contract of this.contracts) {
+        try {
+          await this.syncContract(this.chainId, contract);
+        } catch (error) {
+          console.error(`Error indexing ${contract.address}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error("Error syncing indexer:", error);
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  /**
+   * Index one contract from its cursor, rolling back first if the chain reorganised
+   */
+  private async syncContract(chainId: number, contract: IndexedContract) {
+    const cursor = new BlockCursor(this.provider, this.storage, cursorKey(chainId, contract.address), {
+      startBlock: contract.fromBlock,
+      confirmations: this.confirmations,
+    });
+
+    await cursor.sync({
+      rollback: async (fromBlock) => {
+        const removed = await this.storage.deleteEventsFrom(chainId, contract.address, fromBlock);
+        await this.rebuildTokens(chainId, contract.address, removed.map((event) => event.tokenId));
+        log(`reorg detected, re-indexing ${contract.address} from block ${fromBlock}`, "indexer");
+      },
+      process: async (fromBlock, toBlock) => {
+        const logs = await scanLogs(this.provider, { address: contract.address, topics: [EVENT_TOPICS] }, {
+          fromBlock,
+          toBlock,
+        });
+        const added = await this.storage.addEvents(
+          logs
+            .map((eventLog) => toContractEvent(chainId, eventLog))
+            .filter((event): event is InsertContractEvent => event !== null),
+        );
+        await this.rebuildTokens(chainId, contract.address, added.map((event) => event.tokenId));
+
+        if (added.length > 0) {
+          log(`indexed ${added.length} events for ${contract.address} up to block ${toBlock}`, "indexer");
+        }
+      },
+    });
+  }
+
+  /**
+   * Recompute the stored state of tokens from their remaining Transfer events
+   */
+  private async rebuildTokens(chainId: number, contract: string, tokenIds: Array<string | null>) {
+    const touched = Array.from(new Set(tokenIds.filter((tokenId): tokenId is string => tokenId !== null)));
+
+    for (const tokenId of touched) {
+      const transfers = await this.storage.getEvents({ chainId, contract, tokenId, event: "Transfer" });
+      const mint = transfers.find((event) => event.args.from === ethers.constants.AddressZero);
+
+      if (!mint) {
+        await this.storage.deleteToken(chainId, contract, tokenId);
+        continue;
+      }
+
+      const owner = transfers[transfers.length - 1].args.to;
+      await this.storage.upsertToken({
+        chainId,
+        contract,
+        tokenId,
+        owner: owner === ethers.constants.AddressZero ? null : owner,
+        mintedTo: mint.args.to,
+        mintedBlock: mint.blockNumber,
+        mintTransactionHash: mint.transactionHash,
+      });
+    }
+  }
+}
+
+/**
+ * Start indexing the contracts configured in the environment, if any
+ */
+export function startIndexer(storage: IStorage): EventIndexer | null {
+  const config = getIndexerConfig();
+  if (!config) return null;
+
+  const provider = new ethers.providers.StaticJsonRpcProvider(config.rpcUrl);
+  const indexer = new EventIndexer(provider, config.contracts, storage, config.pollInterval, config.confirmations);
+  indexer.start();
+
+  log(`indexing ${config.contracts.length} contract(s) from ${config.rpcUrl}`, "indexer");
+  return indexer;
+}
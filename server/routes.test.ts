@@ -0,0 +1,125 @@
+/**
+ * Unit Tests for the Indexer REST API
+ *
+ * Serves the registered routes on an ephemeral port over the shared
+ * MemStorage to ensure:
+ * - Collection and owner lookups return the indexed tokens
+ * - Events are filtered by the query string and marked final from the cursor
+ * - Malformed addresses and query parameters are answered with 400
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { cursorKey } from "./indexer";
+import type { InsertContractEvent } from "@shared/schema";
+
+vi.mock("./vite", () => ({ log: () => {} }));
+
+const NFT = "0xAb5801a7D398351b8bE11C439e05C5B3259aeC9B";
+const ALICE = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+const BOB = "0x3333333333333333333333333333333333333333";
+const ZERO = "0x0000000000000000000000000000000000000000";
+const CHAIN_ID = 31337;
+
+let server: Server;
+let baseUrl: string;
+
+/**
+ * Event of token 1 stored at a block and log position
+ */
+function tokenEvent(event: string, blockNumber: number, logIndex: number, args: Record<string, string>): InsertContractEvent {
+  return {
+    chainId: CHAIN_ID,
+    contract: NFT,
+    event,
+    tokenId: "1",
+    args: { ...args, tokenId: "1" },
+    blockNumber,
+    blockHash: `0x${blockNumber.toString(16).padStart(64, "0")}`,
+    transactionHash: `0x${logIndex.toString(16).padStart(64, "0")}`,
+    logIndex,
+  };
+}
+
+/**
+ * GET an API path, returning the status and parsed body
+ */
+async function get(path: string): Promise<{ status: number; body: any }> {
+  const response = await fetch(`${baseUrl}${path}`);
+  return { status: response.status, body: await response.json() };
+}
+
+beforeAll(async () => {
+  await storage.addEvents([
+    tokenEvent("Minted", 5, 0, { to: ALICE }),
+    tokenEvent("Transfer", 5, 1, { from: ZERO, to: ALICE }),
+    tokenEvent("Transfer", 9, 2, { from: ALICE, to: BOB }),
+  ]);
+  await storage.upsertToken({
+    chainId: CHAIN_ID,
+    contract: NFT,
+    tokenId: "1",
+    owner: BOB,
+    mintedTo: ALICE,
+    mintedBlock: 5,
+    mintTransactionHash: `0x${"0".repeat(64)}`,
+  });
+  // Blocks up to 6 are final
+  await storage.setCursor(cursorKey(CHAIN_ID, NFT), { checkpoints: [], finalizedBlock: 6 });
+
+  server = await registerRoutes(express());
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("GET /api/collections/:address/tokens", () => {
+  it("lists a collection's tokens for any address casing", async () => {
+    const { status, body } = await get(`/api/collections/${NFT.toLowerCase()}/tokens?chainId=${CHAIN_ID}`);
+
+    expect(status).toBe(200);
+    expect(body).toEqual([expect.objectContaining({ tokenId: "1", owner: BOB, mintedTo: ALICE })]);
+  });
+
+  it("rejects invalid addresses and chain IDs", async () => {
+    expect((await get("/api/collections/0x1234/tokens")).status).toBe(400);
+    expect((await get(`/api/collections/${NFT}/tokens?chainId=-1`)).status).toBe(400);
+  });
+});
+
+describe("GET /api/owners/:address", () => {
+  it("lists the tokens an address holds", async () => {
+    expect((await get(`/api/owners/${BOB}`)).body).toHaveLength(1);
+    expect((await get(`/api/owners/${ALICE.toLowerCase()}`)).body).toEqual([]);
+  });
+});
+
+describe("GET /api/events", () => {
+  it("filters events and marks those past the confirmation depth final", async () => {
+    const { status, body } = await get(`/api/events?contract=${NFT}&event=Transfer&account=${ALICE.toLowerCase()}`);
+
+    expect(status).toBe(200);
+    expect(body.map((event: any) => [event.blockNumber, event.final])).toEqual([[5, true], [9, false]]);
+  });
+
+  it("pages with limit and offset", async () => {
+    const { body } = await get("/api/events?limit=1&offset=1");
+
+    expect(body.map((event: any) => [event.event, event.blockNumber])).toEqual([["Transfer", 5]]);
+  });
+
+  it("rejects malformed filters", async () => {
+    for (const query of ["event=Approval", "tokenId=0x01", "limit=1001", "fromBlock=-5", `account=${ALICE}1`]) {
+      const { status, body } = await get(`/api/events?${query}`);
+      expect(status).toBe(400);
+      expect(body.message).toMatch(/^Validation error/);
+    }
+  });
+});
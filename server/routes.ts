@@ -1,13 +1,96 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
+import { ethers } from "ethers";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
 import { storage } from "./storage";
+import { cursorKey, startIndexer } from "./indexer";
+import type { ContractEvent } from "@shared/schema";
+
+const MAX_EVENTS = 1000;
+
+const addressSchema = z
+  .string()
+  .refine((value) => ethers.utils.isAddress(value), "Invalid address")
+  .transform((value) => ethers.utils.getAddress(value));
+
+const chainIdSchema = z.coerce.number().int().positive().optional();
+
+const ownedQuerySchema = z.object({
+  address: addressSchema,
+  chainId: chainIdSchema,
+});
+
+const eventsQuerySchema = z.object({
+  chainId: chainIdSchema,
+  contract: addressSchema.optional(),
+  event: z.enum(["Minted", "Transfer", "MintingEnabled", "MintingDisabled", "ImageDataUpdated"]).optional(),
+  tokenId: z.string().regex(/^\d+$/, "Invalid token id").optional(),
+  account: addressSchema.optional(),
+  fromBlock: z.coerce.number().int().nonnegative().optional(),
+  toBlock: z.coerce.number().int().nonnegative().optional(),
+  limit: z.coerce.number().int().positive().max(MAX_EVENTS).default(100),
+  offset: z.coerce.number().int().nonnegative().default(0),
+});
+
+/**
+ * Parse request input, answering 400 with a readable message when invalid
+ */
+function parseInput<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, input: unknown, res: Response): T | null {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    res.status(400).json({ message: fromZodError(result.error).message });
+    return null;
+  }
+  return result.data;
+}
+
+/**
+ * Mark events that have reached their indexer's confirmation depth
+ */
+async function withFinality(events: ContractEvent[]): Promise<Array<ContractEvent & { final: boolean }>> {
+  const finalizedBlocks = new Map<string, number>();
+
+  for (const event of events) {
+    const key = cursorKey(event.chainId, event.contract);
+    if (!finalizedBlocks.has(key)) {
+      finalizedBlocks.set(key, (await storage.getCursor(key))?.finalizedBlock ?? -1);
+    }
+  }
+
+  return events.map((event) => ({
+    ...event,
+    final: event.blockNumber <= finalizedBlocks.get(cursorKey(event.chainId, event.contract))!,
+  }));
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // put application routes here
-  // prefix all routes with /api
+  // Tokens of an indexed collection with their current owners
+  app.get("/api/collections/:address/tokens", async (req, res) => {
+    const params = parseInput(ownedQuerySchema, { ...req.query, address: req.params.address }, res);
+    if (params === null) return;
+
+    res.json(await storage.getTokens(params.address, params.chainId));
+  });
+
+  // Tokens held by an address across indexed collections
+  app.get("/api/owners/:address", async (req, res) => {
+    const params = parseInput(ownedQuerySchema, { ...req.query, address: req.params.address }, res);
+    if (params === null) return;
+
+    res.json(await storage.getTokensByOwner(params.address, params.chainId));
+  });
+
+  // Indexed events, oldest first, filtered by the query string and marked
+  // final once past the confirmation depth
+  app.get("/api/events", async (req, res) => {
+    const query = parseInput(eventsQuerySchema, req.query, res);
+    if (query === null) return;
+
+    res.json(await withFinality(await storage.getEvents(query)));
+  });
 
-  // use storage to perform CRUD operations on the storage interface
-  // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
+  startIndexer(storage);
 
   const httpServer = createServer(app);
 
@@ -0,0 +1,143 @@
+/**
+ * Unit Tests for MemStorage Indexer Tables
+ *
+ * Exercises the event, token and cursor methods the indexer relies on:
+ * - Events are stored once per log, queried oldest first with filters and paging
+ * - Rollbacks remove one contract's events from a block onwards
+ * - Tokens sort numerically, owners match case-insensitively
+ */
+
+import { describe, it, expect } from "vitest";
+import type { InsertContractEvent, InsertNftToken } from "@shared/schema";
+import { MemStorage } from "./storage";
+
+const NFT = "0xAb5801a7D398351b8bE11C439e05C5B3259aeC9B";
+const OTHER_NFT = "0x5555555555555555555555555555555555555555";
+const ALICE = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+const BOB = "0x3333333333333333333333333333333333333333";
+
+/**
+ * Transfer event stored for a block and log position
+ */
+function transfer(
+  blockNumber: number,
+  logIndex: number,
+  from: string,
+  to: string,
+  tokenId: string,
+  contract = NFT,
+): InsertContractEvent {
+  return {
+    chainId: 31337,
+    contract,
+    event: "Transfer",
+    tokenId,
+    args: { from, to, tokenId },
+    blockNumber,
+    blockHash: `0x${blockNumber.toString(16).padStart(64, "0")}`,
+    transactionHash: `0x${(blockNumber * 100 + logIndex).toString(16).padStart(64, "0")}`,
+    logIndex,
+  };
+}
+
+/**
+ * Token held by an owner
+ */
+function token(tokenId: string, owner: string | null, contract = NFT): InsertNftToken {
+  return {
+    chainId: 31337,
+    contract,
+    tokenId,
+    owner,
+    mintedTo: ALICE,
+    mintedBlock: 1,
+    mintTransactionHash: `0x${"ab".repeat(32)}`,
+  };
+}
+
+describe("MemStorage events", () => {
+  it("stores each log once", async () => {
+    const storage = new MemStorage();
+
+    const first = await storage.addEvents([transfer(5, 0, ALICE, BOB, "1"), transfer(5, 1, ALICE, BOB, "2")]);
+    const again = await storage.addEvents([transfer(5, 1, ALICE, BOB, "2"), transfer(6, 0, BOB, ALICE, "2")]);
+
+    expect(first.map((event) => event.id)).toEqual([1, 2]);
+    expect(again.map((event) => [event.blockNumber, event.id])).toEqual([[6, 3]]);
+    expect(await storage.getEvents({})).toHaveLength(3);
+  });
+
+  it("filters by account, token, block range and pages oldest first", async () => {
+    const storage = new MemStorage();
+    await storage.addEvents([
+      transfer(9, 0, BOB, ALICE, "1"),
+      transfer(3, 0, ALICE, BOB, "1"),
+      transfer(3, 1, BOB, BOB, "2"),
+      transfer(7, 0, ALICE, BOB, "3", OTHER_NFT),
+    ]);
+
+    const positions = (events: { blockNumber: number; logIndex: number }[]) =>
+      events.map((event) => `${event.blockNumber}.${event.logIndex}`);
+
+    expect(positions(await storage.getEvents({ account: ALICE.toLowerCase() })))
+      .toEqual(["3.0", "7.0", "9.0"]);
+    expect(positions(await storage.getEvents({ contract: NFT.toLowerCase(), tokenId: "1" })))
+      .toEqual(["3.0", "9.0"]);
+    expect(positions(await storage.getEvents({ fromBlock: 4, toBlock: 9 }))).toEqual(["7.0", "9.0"]);
+    expect(positions(await storage.getEvents({ offset: 1, limit: 2 }))).toEqual(["3.1", "7.0"]);
+  });
+
+  it("rolls back one contract from a block onwards", async () => {
+    const storage = new MemStorage();
+    await storage.addEvents([
+      transfer(3, 0, ALICE, BOB, "1"),
+      transfer(8, 0, BOB, ALICE, "1"),
+      transfer(9, 0, ALICE, BOB, "3", OTHER_NFT),
+    ]);
+
+    const removed = await storage.deleteEventsFrom(31337, NFT, 5);
+
+    expect(removed.map((event) => event.blockNumber)).toEqual([8]);
+    expect((await storage.getEvents({})).map((event) => event.blockNumber)).toEqual([3, 9]);
+    // The removed log can be indexed again once the new fork includes it
+    expect(await storage.addEvents([transfer(8, 0, BOB, ALICE, "1")])).toHaveLength(1);
+  });
+});
+
+describe("MemStorage tokens", () => {
+  it("sorts token ids numerically, even beyond Number precision", async () => {
+    const storage = new MemStorage();
+    for (const tokenId of ["10", "9", "18446744073709551617", "18446744073709551616"]) {
+      await storage.upsertToken(token(tokenId, BOB));
+    }
+
+    expect((await storage.getTokens(NFT)).map((stored) => stored.tokenId))
+      .toEqual(["9", "10", "18446744073709551616", "18446744073709551617"]);
+  });
+
+  it("replaces and deletes tokens, finding owners case-insensitively", async () => {
+    const storage = new MemStorage();
+    await storage.upsertToken(token("1", ALICE));
+    await storage.upsertToken(token("2", ALICE, OTHER_NFT));
+    await storage.upsertToken(token("3", ALICE));
+    await storage.upsertToken(token("1", null));
+    await storage.deleteToken(31337, NFT.toLowerCase(), "3");
+
+    expect((await storage.getTokensByOwner(BOB)).length).toBe(0);
+    expect((await storage.getTokensByOwner(ALICE.toLowerCase())).map((stored) => stored.contract)).toEqual([OTHER_NFT]);
+    expect(await storage.getTokens(NFT, 1)).toEqual([]);
+    expect((await storage.getTokens(NFT, 31337)).map((stored) => [stored.tokenId, stored.owner])).toEqual([["1", null]]);
+  });
+});
+
+describe("MemStorage cursors", () => {
+  it("stores cursor state by key", async () => {
+    const storage = new MemStorage();
+    const state = { checkpoints: [{ blockNumber: 10, blockHash: `0x${"cd".repeat(32)}` }], finalizedBlock: 4 };
+
+    await storage.setCursor("indexer.31337.nft", state);
+
+    expect(await storage.getCursor("indexer.31337.nft")).toEqual({ key: "indexer.31337.nft", ...state });
+    expect(await storage.getCursor("indexer.1.nft")).toBeUndefined();
+  });
+});
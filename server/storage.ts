@@ -1,21 +1,89 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import {
+  users,
+  type User,
+  type InsertUser,
+  type ContractEvent,
+  type InsertContractEvent,
+  type NftToken,
+  type InsertNftToken,
+  type IndexerCursor,
+} from "@shared/schema";
+import type { BlockCursorState, CursorStore } from "@shared/blockCursor";
 
 // modify the interface with any CRUD methods
 // you might need
 
-export interface IStorage {
+export interface EventQuery {
+  chainId?: number;
+  contract?: string;
+  event?: string;
+  tokenId?: string;
+  // Matches events whose from/to argument is this address
+  account?: string;
+  fromBlock?: number;
+  toBlock?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface IStorage extends CursorStore {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  // Indexed events, oldest first; already stored logs are ignored
+  addEvents(events: InsertContractEvent[]): Promise<ContractEvent[]>;
+  getEvents(query: EventQuery): Promise<ContractEvent[]>;
+  // Roll back a contract's events from a block onwards, returning those removed
+  deleteEventsFrom(chainId: number, contract: string, fromBlock: number): Promise<ContractEvent[]>;
+
+  upsertToken(token: InsertNftToken): Promise<NftToken>;
+  deleteToken(chainId: number, contract: string, tokenId: string): Promise<void>;
+  getTokens(contract: string, chainId?: number): Promise<NftToken[]>;
+  getTokensByOwner(owner: string, chainId?: number): Promise<NftToken[]>;
+
+  // Block cursors of the indexers
+  getCursor(key: string): Promise<IndexerCursor | undefined>;
+  setCursor(key: string, state: BlockCursorState): Promise<IndexerCursor>;
+}
+
+/**
+ * Key for a row scoped to one contract on one chain
+ */
+function contractKey(chainId: number, contract: string, ...rest: string[]): string {
+  return [chainId, contract.toLowerCase(), ...rest].join(":");
+}
+
+/**
+ * Order events as they were emitted
+ */
+function byLogPosition(a: ContractEvent, b: ContractEvent): number {
+  return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+}
+
+/**
+ * Numeric token order, for ids too large for a number
+ */
+function byTokenId(a: NftToken, b: NftToken): number {
+  const difference = BigInt(a.tokenId) - BigInt(b.tokenId);
+  return difference < BigInt(0) ? -1 : difference > BigInt(0) ? 1 : 0;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private events: Map<string, ContractEvent>;
+  private tokens: Map<string, NftToken>;
+  private cursors: Map<string, IndexerCursor>;
   currentId: number;
+  currentEventId: number;
 
   constructor() {
     this.users = new Map();
+    this.events = new Map();
+    this.tokens = new Map();
+    this.cursors = new Map();
     this.currentId = 1;
+    this.currentEventId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -34,6 +102,94 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async addEvents(insertEvents: InsertContractEvent[]): Promise<ContractEvent[]> {
+    const added: ContractEvent[] = [];
+
+    for (const insertEvent of insertEvents) {
+      const key = `${insertEvent.chainId}:${insertEvent.transactionHash}:${insertEvent.logIndex}`;
+      if (this.events.has(key)) continue;
+
+      const event: ContractEvent = {
+        ...insertEvent,
+        tokenId: insertEvent.tokenId ?? null,
+        args: insertEvent.args as Record<string, string>,
+        id: this.currentEventId++,
+      };
+      this.events.set(key, event);
+      added.push(event);
+    }
+
+    return added;
+  }
+
+  async getEvents(query: EventQuery): Promise<ContractEvent[]> {
+    const contract = query.contract?.toLowerCase();
+    const account = query.account?.toLowerCase();
+
+    const matches = Array.from(this.events.values())
+      .filter((event) =>
+        (query.chainId === undefined || event.chainId === query.chainId) &&
+        (contract === undefined || event.contract.toLowerCase() === contract) &&
+        (query.event === undefined || event.event === query.event) &&
+        (query.tokenId === undefined || event.tokenId === query.tokenId) &&
+        (account === undefined ||
+          event.args.from?.toLowerCase() === account ||
+          event.args.to?.toLowerCase() === account) &&
+        (query.fromBlock === undefined || event.blockNumber >= query.fromBlock) &&
+        (query.toBlock === undefined || event.blockNumber <= query.toBlock),
+      )
+      .sort(byLogPosition);
+
+    const offset = query.offset ?? 0;
+    return matches.slice(offset, query.limit === undefined ? undefined : offset + query.limit);
+  }
+
+  async deleteEventsFrom(chainId: number, contract: string, fromBlock: number): Promise<ContractEvent[]> {
+    const removed = await this.getEvents({ chainId, contract, fromBlock });
+    for (const event of removed) {
+      this.events.delete(`${event.chainId}:${event.transactionHash}:${event.logIndex}`);
+    }
+    return removed;
+  }
+
+  async upsertToken(token: InsertNftToken): Promise<NftToken> {
+    const stored: NftToken = { ...token, owner: token.owner ?? null };
+    this.tokens.set(contractKey(token.chainId, token.contract, token.tokenId), stored);
+    return stored;
+  }
+
+  async deleteToken(chainId: number, contract: string, tokenId: string): Promise<void> {
+    this.tokens.delete(contractKey(chainId, contract, tokenId));
+  }
+
+  async getTokens(contract: string, chainId?: number): Promise<NftToken[]> {
+    return Array.from(this.tokens.values())
+      .filter((token) =>
+        token.contract.toLowerCase() === contract.toLowerCase() &&
+        (chainId === undefined || token.chainId === chainId),
+      )
+      .sort(byTokenId);
+  }
+
+  async getTokensByOwner(owner: string, chainId?: number): Promise<NftToken[]> {
+    return Array.from(this.tokens.values())
+      .filter((token) =>
+        token.owner?.toLowerCase() === owner.toLowerCase() &&
+        (chainId === undefined || token.chainId === chainId),
+      )
+      .sort((a, b) => a.contract.localeCompare(b.contract) || byTokenId(a, b));
+  }
+
+  async getCursor(key: string): Promise<IndexerCursor | undefined> {
+    return this.cursors.get(key);
+  }
+
+  async setCursor(key: string, state: BlockCursorState): Promise<IndexerCursor> {
+    const cursor: IndexerCursor = { key, ...state };
+    this.cursors.set(key, cursor);
+    return cursor;
+  }
 }
 
 export const storage = new MemStorage();
@@ -0,0 +1,190 @@
+/**
+ * Reorg-Safe Block Cursor
+ *
+ * Tracks how far a log-based indexer has processed a chain, keyed per
+ * indexer (e.g. per contract), in any store that implements CursorStore:
+ * IndexedDB in the browser, IStorage on the server. Every processed range
+ * leaves a checkpoint (block number and hash). Before the next range the
+ * cursor checks that the following block's parent hash still matches the
+ * newest checkpoint; on a mismatch it walks back through the checkpoints to
+ * the fork point and asks the indexer to roll back records from there.
+ *
+ * Blocks with at least `confirmations` confirmations are final: records in
+ * them can be shown as settled, and checkpoints below them are pruned.
+ */
+
+import { ethers } from "ethers";
+
+// Confirmations before a block is treated as final
+export const DEFAULT_CONFIRMATIONS = 12;
+
+export interface BlockCheckpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface BlockCursorState {
+  // Processed ranges, oldest first; the last one is the cursor position
+  checkpoints: BlockCheckpoint[];
+  // Highest final block when the cursor last advanced, -1 before that
+  finalizedBlock: number;
+}
+
+export interface CursorStore {
+  getCursor(key: string): Promise<BlockCursorState | undefined>;
+  setCursor(key: string, state: BlockCursorState): Promise<unknown>;
+}
+
+export interface BlockCursorOptions {
+  // First block processed when nothing has been processed yet
+  startBlock?: number;
+  confirmations?: number;
+}
+
+export interface CursorStep {
+  // Records from this block onwards were on a dropped fork, null if none
+  rollbackFrom: number | null;
+  fromBlock: number;
+  toBlock: number;
+  toBlockHash: string;
+  finalizedBlock: number;
+}
+
+export interface CursorHandlers {
+  rollback: (fromBlock: number) => Promise<void>;
+  // checkpoint moves the cursor part-way through the range once records up to
+  // that block are stored, so an interrupted range resumes after it
+  process: (fromBlock: number, toBlock: number, checkpoint: (blockNumber: number) => Promise<void>) => Promise<void>;
+}
+
+export class BlockCursor {
+  private state: BlockCursorState | undefined;
+  private startBlock: number;
+  private confirmations: number;
+
+  constructor(
+    private provider: ethers.providers.Provider,
+    private store: CursorStore,
+    private key: string,
+    { startBlock = 0, confirmations = DEFAULT_CONFIRMATIONS }: BlockCursorOptions = {}
+  ) {
+    this.startBlock = startBlock;
+    this.confirmations = confirmations;
+  }
+
+  /**
+   * Last processed block, or null before the first range
+   */
+  get position(): BlockCheckpoint | null {
+    const checkpoints = this.state?.checkpoints ?? [];
+    return checkpoints.length > 0 ? checkpoints[checkpoints.length - 1] : null;
+  }
+
+  /**
+   * Whether records from a block can be treated as final
+   */
+  isFinal(blockNumber: number): boolean {
+    return blockNumber <= (this.state?.finalizedBlock ?? -1);
+  }
+
+  /**
+   * Load the stored cursor
+   */
+  async load(): Promise<BlockCursorState | undefined> {
+    this.state = await this.store.getCursor(this.key);
+    return this.state;
+  }
+
+  /**
+   * Plan the next range up to the chain head, detecting reorgs since the last one
+   */
+  async next(): Promise<CursorStep | null> {
+    await this.load();
+
+    const head = await this.provider.getBlock("latest");
+    const finalizedBlock = head.number - this.confirmations;
+    const position = this.position;
+
+    let rollbackFrom: number | null = null;
+    if (position) {
+      const reorged = head.number > position.blockNumber
+        ? (await this.provider.getBlock(position.blockNumber + 1))?.parentHash !== position.blockHash
+        : (await this.provider.getBlock(position.blockNumber))?.hash !== position.blockHash;
+
+      if (reorged) rollbackFrom = await this.findForkPoint(head.number);
+    }
+
+    const fromBlock = rollbackFrom ?? (position ? position.blockNumber + 1 : this.startBlock);
+    if (fromBlock > head.number && rollbackFrom === null) return null;
+
+    return {
+      rollbackFrom,
+      fromBlock,
+      toBlock: head.number,
+      toBlockHash: head.hash,
+      finalizedBlock
+    };
+  }
+
+  /**
+   * Record a processed range as the new cursor position
+   */
+  async commit(step: CursorStep): Promise<BlockCursorState> {
+    // Drop checkpoints on the abandoned fork (or superseded by this one)
+    const kept = (this.state?.checkpoints ?? []).filter(checkpoint =>
+      checkpoint.blockNumber < Math.min(step.fromBlock, step.toBlock)
+    );
+    kept.push({ blockNumber: step.toBlock, blockHash: step.toBlockHash });
+
+    // Only the newest final checkpoint is needed as a fork point
+    const lastFinal = kept.reduce((found, checkpoint, position) =>
+      checkpoint.blockNumber <= step.finalizedBlock ? position : found, 0);
+
+    this.state = {
+      checkpoints: kept.slice(lastFinal),
+      finalizedBlock: step.finalizedBlock
+    };
+    await this.store.setCursor(this.key, this.state);
+    return this.state;
+  }
+
+  /**
+   * Roll back any dropped fork, process new blocks and advance the cursor
+   */
+  async sync({ rollback, process }: CursorHandlers): Promise<CursorStep | null> {
+    const step = await this.next();
+    if (!step) return null;
+
+    if (step.rollbackFrom !== null) await rollback(step.rollbackFrom);
+    if (step.fromBlock <= step.toBlock) {
+      let rangeStart = step.fromBlock;
+      await process(step.fromBlock, step.toBlock, async blockNumber => {
+        const block = await this.provider.getBlock(blockNumber);
+        if (!block) return;
+        await this.commit({ ...step, fromBlock: rangeStart, toBlock: blockNumber, toBlockHash: block.hash });
+        rangeStart = blockNumber + 1;
+      });
+    }
+
+    await this.commit(step);
+    return step;
+  }
+
+  /**
+   * First block after the newest checkpoint still on the canonical chain
+   */
+  private async findForkPoint(headNumber: number): Promise<number> {
+    const checkpoints = this.state?.checkpoints ?? [];
+
+    for (let position = checkpoints.length - 1; position >= 0; position--) {
+      const checkpoint = checkpoints[position];
+      if (checkpoint.blockNumber > headNumber) continue;
+
+      const block = await this.provider.getBlock(checkpoint.blockNumber);
+      if (block?.hash === checkpoint.blockHash) return checkpoint.blockNumber + 1;
+    }
+
+    // Deeper than any checkpoint: start over
+    return this.startBlock;
+  }
+}
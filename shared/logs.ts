@@ -0,0 +1,90 @@
+/**
+ * Chunked Log Scanning
+ *
+ * Reads event logs (raw, or parsed through a contract's queryFilter) over
+ * long block ranges without tripping public RPC limits. The range is split
+ * into chunks that are requested in order; when a node rejects a chunk as too
+ * large (block range or result count limits), the chunk is halved and
+ * retried. Progress, with each chunk's results, is reported after every chunk
+ * and awaited before the next one, so callers can persist partial scans.
+ */
+
+import { ethers } from "ethers";
+
+// Blocks per eth_getLogs request before any halving
+const DEFAULT_CHUNK_SIZE = 50000;
+
+export interface LogScanOptions<T = ethers.providers.Log> {
+  fromBlock?: number;
+  // Defaults to the latest block
+  toBlock?: number;
+  chunkSize?: number;
+  onProgress?: (scannedTo: number, toBlock: number, chunk: T[]) => void | Promise<void>;
+}
+
+/**
+ * Check whether a getLogs failure means the requested range was too large
+ */
+export function isRangeLimitError(error: any): boolean {
+  const messages = [error?.message, error?.error?.message, error?.body]
+    .filter((message): message is string => typeof message === 'string')
+    .join(' ');
+
+  return error?.code === -32005 || error?.error?.code === -32005 ||
+    /block range|range (is )?too (large|wide)|too many (results|logs|blocks)|(limit|size) exceeded|query returned more than|exceeds? (the )?(max|limit)/i.test(messages);
+}
+
+/**
+ * Fetch a block range chunk by chunk, halving chunks the node rejects
+ */
+async function scanChunks<T>(
+  provider: ethers.providers.Provider,
+  fetchRange: (fromBlock: number, toBlock: number) => Promise<T[]>,
+  { fromBlock = 0, toBlock, chunkSize = DEFAULT_CHUNK_SIZE, onProgress }: LogScanOptions<T>
+): Promise<T[]> {
+  const lastBlock = toBlock ?? await provider.getBlockNumber();
+  const results: T[] = [];
+  let size = chunkSize;
+  let start = fromBlock;
+
+  while (start <= lastBlock) {
+    const end = Math.min(start + size - 1, lastBlock);
+    let chunk: T[];
+
+    try {
+      chunk = await fetchRange(start, end);
+    } catch (error) {
+      if (!isRangeLimitError(error) || size === 1) throw error;
+      size = Math.max(1, Math.floor(size / 2));
+      continue;
+    }
+
+    results.push(...chunk);
+    await onProgress?.(end, lastBlock, chunk);
+    start = end + 1;
+  }
+
+  return results;
+}
+
+/**
+ * Read all logs matching a filter across a block range
+ */
+export function scanLogs(
+  provider: ethers.providers.Provider,
+  filter: { address?: string; topics?: Array<string | string[] | null> },
+  options: LogScanOptions = {}
+): Promise<ethers.providers.Log[]> {
+  return scanChunks(provider, (fromBlock, toBlock) => provider.getLogs({ ...filter, fromBlock, toBlock }), options);
+}
+
+/**
+ * Chunked contract.queryFilter: read a contract's parsed events across a block range
+ */
+export function scanEvents(
+  contract: ethers.Contract,
+  filter: ethers.EventFilter,
+  options: LogScanOptions<ethers.Event> = {}
+): Promise<ethers.Event[]> {
+  return scanChunks(contract.provider, (fromBlock, toBlock) => contract.queryFilter(filter, fromBlock, toBlock), options);
+}
@@ -1,6 +1,7 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, unique, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { BlockCheckpoint } from "./blockCursor";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -15,3 +16,58 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+// Indexed contract events, one row per log
+export const contractEvents = pgTable("contract_events", {
+  id: serial("id").primaryKey(),
+  chainId: integer("chain_id").notNull(),
+  contract: text("contract").notNull(),
+  event: text("event").notNull(),
+  // Token the event refers to (Minted, Transfer), null for contract-wide events
+  tokenId: text("token_id"),
+  args: jsonb("args").$type<Record<string, string>>().notNull(),
+  blockNumber: integer("block_number").notNull(),
+  blockHash: text("block_hash").notNull(),
+  transactionHash: text("transaction_hash").notNull(),
+  logIndex: integer("log_index").notNull(),
+}, (table) => [
+  unique().on(table.chainId, table.transactionHash, table.logIndex),
+]);
+
+export const insertContractEventSchema = createInsertSchema(contractEvents).omit({
+  id: true,
+});
+
+export type InsertContractEvent = z.infer<typeof insertContractEventSchema>;
+export type ContractEvent = typeof contractEvents.$inferSelect;
+
+// Current state of every token seen by the indexer
+export const nftTokens = pgTable("nft_tokens", {
+  chainId: integer("chain_id").notNull(),
+  contract: text("contract").notNull(),
+  tokenId: text("token_id").notNull(),
+  // Null once burned
+  owner: text("owner"),
+  mintedTo: text("minted_to").notNull(),
+  mintedBlock: integer("minted_block").notNull(),
+  mintTransactionHash: text("mint_transaction_hash").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.chainId, table.contract, table.tokenId] }),
+]);
+
+export const insertNftTokenSchema = createInsertSchema(nftTokens);
+
+export type InsertNftToken = z.infer<typeof insertNftTokenSchema>;
+export type NftToken = typeof nftTokens.$inferSelect;
+
+// Block cursor of each indexer (see blockCursor.ts), keyed by chain and contract
+export const indexerCursors = pgTable("indexer_cursors", {
+  key: text("key").primaryKey(),
+  checkpoints: jsonb("checkpoints").$type<BlockCheckpoint[]>().notNull(),
+  finalizedBlock: integer("finalized_block").notNull(),
+});
+
+export const insertIndexerCursorSchema = createInsertSchema(indexerCursors);
+
+export type InsertIndexerCursor = z.infer<typeof insertIndexerCursorSchema>;
+export type IndexerCursor = typeof indexerCursors.$inferSelect;
@@ -0,0 +1,10 @@
+import path from "path";
+import { defineConfig, mergeConfig } from "vitest/config";
+import viteConfig from "./vite.config";
+
+// Vite's root is client/; scan the whole repository so server tests run too
+export default mergeConfig(viteConfig, defineConfig({
+  test: {
+    dir: path.resolve(import.meta.dirname),
+  },
+}));